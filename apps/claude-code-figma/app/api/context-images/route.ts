@@ -0,0 +1,43 @@
+import { NextResponse } from "next/server";
+
+import { ContextImage } from "@/lib/figma/figma-client";
+import {
+  cacheContextImages,
+  getCachedImageKeys,
+} from "@/lib/services/context-image-cache";
+
+/**
+ * 서버에 이미 캐시된 이미지 cacheKey 조회 (?keys=a,b)
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const keys = (searchParams.get("keys") ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+  return NextResponse.json({ cached: getCachedImageKeys(keys) });
+}
+
+/**
+ * GET_CONTEXT 스크린샷 캐시 (이후 요청은 cacheKey만 전송)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as { images?: ContextImage[] };
+    if (!Array.isArray(body?.images)) {
+      return NextResponse.json(
+        { error: "images 배열이 필요합니다." },
+        { status: 400 },
+      );
+    }
+
+    return NextResponse.json({ stored: cacheContextImages(body.images) });
+  } catch (error) {
+    console.error("❌ [context-images] 이미지 캐시 실패:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+}
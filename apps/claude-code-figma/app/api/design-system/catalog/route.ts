@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+
+import { DesignSystemCatalog } from "@/lib/figma/figma-client";
+import {
+  cacheDesignSystemCatalog,
+  getDesignSystemCatalog,
+} from "@/lib/guides/design-system-catalog";
+
+/**
+ * 파일별로 캐시된 디자인 시스템 카탈로그 조회
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const catalog = getDesignSystemCatalog(searchParams.get("fileKey"));
+  if (!catalog) {
+    return NextResponse.json(
+      { error: "캐시된 카탈로그가 없습니다." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ catalog });
+}
+
+/**
+ * 플러그인 SCAN_DESIGN_SYSTEM 결과 캐시 (컴포넌트는 레지스트리에도 등록)
+ */
+export async function POST(request: Request) {
+  try {
+    const body = (await request.json()) as { catalog?: DesignSystemCatalog };
+    const catalog = body?.catalog;
+    if (!catalog?.fileKey || !Array.isArray(catalog.components)) {
+      return NextResponse.json(
+        { error: "fileKey와 components가 포함된 catalog가 필요합니다." },
+        { status: 400 },
+      );
+    }
+
+    cacheDesignSystemCatalog(catalog);
+
+    return NextResponse.json({
+      fileKey: catalog.fileKey,
+      components: catalog.components.length,
+      variableCollections: catalog.variableCollections?.length ?? 0,
+    });
+  } catch (error) {
+    console.error("❌ [design-system] 카탈로그 캐시 실패:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 500 },
+    );
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from "next/server";
+
+import {
+  listDesignSystemComponents,
+  loadDesignSystemFiles,
+} from "@/lib/guides/design-system-registry";
+
+/**
+ * 디자인 시스템 레지스트리 조회 (스캔 결과는 /api/design-system/catalog로 등록)
+ * ?reload=1 이면 JSON 정의 파일을 다시 읽음
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get("reload") === "1") {
+    loadDesignSystemFiles();
+  }
+
+  return NextResponse.json({ components: listDesignSystemComponents() });
+}
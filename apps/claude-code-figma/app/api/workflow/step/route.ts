@@ -1,12 +1,18 @@
 import { NextResponse } from "next/server";
 
 import { FigmaContext } from "@/lib/figma/figma-client";
+import { storeContextImages } from "@/lib/services/context-image-cache";
+import {
+  getWorkflowRunStore,
+  toClientWorkflowState,
+} from "@/lib/services/workflow-run-store";
 import {
   FigmaCodeWorkflowState,
   RequestedContext,
 } from "@/lib/types/workflow-types";
 import { FigmaCodeGenerateWorkflow } from "@/lib/workflows/figma-code-generate-workflow";
 
+// resume: 질문 답변(contextUpdate.answers)을 받아 일시 정지한 실행을 재개
 type WorkflowAction = "start" | "continue" | "resume";
 
 interface WorkflowStepRequest {
@@ -15,6 +21,14 @@ interface WorkflowStepRequest {
   figmaContext?: FigmaContext;
   conversationHistory?: Array<any>;
   previousError?: string;
+  // SCAN_DESIGN_SYSTEM 카탈로그 캐시 키
+  designSystemFileKey?: string;
+  // 탭에서 선택한 워크스페이스 설정 id
+  workspaceId?: string;
+  // continue/resume: 서버 저장소의 실행 ID (version 생략 시 최신 스냅샷)
+  runId?: string;
+  version?: number;
+  // runId가 없는 이전 클라이언트 호환용
   state?: FigmaCodeWorkflowState;
   contextUpdate?: {
     nodeDetails?: Record<string, any>;
@@ -25,6 +39,8 @@ interface WorkflowStepRequest {
 
 interface WorkflowStepResponse {
   success: boolean;
+  runId?: string;
+  version?: number;
   completed: boolean;
   step: string;
   nextStep: string;
@@ -54,12 +70,14 @@ export async function POST(request: Request) {
   try {
     const body = (await request.json()) as WorkflowStepRequest;
     const workflow = new FigmaCodeGenerateWorkflow();
+    const runStore = getWorkflowRunStore();
 
     if (!body?.action) {
       return badRequest("action 필드가 필요합니다.");
     }
 
     let result;
+    let runId: string;
 
     switch (body.action) {
       case "start": {
@@ -67,23 +85,41 @@ export async function POST(request: Request) {
           return badRequest("userPrompt가 필요합니다.");
         }
 
+        // 스냅샷에는 이미지 대신 cacheKey만 저장
         const initialState = workflow.createInitialState(
           body.userPrompt,
-          body.figmaContext,
+          body.figmaContext && storeContextImages(body.figmaContext),
           body.conversationHistory,
           body.previousError,
+          body.designSystemFileKey,
+          body.workspaceId,
         );
+        runId = (await runStore.createRun(initialState)).runId;
         result = await workflow.executeStep(initialState);
         break;
       }
 
       case "continue":
       case "resume": {
-        if (!body.state) {
-          return badRequest("state가 필요합니다.");
+        if (body.action === "resume" && !body.contextUpdate?.answers) {
+          return badRequest("resume에는 contextUpdate.answers가 필요합니다.");
+        }
+
+        let state = body.state;
+        if (body.runId) {
+          const snapshot = await runStore.getSnapshot(body.runId, body.version);
+          if (!snapshot) {
+            return badRequest(`실행을 찾을 수 없습니다: ${body.runId}`);
+          }
+          runId = body.runId;
+          state = snapshot.state;
+        } else if (state) {
+          runId = (await runStore.createRun(state)).runId;
+        } else {
+          return badRequest("runId 또는 state가 필요합니다.");
         }
 
-        result = await workflow.executeStep(body.state, {
+        result = await workflow.executeStep(state, {
           contextUpdate: body.contextUpdate,
         });
         break;
@@ -93,12 +129,16 @@ export async function POST(request: Request) {
         return badRequest(`지원하지 않는 action입니다: ${body.action}`);
     }
 
+    const snapshot = await runStore.saveSnapshot(runId, result.state);
+
     const response: WorkflowStepResponse = {
       success: true,
+      runId,
+      version: snapshot.version,
       completed: result.completed,
       step: result.step,
       nextStep: result.nextStep,
-      state: result.state,
+      state: toClientWorkflowState(result.state),
       requestedContext: result.requestedContext,
       timestamp: Date.now(),
     };
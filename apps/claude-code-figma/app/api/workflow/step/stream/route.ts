@@ -0,0 +1,239 @@
+import { FigmaContext } from "@/lib/figma/figma-client";
+import {
+  getWorkflowRunStore,
+  toClientWorkflowState,
+} from "@/lib/services/workflow-run-store";
+import {
+  FigmaCodeWorkflowState,
+  RequestedContext,
+} from "@/lib/types/workflow-types";
+import {
+  FigmaCodeGenerateWorkflow,
+  StepResult,
+} from "@/lib/workflows/figma-code-generate-workflow";
+
+// 한 번의 스트림 요청에서 실행할 최대 스텝 수 (초과 시 result로 끊고 클라이언트가 이어서 요청)
+const MAX_STEPS_PER_STREAM = 12;
+
+// resume: 질문 답변(contextUpdate.answers)을 받아 일시 정지한 실행을 재개
+type WorkflowAction = "start" | "continue" | "resume";
+
+interface WorkflowStreamRequest {
+  action: WorkflowAction;
+  userPrompt?: string;
+  figmaContext?: FigmaContext;
+  conversationHistory?: Array<any>;
+  previousError?: string;
+  // SCAN_DESIGN_SYSTEM 카탈로그 캐시 키
+  designSystemFileKey?: string;
+  // 탭에서 선택한 워크스페이스 설정 id
+  workspaceId?: string;
+  // continue/resume: 서버 저장소의 실행 ID (version 생략 시 최신 스냅샷)
+  runId?: string;
+  version?: number;
+  // runId가 없는 이전 클라이언트 호환용
+  state?: FigmaCodeWorkflowState;
+  contextUpdate?: {
+    nodeDetails?: Record<string, any>;
+    assets?: Record<string, any>;
+    answers?: Record<string, string>;
+  };
+}
+
+/**
+ * SSE 이벤트
+ * - thought/progress/token: 스텝 실행 중 실시간 출력
+ * - step: 스텝 하나가 끝날 때마다 (state 대신 해당 스텝의 thoughts만 포함)
+ * - requestedContext: 클라이언트 입력이 필요해 일시 정지
+ * - result: 완료 또는 클라이언트 코드 실행이 필요한 시점
+ */
+type WorkflowStreamEvent =
+  | { type: "thought"; content: string }
+  | {
+      type: "progress";
+      content: string;
+      statusType: "thinking" | "complete" | "error";
+    }
+  | { type: "token"; step: string; delta: string }
+  | {
+      type: "step";
+      step: string;
+      nextStep: string;
+      version: number;
+      thoughts: string[];
+    }
+  | {
+      type: "requestedContext";
+      runId: string;
+      version: number;
+      step: string;
+      nextStep: string;
+      requestedContext: RequestedContext;
+      state: FigmaCodeWorkflowState;
+    }
+  | {
+      type: "result";
+      runId: string;
+      version: number;
+      completed: boolean;
+      step: string;
+      nextStep: string;
+      requestedContext: RequestedContext;
+      state: FigmaCodeWorkflowState;
+    }
+  | { type: "error"; error: string };
+
+const hasPendingRequests = (context: RequestedContext) =>
+  (context.nodeIds?.length ?? 0) > 0 ||
+  (context.assets?.length ?? 0) > 0 ||
+  (context.questions?.length ?? 0) > 0;
+
+function badRequest(error: string) {
+  return Response.json({ error }, { status: 400 });
+}
+
+export async function POST(request: Request) {
+  let body: WorkflowStreamRequest;
+  try {
+    body = (await request.json()) as WorkflowStreamRequest;
+  } catch (error) {
+    return badRequest("잘못된 요청 본문입니다.");
+  }
+
+  if (!body?.action) {
+    return badRequest("action 필드가 필요합니다.");
+  }
+  if (body.action === "start" && !body.userPrompt) {
+    return badRequest("userPrompt가 필요합니다.");
+  }
+  if (body.action !== "start" && !body.runId && !body.state) {
+    return badRequest("runId 또는 state가 필요합니다.");
+  }
+  if (body.action === "resume" && !body.contextUpdate?.answers) {
+    return badRequest("resume에는 contextUpdate.answers가 필요합니다.");
+  }
+
+  const runStore = getWorkflowRunStore();
+  let state: FigmaCodeWorkflowState;
+  let runId: string;
+  if (body.action !== "start" && body.runId) {
+    const snapshot = await runStore.getSnapshot(body.runId, body.version);
+    if (!snapshot) {
+      return badRequest(`실행을 찾을 수 없습니다: ${body.runId}`);
+    }
+    runId = body.runId;
+    state = snapshot.state;
+  } else {
+    state =
+      body.action === "start"
+        ? new FigmaCodeGenerateWorkflow().createInitialState(
+            body.userPrompt!,
+            body.figmaContext,
+            body.conversationHistory,
+            body.previousError,
+            body.designSystemFileKey,
+            body.workspaceId,
+          )
+        : body.state!;
+    runId = (await runStore.createRun(state)).runId;
+  }
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      const encoder = new TextEncoder();
+      let closed = false;
+
+      const send = (event: WorkflowStreamEvent) => {
+        if (closed) return;
+        const data = JSON.stringify(event);
+        controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+      };
+
+      // 클라이언트가 연결을 끊으면 이후 이벤트는 버림
+      request.signal.addEventListener("abort", () => {
+        closed = true;
+      });
+
+      const workflow = new FigmaCodeGenerateWorkflow(
+        (thought) => send({ type: "thought", content: thought }),
+        (message, statusType) =>
+          send({ type: "progress", content: message, statusType }),
+        (delta, step) => send({ type: "token", step, delta }),
+      );
+
+      try {
+        let version = state.stepHistory?.length ?? 0;
+        let contextUpdate = body.contextUpdate;
+        let result: StepResult | undefined;
+
+        for (let index = 0; index < MAX_STEPS_PER_STREAM; index++) {
+          const thoughtCount = state.thoughts?.length ?? 0;
+          result = await workflow.executeStep(state, { contextUpdate });
+          contextUpdate = undefined;
+          state = result.state;
+          version = (await runStore.saveSnapshot(runId, state)).version;
+          send({
+            type: "step",
+            step: result.step,
+            nextStep: result.nextStep,
+            version,
+            thoughts: state.thoughts.slice(thoughtCount),
+          });
+
+          if (closed || result.completed) break;
+
+          if (hasPendingRequests(result.requestedContext)) {
+            send({
+              type: "requestedContext",
+              runId,
+              version,
+              step: result.step,
+              nextStep: result.nextStep,
+              requestedContext: result.requestedContext,
+              state: toClientWorkflowState(state),
+            });
+            return;
+          }
+
+          // 생성 코드는 클라이언트(플러그인)에서 실행해야 하므로 execute 후 반환
+          if (result.step === "execute") break;
+        }
+
+        send({
+          type: "result",
+          runId,
+          version,
+          completed: result?.completed ?? false,
+          step: result?.step ?? state.currentStep,
+          nextStep: result?.nextStep ?? state.currentStep,
+          requestedContext: result?.requestedContext ?? {
+            nodeIds: [],
+            assets: [],
+            questions: [],
+          },
+          state: toClientWorkflowState(state),
+        });
+      } catch (error) {
+        console.error("❌ [workflow/step/stream] 스트림 처리 실패:", error);
+        send({
+          type: "error",
+          error: error instanceof Error ? error.message : String(error),
+        });
+      } finally {
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no", // Nginx buffering 비활성화
+    },
+  });
+}
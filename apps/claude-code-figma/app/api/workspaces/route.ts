@@ -0,0 +1,60 @@
+import { NextResponse } from "next/server";
+
+import {
+  deleteWorkspaceConfig,
+  listWorkspaceConfigs,
+  loadWorkspaceConfigFiles,
+  saveWorkspaceConfig,
+} from "@/lib/services/workspace-config-store";
+
+/**
+ * 워크스페이스 설정 목록 조회
+ * ?reload=1 이면 JSON 설정 파일을 다시 읽음
+ */
+export async function GET(request: Request) {
+  const { searchParams } = new URL(request.url);
+  if (searchParams.get("reload") === "1") {
+    loadWorkspaceConfigFiles();
+  }
+
+  return NextResponse.json({ workspaces: listWorkspaceConfigs() });
+}
+
+/**
+ * 워크스페이스 설정 생성/수정 (id 기준으로 덮어씀)
+ */
+export async function POST(request: Request) {
+  let body: { workspace?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: "요청 본문이 올바른 JSON이 아닙니다." },
+      { status: 400 },
+    );
+  }
+
+  try {
+    const workspace = saveWorkspaceConfig(body?.workspace);
+    return NextResponse.json({ workspace });
+  } catch (error) {
+    console.error("❌ [workspaces] 워크스페이스 저장 실패:", error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : String(error) },
+      { status: 400 },
+    );
+  }
+}
+
+export async function DELETE(request: Request) {
+  const { searchParams } = new URL(request.url);
+  const id = searchParams.get("id");
+  if (!id || !deleteWorkspaceConfig(id)) {
+    return NextResponse.json(
+      { error: "삭제할 워크스페이스 설정 파일이 없습니다." },
+      { status: 404 },
+    );
+  }
+
+  return NextResponse.json({ deleted: id });
+}
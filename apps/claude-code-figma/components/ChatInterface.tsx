@@ -1,13 +1,25 @@
 "use client";
 
 import { useTabsDB } from "@/hooks/useTabsDB";
+import type { ExecutionRunDB } from "@/lib/db";
 import type {
+  DryRunPreview,
+  ExecutionChangeSet,
+  FigmaContext,
+  FontRequirements,
+  RevertResult,
+  TokenSource,
+} from "@/lib/figma/figma-client";
+import type { ExecutionProgram } from "@/lib/types/operation-types";
+import type {
+  ClarifyingQuestion,
   CollectedContext,
   ExecutionReport,
   FigmaCodeWorkflowState,
   RequestedContext,
   RunLogEntry,
 } from "@/lib/types/workflow-types";
+import type { WorkspaceConfig } from "@/lib/types/workspace-types";
 
 import { useEffect, useRef, useState } from "react";
 import { v4 as uuidv4 } from "uuid";
@@ -22,6 +34,8 @@ interface StreamingMessage {
 
 interface WorkflowStepResponse {
   success: boolean;
+  runId?: string;
+  version?: number;
   completed: boolean;
   step: string;
   nextStep: string;
@@ -31,8 +45,44 @@ interface WorkflowStepResponse {
   error?: string;
 }
 
+// /api/workflow/step/stream SSE 이벤트
+type WorkflowStreamEvent =
+  | { type: "thought"; content: string }
+  | { type: "progress"; content: string; statusType: string }
+  | { type: "token"; step: string; delta: string }
+  | {
+      type: "step";
+      step: string;
+      nextStep: string;
+      version: number;
+      thoughts: string[];
+    }
+  | {
+      type: "requestedContext" | "result";
+      runId: string;
+      version: number;
+      completed?: boolean;
+      step: string;
+      nextStep: string;
+      requestedContext: RequestedContext;
+      state: FigmaCodeWorkflowState;
+    }
+  | { type: "error"; error: string };
+
+// 스트리밍 중 표시할 토큰 출력 길이 (마지막 부분만)
+const LIVE_TOKEN_PREVIEW_LENGTH = 600;
+
 export function ChatInterface({ tab }: { tab: ConversationTab }) {
-  const { addMessage, getTabMessages, updateFigmaContext } = useTabsDB();
+  const {
+    addMessage,
+    getTabMessages,
+    updateFigmaContext,
+    addRun,
+    getTabRuns,
+    markRunReverted,
+    getTabWorkspace,
+    updateTabWorkspace,
+  } = useTabsDB();
 
   const [inputValue, setInputValue] = useState("");
   const [isProcessing, setIsProcessing] = useState(false);
@@ -44,6 +94,32 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const workflowStateRef = useRef<Record<string, FigmaCodeWorkflowState>>({});
   const thoughtCountRef = useRef<Map<string, number>>(new Map());
+  // 스트리밍 메시지별 실행 변경 세트 (메시지 저장 시 실행 이력으로 기록)
+  const pendingChangeSetsRef = useRef<Map<string, ExecutionChangeSet[]>>(
+    new Map(),
+  );
+  const [runs, setRuns] = useState<ExecutionRunDB[]>([]);
+  const [revertingRunId, setRevertingRunId] = useState<string | null>(null);
+  // 실제 적용 전 미리보기 (Apply/Discard 대기)
+  const [pendingPreview, setPendingPreview] = useState<{
+    preview: DryRunPreview | null;
+    error?: string;
+  } | null>(null);
+  const previewDecisionRef = useRef<((apply: boolean) => void) | null>(null);
+  // 블루프린트 질문 폼 (답변 제출 시 스텝 루프를 resume으로 재개)
+  const [pendingQuestions, setPendingQuestions] = useState<
+    ClarifyingQuestion[] | null
+  >(null);
+  const questionAnswersRef = useRef<
+    ((answers: Record<string, string>) => void) | null
+  >(null);
+  // 디자인 시스템 카탈로그 스캔은 탭당 한 번만 수행 (서버가 파일별로 캐시)
+  const designSystemSyncRef = useRef<Promise<string | null> | null>(null);
+  // 토큰 컬렉션/이름 규칙을 결정하는 워크스페이스 (탭별로 저장)
+  const [workspaces, setWorkspaces] = useState<WorkspaceConfig[]>([]);
+  const [workspaceId, setWorkspaceId] = useState<string | undefined>(
+    tab.workspaceId,
+  );
 
   // 선택된 노드 상태
   const [figmaContext, setFigmaContext] = useState<any>(null);
@@ -69,8 +145,14 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     const loadTabData = async () => {
       setIsLoadingData(true);
       try {
-        const tabMessages = await getTabMessages(tab.id);
+        const [tabMessages, tabRuns, tabWorkspaceId] = await Promise.all([
+          getTabMessages(tab.id),
+          getTabRuns(tab.id),
+          getTabWorkspace(tab.id),
+        ]);
         setMessages(tabMessages);
+        setRuns(tabRuns);
+        setWorkspaceId(tabWorkspaceId);
       } catch (error) {
         console.error("Failed to load tab data:", error);
       } finally {
@@ -79,7 +161,59 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     };
 
     loadTabData();
-  }, [tab.id, getTabMessages]);
+  }, [tab.id, getTabMessages, getTabRuns, getTabWorkspace]);
+
+  // 서버에 저장된 워크스페이스 설정 목록
+  useEffect(() => {
+    const loadWorkspaces = async () => {
+      try {
+        const response = await fetch("/api/workspaces");
+        if (!response.ok) return;
+        const data = (await response.json()) as {
+          workspaces: WorkspaceConfig[];
+        };
+        setWorkspaces(data.workspaces);
+      } catch (error) {
+        console.warn("Failed to load workspaces:", error);
+      }
+    };
+
+    loadWorkspaces();
+  }, []);
+
+  const handleWorkspaceChange = async (nextWorkspaceId: string) => {
+    setWorkspaceId(nextWorkspaceId);
+    await updateTabWorkspace(tab.id, nextWorkspaceId);
+  };
+
+  const currentWorkspace =
+    workspaces.find((workspace) => workspace.id === workspaceId) ??
+    workspaces[0];
+
+  // 워크스페이스 설정 파일에 저장되므로 같은 워크스페이스를 쓰는 탭에 모두 적용
+  const handleSkipQuestionsChange = async (
+    skipClarifyingQuestions: boolean,
+  ) => {
+    if (!currentWorkspace) return;
+    try {
+      const response = await fetch("/api/workspaces", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          workspace: { ...currentWorkspace, skipClarifyingQuestions },
+        }),
+      });
+      if (!response.ok) return;
+      const { workspace } = (await response.json()) as {
+        workspace: WorkspaceConfig;
+      };
+      setWorkspaces((prev) =>
+        prev.map((item) => (item.id === workspace.id ? workspace : item)),
+      );
+    } catch (error) {
+      console.warn("Failed to update workspace:", error);
+    }
+  };
 
   // Figma 선택 변경 리스너 등록
   useEffect(() => {
@@ -139,11 +273,6 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
         }
       }
 
-      const answers: Record<string, string> = {};
-      requestedContext.questions.forEach((question, index) => {
-        answers[`question_${index}`] = `추가 정보 필요: ${question}`;
-      });
-
       const assets: Record<string, any> = {};
       for (const assetRequest of requestedContext.assets) {
         if (assetRequest.type === "execution_report") {
@@ -165,7 +294,7 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
       return {
         nodeDetails,
         assets,
-        answers,
+        answers: {},
       };
     } catch (error) {
       console.warn("컨텍스트 수집 실패", error);
@@ -197,15 +326,224 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     return accumulated;
   };
 
+  /**
+   * 스트리밍 스텝 요청: 실행 중 thought/progress/토큰은 임시로 표시하고
+   * 스텝이 끝나면 해당 스텝의 thoughts만 메시지에 확정
+   */
+  const requestWorkflowStream = async (
+    payload: any,
+    streamingMessageId: string,
+    accumulated: string,
+  ): Promise<{ result: WorkflowStepResponse; content: string }> => {
+    const response = await fetch("/api/workflow/step/stream", {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(payload),
+    });
+
+    if (!response.ok || !response.body) {
+      throw new Error(`HTTP error! status: ${response.status}`);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let content = accumulated;
+    let liveThoughts: string[] = [];
+    let liveProgress = "";
+    let liveTokens = "";
+    let result: WorkflowStepResponse | undefined;
+
+    const renderLive = () => {
+      const tail = liveTokens.slice(-LIVE_TOKEN_PREVIEW_LENGTH);
+      const live = [
+        ...liveThoughts,
+        liveProgress && `⏳ ${liveProgress}`,
+        tail && `\n\`\`\`\n${tail}\n\`\`\``,
+      ].filter(Boolean);
+      updateLocalStreamingMessage(
+        streamingMessageId,
+        live.length > 0 ? `${content}\n${live.join("\n")}` : content,
+      );
+    };
+
+    const handleEvent = (event: WorkflowStreamEvent) => {
+      switch (event.type) {
+        case "thought":
+          liveThoughts.push(event.content);
+          break;
+        case "progress":
+          liveProgress = event.content;
+          break;
+        case "token":
+          liveTokens += event.delta;
+          break;
+        case "step": {
+          content += `\n➡️ 스텝 '${event.step}' 실행 완료\n`;
+          if (event.thoughts.length > 0) {
+            content += `${event.thoughts.join("\n")}\n`;
+          }
+          const previousCount =
+            thoughtCountRef.current.get(streamingMessageId) ?? 0;
+          thoughtCountRef.current.set(
+            streamingMessageId,
+            previousCount + event.thoughts.length,
+          );
+          liveThoughts = [];
+          liveProgress = "";
+          liveTokens = "";
+          break;
+        }
+        case "requestedContext":
+        case "result":
+          result = {
+            success: true,
+            runId: event.runId,
+            version: event.version,
+            completed: event.completed ?? false,
+            step: event.step,
+            nextStep: event.nextStep,
+            state: event.state,
+            requestedContext: event.requestedContext,
+            timestamp: Date.now(),
+          };
+          break;
+        case "error":
+          throw new Error(event.error || "워크플로우 스텝 실행 실패");
+      }
+      renderLive();
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+
+      const chunks = buffer.split("\n\n");
+      buffer = chunks.pop() ?? "";
+      chunks.forEach((chunk) => {
+        const data = chunk
+          .split("\n")
+          .filter((line) => line.startsWith("data: "))
+          .map((line) => line.slice("data: ".length))
+          .join("\n");
+        if (data) handleEvent(JSON.parse(data));
+      });
+    }
+
+    if (!result) {
+      throw new Error("워크플로우 스트림이 결과 없이 종료되었습니다");
+    }
+    return { result, content };
+  };
+
+  // 롤백 스냅샷 대상: Planning에서 지정한 수정/삭제 대상 노드
+  const getTargetNodeIds = (state: FigmaCodeWorkflowState) =>
+    (state.plan?.scope?.targetNodes ?? []).map((node) => node.id);
+
+  // 생성 코드의 tokens 런타임이 먼저 검색할 워크스페이스 변수 컬렉션
+  const getTokenSources = (state: FigmaCodeWorkflowState) =>
+    state.generation?.tokenSources ?? [];
+
+  // 플러그인이 실행 전에 미리 로드할 워크스페이스 기본 폰트와 텍스트 스타일
+  const getFontRequirements = (state: FigmaCodeWorkflowState) =>
+    state.generation?.fontRequirements;
+
+  // 모든 TODO가 컴파일된 경우 생성 코드 대신 operation 목록을 실행
+  const getExecutionProgram = (
+    state: FigmaCodeWorkflowState,
+  ): ExecutionProgram =>
+    state.generation?.operations ?? state.generatedCode ?? "";
+
+  // 질문 폼을 표시하고 사용자가 답변(또는 가정으로 진행)을 제출할 때까지 대기
+  const askClarifyingQuestions = async (
+    questions: ClarifyingQuestion[],
+  ): Promise<Record<string, string>> => {
+    const answers = await new Promise<Record<string, string>>((resolve) => {
+      questionAnswersRef.current = resolve;
+      setPendingQuestions(questions);
+    });
+
+    questionAnswersRef.current = null;
+    setPendingQuestions(null);
+    return answers;
+  };
+
+  // scratch 페이지에서 미리보기 실행 후 사용자의 Apply/Discard 결정을 기다림
+  const previewFigmaCode = async (
+    program: ExecutionProgram,
+    messageId: string,
+    currentContent: string,
+    targetNodeIds: string[] = [],
+    tokenSources: TokenSource[] = [],
+    fontRequirements?: FontRequirements,
+  ): Promise<{ approved: boolean; content: string }> => {
+    let content = currentContent + `\n🧪 **미리보기 실행 중...**\n`;
+    updateLocalStreamingMessage(messageId, content);
+
+    let preview: DryRunPreview | null = null;
+    let previewError: string | undefined;
+    try {
+      const { figmaClient } = await import("@/lib/figma/figma-client");
+      preview = await figmaClient.previewCode(program, {
+        scopeNodeIds: targetNodeIds,
+        tokenSources,
+        fontRequirements,
+      });
+      const { report } = preview;
+      content += `🧪 **미리보기 완료:** 생성 ${report.createdNodes.length}개 / 수정 ${report.updatedNodes.length}개 / 삭제 ${report.deletedNodeIds.length}개\n`;
+      if (preview.error) {
+        content += `⚠️ 미리보기 실행 오류: ${preview.error}\n`;
+      }
+    } catch (error) {
+      previewError = error instanceof Error ? error.message : String(error);
+      content += `⚠️ 미리보기 실패: ${previewError}\n`;
+    }
+    content += "적용 여부를 선택해주세요.\n";
+    updateLocalStreamingMessage(messageId, content);
+
+    const approved = await new Promise<boolean>((resolve) => {
+      previewDecisionRef.current = resolve;
+      setPendingPreview({ preview, error: previewError });
+    });
+
+    previewDecisionRef.current = null;
+    setPendingPreview(null);
+    preview?.images.forEach((img) => {
+      if (typeof img.image === "string") URL.revokeObjectURL(img.image);
+    });
+
+    content += approved
+      ? "✅ 미리보기 승인: 실제 프레임에 적용합니다.\n"
+      : "⏹️ **미리보기에서 적용을 취소했습니다.**\n";
+    updateLocalStreamingMessage(messageId, content);
+    return { approved, content };
+  };
+
   // Figma 코드 실행 함수
   const executeFigmaCode = async (
-    figmaCode: string,
+    program: ExecutionProgram,
     messageId: string,
     currentContent: string,
+    targetNodeIds: string[] = [],
+    tokenSources: TokenSource[] = [],
+    fontRequirements?: FontRequirements,
   ): Promise<string> => {
     try {
       const { figmaClient } = await import("@/lib/figma/figma-client");
-      const executionResult = await figmaClient.executeCode(figmaCode);
+      const executionResult = await figmaClient.executeCode(program, {
+        transactional: true,
+        recordChangeSet: true,
+        snapshotNodeIds: targetNodeIds,
+        scopeNodeIds: targetNodeIds,
+        tokenSources,
+        fontRequirements,
+      });
+      if (executionResult.changeSet) {
+        recordChangeSet(messageId, executionResult.changeSet);
+      }
       const executionReport =
         executionResult.executionReport ||
         (await figmaClient.getExecutionReport(true));
@@ -252,6 +590,32 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
             }
           }
         }
+        if (executionReport?.unresolvedTokens?.length) {
+          const unresolvedSummary = executionReport.unresolvedTokens
+            .slice(0, 5)
+            .map(
+              (token) =>
+                `• ${token.token} → ${token.nodeName ?? "?"}.${token.field} (${token.reason})`,
+            )
+            .join("\n");
+          updatedContent += `⚠️ 바인딩하지 못한 토큰:\n${unresolvedSummary}\n`;
+          if (executionReport.unresolvedTokens.length > 5) {
+            updatedContent += `...외 ${executionReport.unresolvedTokens.length - 5}개 토큰\n`;
+          }
+        }
+        if (executionReport?.fontSubstitutions?.length) {
+          const fontSummary = executionReport.fontSubstitutions
+            .slice(0, 5)
+            .map(
+              ({ requested, substitute }) =>
+                `• ${requested.family} ${requested.style} → ${substitute.family} ${substitute.style}`,
+            )
+            .join("\n");
+          updatedContent += `🔤 대체한 폰트:\n${fontSummary}\n`;
+          if (executionReport.fontSubstitutions.length > 5) {
+            updatedContent += `...외 ${executionReport.fontSubstitutions.length - 5}개 폰트\n`;
+          }
+        }
       } else {
         updatedContent += `\n❌ **실행 실패:** ${executionResult.error}\n`;
         if (executionReport?.error) {
@@ -264,13 +628,112 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     } catch (execError: any) {
       const errorMessage =
         execError.errorMessage || execError.message || String(execError);
-      const errorContent =
-        currentContent + `\n💥 **실행 중 오류:** ${errorMessage}\n`;
+      let errorContent =
+        execError.errorType === "POLICY_VIOLATION"
+          ? currentContent + `\n🛡️ **실행 정책 위반:** ${errorMessage}\n`
+          : currentContent + `\n💥 **실행 중 오류:** ${errorMessage}\n`;
+      if (execError.changeSet) {
+        recordChangeSet(messageId, execError.changeSet);
+      }
+      if (execError.rollback) {
+        const { removedNodeIds, restoredNodeIds, failedNodeIds } =
+          execError.rollback;
+        errorContent += `↩️ 롤백: 생성 노드 ${removedNodeIds.length}개 제거, 수정 노드 ${restoredNodeIds.length}개 복원\n`;
+        if (failedNodeIds.length > 0) {
+          errorContent += `⚠️ 복원하지 못한 노드: ${failedNodeIds.join(", ")}\n`;
+        }
+      }
       updateLocalStreamingMessage(messageId, errorContent);
       return errorContent;
     }
   };
 
+  const recordChangeSet = (
+    messageId: string,
+    changeSet: ExecutionChangeSet,
+  ) => {
+    const changeSets = pendingChangeSetsRef.current.get(messageId) ?? [];
+    changeSets.push(changeSet);
+    pendingChangeSetsRef.current.set(messageId, changeSets);
+  };
+
+  const formatRevertResult = (result: RevertResult) => {
+    let content = `↩️ **실행 되돌리기 완료:** 생성 노드 ${result.removedNodeIds.length}개 제거, 수정 노드 ${result.restoredNodeIds.length}개 복원, 삭제 노드 ${result.recreatedNodeIds.length}개 재생성\n`;
+    if (result.conflicts.length > 0) {
+      const conflictList = result.conflicts
+        .map(
+          (conflict) =>
+            `• ${conflict.name ?? conflict.nodeId} (${conflict.nodeId}) → ${
+              conflict.reason === "modified" ? "실행 이후 수정됨" : "노드 없음"
+            }`,
+        )
+        .join("\n");
+      content += `⚠️ 충돌로 되돌리지 않은 노드:\n${conflictList}\n`;
+    }
+    if (result.failedNodeIds.length > 0) {
+      content += `⚠️ 되돌리지 못한 노드: ${result.failedNodeIds.join(", ")}\n`;
+    }
+    return content;
+  };
+
+  const appendAssistantMessage = async (content: string) => {
+    const messageId = await addMessage(tab.id, {
+      role: "assistant",
+      content,
+      streaming: false,
+    });
+    setMessages((prev) => [
+      ...prev,
+      {
+        id: messageId,
+        role: "assistant",
+        content,
+        timestamp: new Date(),
+        streaming: false,
+      },
+    ]);
+  };
+
+  // 어시스턴트 메시지에 연결된 실행을 되돌림 (재시도 포함 최신 실행부터)
+  const revertRun = async (run: ExecutionRunDB) => {
+    setRevertingRunId(run.id);
+    try {
+      const { figmaClient } = await import("@/lib/figma/figma-client");
+      const combined: RevertResult = {
+        removedNodeIds: [],
+        restoredNodeIds: [],
+        recreatedNodeIds: [],
+        failedNodeIds: [],
+        conflicts: [],
+      };
+      for (const changeSet of [...run.changeSets].reverse()) {
+        const result = await figmaClient.revertRun(changeSet);
+        combined.removedNodeIds.push(...result.removedNodeIds);
+        combined.restoredNodeIds.push(...result.restoredNodeIds);
+        combined.recreatedNodeIds.push(...result.recreatedNodeIds);
+        combined.failedNodeIds.push(...result.failedNodeIds);
+        combined.conflicts.push(...result.conflicts);
+      }
+
+      const revertedAt = await markRunReverted(run.id, combined);
+      setRuns((prev) =>
+        prev.map((item) =>
+          item.id === run.id
+            ? { ...item, revertedAt, revertResult: combined }
+            : item,
+        ),
+      );
+      await appendAssistantMessage(formatRevertResult(combined));
+    } catch (error) {
+      console.error("Failed to revert run:", error);
+      await appendAssistantMessage(
+        `❌ **실행 되돌리기 실패:** ${error instanceof Error ? error.message : String(error)}\n`,
+      );
+    } finally {
+      setRevertingRunId(null);
+    }
+  };
+
   // 스트리밍 완료 (최종 메시지를 탭 상태에 저장)
   const completeStreamingMessage = async (
     messageId: string,
@@ -293,6 +756,17 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     };
     setMessages((prev) => [...prev, assistantMessage]);
 
+    const changeSets = pendingChangeSetsRef.current.get(messageId);
+    pendingChangeSetsRef.current.delete(messageId);
+    if (changeSets?.length) {
+      try {
+        const run = await addRun(tab.id, assistantMessageId, changeSets);
+        setRuns((prev) => [...prev, run]);
+      } catch (error) {
+        console.error("Failed to record run:", error);
+      }
+    }
+
     setStreamingMessages((prev) => {
       const newMap = new Map(prev);
       newMap.delete(messageId);
@@ -347,6 +821,71 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     }
   };
 
+  // 디자인 시스템 카탈로그를 스캔해 서버에 파일별로 캐시 (실패해도 진행)
+  // 진행 중이거나 끝난 스캔은 재사용하고, 실패하면 다음 제출에서 다시 시도
+  const syncDesignSystemCatalog = () => {
+    if (!designSystemSyncRef.current) {
+      designSystemSyncRef.current = (async () => {
+        try {
+          const { figmaClient } = await import("@/lib/figma/figma-client");
+          const catalog = await figmaClient.scanDesignSystem();
+          const response = await fetch("/api/design-system/catalog", {
+            method: "POST",
+            headers: {
+              "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ catalog }),
+          });
+          if (response.ok) return catalog.fileKey;
+        } catch (error) {
+          console.warn("Failed to sync design system catalog:", error);
+        }
+        designSystemSyncRef.current = null;
+        return null;
+      })();
+    }
+    return designSystemSyncRef.current;
+  };
+
+  // 탭이 열리면 카탈로그 스캔을 백그라운드로 시작 (제출 시에는 결과만 기다림)
+  useEffect(() => {
+    syncDesignSystemCatalog();
+  }, []);
+
+  // 선택 노드 이미지를 서버 캐시에 올리고 워크플로우에는 cacheKey만 전송
+  // (업로드에 실패하면 이미지를 포함한 컨텍스트를 그대로 사용)
+  const syncContextImages = async (context: FigmaContext | null) => {
+    const images = context?.selectedNodesImage ?? [];
+    if (!context || images.length === 0) return context;
+    try {
+      const keys = images.map((image) => image.cacheKey).join(",");
+      const cachedResponse = await fetch(
+        `/api/context-images?keys=${encodeURIComponent(keys)}`,
+      );
+      const cached = new Set<string>(
+        cachedResponse.ok ? (await cachedResponse.json()).cached : [],
+      );
+      const uploads = images.filter((image) => !cached.has(image.cacheKey));
+      if (uploads.length > 0) {
+        const response = await fetch("/api/context-images", {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({ images: uploads }),
+        });
+        if (!response.ok) return context;
+      }
+      return {
+        ...context,
+        selectedNodesImage: images.map(({ nodeImage, ...image }) => image),
+      };
+    } catch (error) {
+      console.warn("Failed to sync context images:", error);
+      return context;
+    }
+  };
+
   // 컴포넌트 언마운트 시 리소스 정리
   useEffect(() => {
     return () => {
@@ -359,32 +898,34 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     if (!inputValue.trim() || isProcessing) return;
 
     const userContent = inputValue.trim();
-
-    // 제출 시에만 현재 Figma 컨텍스트 업데이트
-    const currentContext = await updateSelectedNodes();
-
-    // 탭에 사용자 메시지 추가
-    const userMessageId = await addMessage(tab.id, {
-      role: "user",
-      content: userContent,
-      figmaContext: currentContext,
-    });
-
-    const userMessage: Message = {
-      id: userMessageId,
-      role: "user",
-      content: userContent,
-      timestamp: new Date(),
-      figmaContext: currentContext,
-    };
-    setMessages((prev) => [...prev, userMessage]);
-    setInputValue("");
+    // 컨텍스트/카탈로그를 기다리는 동안에도 중복 제출되지 않도록 먼저 처리 중으로 표시
     setIsProcessing(true);
-    setWorkflowRunLog([]);
-    setLatestExecutionReport(null);
-    setRunLogFilter("all");
 
     try {
+      // 제출 시에만 현재 Figma 컨텍스트 업데이트
+      const currentContext = await updateSelectedNodes();
+      const designSystemFileKey = await syncDesignSystemCatalog();
+
+      // 탭에 사용자 메시지 추가
+      const userMessageId = await addMessage(tab.id, {
+        role: "user",
+        content: userContent,
+        figmaContext: currentContext,
+      });
+
+      const userMessage: Message = {
+        id: userMessageId,
+        role: "user",
+        content: userContent,
+        timestamp: new Date(),
+        figmaContext: currentContext,
+      };
+      setMessages((prev) => [...prev, userMessage]);
+      setInputValue("");
+      setWorkflowRunLog([]);
+      setLatestExecutionReport(null);
+      setRunLogFilter("all");
+
       const streamingMessageId = uuidv4();
 
       setStreamingMessages((prev) => {
@@ -401,7 +942,8 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
         tab.id,
         userContent,
         streamingMessageId,
-        currentContext,
+        await syncContextImages(currentContext),
+        designSystemFileKey,
       );
     } catch (error) {
       console.error("Workflow failed:", error);
@@ -415,15 +957,19 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
     userMessage: string,
     streamingMessageId: string,
     latestFigmaContext: any,
+    designSystemFileKey: string | null,
   ) => {
     let accumulatedContent = "🧠 워크플로우를 준비하고 있습니다...\n";
     updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
     thoughtCountRef.current.set(streamingMessageId, 0);
 
     let currentState: FigmaCodeWorkflowState | undefined;
+    // 서버 실행 저장소의 ID (continue 요청은 전체 state 대신 ID만 전송)
+    let runId: string | undefined;
     let contextUpdate: CollectedContext | undefined;
-    let action: "start" | "continue" = "start";
+    let action: "start" | "continue" | "resume" = "start";
     let iteration = 0;
+    let executedCode: string | undefined;
 
     const serializeHistory = () =>
       messages.map((msg) => {
@@ -449,33 +995,28 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
                 figmaContext: latestFigmaContext,
                 conversationHistory: serializeHistory(),
                 previousError: null,
+                designSystemFileKey,
+                workspaceId,
               }
             : {
-                action: "continue",
-                state: currentState,
+                action,
+                runId,
                 contextUpdate,
               };
 
-        const response = await fetch("/api/workflow/step", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify(payload),
-        });
-
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const result: WorkflowStepResponse = await response.json();
+        // 스텝 실행 중 출력을 SSE로 받고, 실행/입력이 필요한 시점에 반환됨
+        const { result, content } = await requestWorkflowStream(
+          payload,
+          streamingMessageId,
+          accumulatedContent,
+        );
+        accumulatedContent = content;
+        updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
 
         if (!result.success || !result.state) {
           throw new Error(result.error || "워크플로우 스텝 실행 실패");
         }
-
-        accumulatedContent += `\n➡️ 스텝 '${result.step}' 실행 완료`;
-        updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
+        runId = result.runId;
 
         currentState = result.state;
         workflowStateRef.current[tabId] = currentState;
@@ -495,14 +1036,58 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
           accumulatedContent,
         );
 
+        // execute 스텝 이후 verify가 실행 리포트를 요청하므로 먼저 코드를 실행
+        if (result.step === "execute" && currentState.generatedCode) {
+          accumulatedContent += "\n✨ **코드 생성 완료!**\n";
+          updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
+
+          // 기존 노드를 수정하는 전략은 미리보기 승인 후 적용
+          const strategy = currentState.plan?.strategy;
+          if (strategy === "modify" || strategy === "hybrid") {
+            const { approved, content } = await previewFigmaCode(
+              getExecutionProgram(currentState),
+              streamingMessageId,
+              accumulatedContent,
+              getTargetNodeIds(currentState),
+              getTokenSources(currentState),
+              getFontRequirements(currentState),
+            );
+            accumulatedContent = content;
+            if (!approved) {
+              // 메시지를 이미 저장했으므로 루프 이후의 "다음 스텝" 안내 없이 종료
+              await completeStreamingMessage(
+                streamingMessageId,
+                accumulatedContent,
+              );
+              return;
+            }
+          }
+
+          accumulatedContent = await executeFigmaCode(
+            getExecutionProgram(currentState),
+            streamingMessageId,
+            accumulatedContent,
+            getTargetNodeIds(currentState),
+            getTokenSources(currentState),
+            getFontRequirements(currentState),
+          );
+          executedCode = currentState.generatedCode;
+        }
+
         if (result.completed || currentState.isComplete) {
-          if (currentState.generatedCode) {
+          if (
+            currentState.generatedCode &&
+            currentState.generatedCode !== executedCode
+          ) {
             accumulatedContent += "\n✨ **코드 생성 완료!**\n";
             updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
             const updatedContent = await executeFigmaCode(
-              currentState.generatedCode,
+              getExecutionProgram(currentState),
               streamingMessageId,
               accumulatedContent,
+              getTargetNodeIds(currentState),
+              getTokenSources(currentState),
+              getFontRequirements(currentState),
             );
             await completeStreamingMessage(streamingMessageId, updatedContent);
           } else {
@@ -514,41 +1099,52 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
           break;
         }
 
+        action = "continue";
         if (hasPendingRequests(result.requestedContext)) {
-          accumulatedContent += "\n📥 추가 컨텍스트 수집 중...\n";
-          updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
-          contextUpdate = await fulfillRequestedContext(
-            result.requestedContext,
-          );
+          const { nodeIds, assets, questions } = result.requestedContext;
+          contextUpdate = { nodeDetails: {}, assets: {}, answers: {} };
           const collectedSummary: string[] = [];
-          if (
-            contextUpdate &&
-            Object.keys(contextUpdate.nodeDetails ?? {}).length > 0
-          ) {
-            collectedSummary.push(
-              `${Object.keys(contextUpdate.nodeDetails).length}개 노드 세부 정보를 확보했습니다.`,
+
+          if (nodeIds.length > 0 || assets.length > 0) {
+            accumulatedContent += "\n📥 추가 컨텍스트 수집 중...\n";
+            updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
+            contextUpdate = await fulfillRequestedContext(
+              result.requestedContext,
             );
+            if (Object.keys(contextUpdate.nodeDetails ?? {}).length > 0) {
+              collectedSummary.push(
+                `${Object.keys(contextUpdate.nodeDetails).length}개 노드 세부 정보를 확보했습니다.`,
+              );
+            }
+            if (contextUpdate.assets?.execution_report) {
+              collectedSummary.push("실행 리포트를 확보했습니다.");
+            }
           }
-          if (
-            contextUpdate &&
-            Object.keys(contextUpdate.answers ?? {}).length > 0
-          ) {
+
+          // 질문이 있으면 답변을 받을 때까지 멈추고 resume으로 재개
+          if (questions.length > 0) {
+            accumulatedContent += `\n❓ **확인이 필요한 질문 ${questions.length}개가 있습니다.** 아래 폼에 답변해주세요.\n`;
+            updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
+            contextUpdate.answers = await askClarifyingQuestions(questions);
             collectedSummary.push(
-              `${Object.keys(contextUpdate.answers).length}개 질문에 임시 답변을 작성했습니다.`,
+              questions
+                .map(
+                  ({ id, question }) =>
+                    `- ${question} → ${contextUpdate?.answers[id]}`,
+                )
+                .join("\n"),
             );
+            action = "resume";
           }
-          if (contextUpdate?.assets?.execution_report) {
-            collectedSummary.push("실행 리포트를 확보했습니다.");
-          }
+
           if (collectedSummary.length > 0) {
-            accumulatedContent += collectedSummary.join(" ") + "\n";
+            accumulatedContent += collectedSummary.join("\n") + "\n";
             updateLocalStreamingMessage(streamingMessageId, accumulatedContent);
           }
         } else {
           contextUpdate = undefined;
         }
 
-        action = "continue";
         iteration += 1;
       }
 
@@ -632,7 +1228,39 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
         </div>
       )}
 
-      <div style={{ justifyContent: "flex-end", padding: "8px 8px 0" }}>
+      <div
+        style={{
+          justifyContent: "flex-end",
+          alignItems: "center",
+          gap: 8,
+          padding: "8px 8px 0",
+        }}
+      >
+        {workspaces.length > 0 && (
+          <select
+            value={workspaceId ?? workspaces[0].id}
+            onChange={(e) => handleWorkspaceChange(e.target.value)}
+            disabled={isProcessing}
+            title="워크스페이스"
+          >
+            {workspaces.map((workspace) => (
+              <option key={workspace.id} value={workspace.id}>
+                {workspace.name}
+              </option>
+            ))}
+          </select>
+        )}
+        {currentWorkspace && (
+          <label title="블루프린트 질문을 묻지 않고 가정으로 진행합니다">
+            <input
+              type="checkbox"
+              checked={currentWorkspace.skipClarifyingQuestions === true}
+              onChange={(e) => handleSkipQuestionsChange(e.target.checked)}
+              disabled={isProcessing}
+            />
+            질문 건너뛰기
+          </label>
+        )}
         <button
           onClick={() => setShowDebugPane((prev) => !prev)}
         >
@@ -668,9 +1296,22 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
           </div>
         ) : (
           combinedMessages.map((message) => (
-            <MessageBubble key={message.id} message={message} />
+            <MessageBubble
+              key={message.id}
+              message={message}
+              run={runs.find((run) => run.messageId === message.id)}
+              isReverting={revertingRunId !== null}
+              onRevert={revertRun}
+            />
           ))
         )}
+        {pendingQuestions && (
+          <ClarifyingQuestionsForm
+            questions={pendingQuestions}
+            selection={currentSelection}
+            onSubmit={(answers) => questionAnswersRef.current?.(answers)}
+          />
+        )}
         <div ref={messagesEndRef} />
       </div>
 
@@ -860,6 +1501,77 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
         </div>
       )}
 
+      {pendingPreview && (
+        <div
+          style={{
+            flexDirection: "column",
+            gap: 8,
+            padding: 12,
+            background: "rgba(0,0,0,0.03)",
+            borderTop: `1px solid rgba(0,0,0,0.1)`,
+          }}
+        >
+          <span style={{ fontSize: 24, fontWeight: 600 }}>
+            적용 전 미리보기
+          </span>
+          {pendingPreview.error && (
+            <span style={{ fontSize: 14, color: "rgba(0,0,0,0.8)" }}>
+              미리보기를 생성하지 못했습니다: {pendingPreview.error}
+            </span>
+          )}
+          {pendingPreview.preview?.images.map((img) => (
+            <div key={`preview-${img.nodeId}`}>
+              <span style={{ fontSize: 14, color: "rgba(0,0,0,0.5)" }}>
+                {img.nodeName}
+              </span>
+              <img
+                src={img.image as string}
+                alt={img.nodeName}
+                style={{ maxWidth: "100%" }}
+              />
+            </div>
+          ))}
+          {pendingPreview.preview && (
+            <div style={{ marginTop: 8 }}>
+              <span style={{ fontSize: 14, fontWeight: 600 }}>변경 사항</span>
+              {pendingPreview.preview.diff.length === 0 ? (
+                <span style={{ fontSize: 14, color: "rgba(0,0,0,0.5)" }}>
+                  기존 노드 속성 변경 없음 (생성{" "}
+                  {pendingPreview.preview.report.createdNodes.length}개 / 삭제{" "}
+                  {pendingPreview.preview.report.deletedNodeIds.length}개)
+                </span>
+              ) : (
+                <ul style={{ margin: 0, paddingInlineStart: 16 }}>
+                  {pendingPreview.preview.diff.map((nodeDiff) => (
+                    <li key={`diff-${nodeDiff.nodeId}`}>
+                      <details>
+                        <summary>
+                          {nodeDiff.name} →{" "}
+                          {nodeDiff.changes
+                            .map((change) => change.field)
+                            .join(", ")}
+                        </summary>
+                        <pre style={{ whiteSpace: "pre-wrap" }}>
+                          {JSON.stringify(nodeDiff.changes, null, 2)}
+                        </pre>
+                      </details>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+          <div style={{ gap: 8 }}>
+            <button onClick={() => previewDecisionRef.current?.(true)}>
+              적용
+            </button>
+            <button onClick={() => previewDecisionRef.current?.(false)}>
+              취소
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* 입력 폼 */}
       <form
         onSubmit={handleSubmit}
@@ -891,7 +1603,17 @@ export function ChatInterface({ tab }: { tab: ConversationTab }) {
   );
 }
 
-function MessageBubble({ message }: { message: Message }) {
+function MessageBubble({
+  message,
+  run,
+  isReverting,
+  onRevert,
+}: {
+  message: Message;
+  run?: ExecutionRunDB;
+  isReverting: boolean;
+  onRevert: (run: ExecutionRunDB) => void;
+}) {
   const formatContent = (content: string) => {
     if (!content || content.trim() === "") {
       return message.streaming
@@ -937,6 +1659,115 @@ function MessageBubble({ message }: { message: Message }) {
             AI가 응답하고 있습니다...
           </div>
         )}
+
+        {run && (
+          <div style={{ marginTop: 8 }}>
+            {run.revertedAt ? (
+              <span style={{ fontSize: 14, color: "rgba(0,0,0,0.5)" }}>
+                ↩️ {new Date(run.revertedAt).toLocaleString()}에 되돌림
+                {run.revertResult?.conflicts.length
+                  ? ` (충돌 ${run.revertResult.conflicts.length}개)`
+                  : ""}
+              </span>
+            ) : (
+              <button disabled={isReverting} onClick={() => onRevert(run)}>
+                ↩️ 이 실행 되돌리기
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ClarifyingQuestionsForm({
+  questions,
+  selection,
+  onSubmit,
+}: {
+  questions: ClarifyingQuestion[];
+  selection: Array<{ id: string; name: string; type: string }>;
+  onSubmit: (answers: Record<string, string>) => void;
+}) {
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+
+  const setAnswer = (id: string, value: string) =>
+    setAnswers((prev) => ({ ...prev, [id]: value }));
+
+  // 비워 둔 질문은 가정으로 답함
+  const submit = (useAssumptions: boolean) =>
+    onSubmit(
+      Object.fromEntries(
+        questions.map(({ id, assumption }) => {
+          const answer = useAssumptions ? "" : answers[id]?.trim();
+          return [id, answer || `(가정) ${assumption}`];
+        }),
+      ),
+    );
+
+  return (
+    <div
+      style={{
+        flexDirection: "column",
+        gap: 8,
+        padding: 12,
+        background: "rgba(0,0,0,0.03)",
+        borderRadius: 8,
+      }}
+    >
+      <span style={{ fontSize: 14, fontWeight: 600 }}>요구사항 확인</span>
+      {questions.map((question) => (
+        <div key={question.id} style={{ flexDirection: "column", gap: 4 }}>
+          <span style={{ fontSize: 14 }}>{question.question}</span>
+          {question.kind === "choice" && (
+            <div style={{ gap: 4, flexWrap: "wrap" }}>
+              {(question.options ?? []).map((option) => (
+                <button
+                  key={option}
+                  type="button"
+                  onClick={() => setAnswer(question.id, option)}
+                  style={{
+                    fontWeight: answers[question.id] === option ? 600 : 400,
+                  }}
+                >
+                  {option}
+                </button>
+              ))}
+            </div>
+          )}
+          {question.kind === "node" && (
+            <button
+              type="button"
+              disabled={selection.length === 0}
+              onClick={() =>
+                setAnswer(
+                  question.id,
+                  selection
+                    .map((node) => `${node.name} (${node.id})`)
+                    .join(", "),
+                )
+              }
+            >
+              {selection.length > 0
+                ? `현재 선택 사용: ${selection.map((node) => node.name).join(", ")}`
+                : "캔버스에서 노드를 선택하세요"}
+            </button>
+          )}
+          <input
+            value={answers[question.id] ?? ""}
+            onChange={(e) => setAnswer(question.id, e.target.value)}
+            placeholder={`가정: ${question.assumption}`}
+          />
+        </div>
+      ))}
+      <div style={{ gap: 8 }}>
+        <button type="button" onClick={() => submit(false)}>
+          답변 보내기
+        </button>
+        <button type="button" onClick={() => submit(true)}>
+          가정으로 진행
+        </button>
       </div>
     </div>
   );
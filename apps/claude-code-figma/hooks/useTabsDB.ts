@@ -1,7 +1,16 @@
 import { useCallback, useEffect, useState } from "react";
 import { v4 as uuidv4 } from "uuid";
 import type { ConversationTab, Message, TabsState } from "@/types/tabs";
-import { db, type ConversationTabDB, type MessageDB } from "@/lib/db";
+import {
+  db,
+  type ConversationTabDB,
+  type ExecutionRunDB,
+  type MessageDB,
+} from "@/lib/db";
+import type {
+  ExecutionChangeSet,
+  RevertResult,
+} from "@/lib/figma/figma-client";
 
 export const useTabsDB = () => {
   const [tabsState, setTabsState] = useState<TabsState>({
@@ -20,6 +29,7 @@ export const useTabsDB = () => {
         createdAt: tab.createdAt,
         messages: [],
         lastFigmaContext: tab.lastFigmaContext,
+        workspaceId: tab.workspaceId,
       }));
 
       setTabsState((prev) => ({
@@ -180,6 +190,59 @@ export const useTabsDB = () => {
     [],
   );
 
+  // 실행 이력 추가 (어시스턴트 메시지에 연결)
+  const addRun = useCallback(
+    async (
+      tabId: string,
+      messageId: string,
+      changeSets: ExecutionChangeSet[],
+    ): Promise<ExecutionRunDB> => {
+      const run: ExecutionRunDB = {
+        id: uuidv4(),
+        tabId,
+        messageId,
+        changeSets,
+        createdAt: new Date(),
+      };
+
+      try {
+        await db.addRun(run);
+        return run;
+      } catch (error) {
+        console.error("Failed to add run:", error);
+        throw error;
+      }
+    },
+    [],
+  );
+
+  // 탭의 실행 이력 가져오기
+  const getTabRuns = useCallback(
+    async (tabId: string): Promise<ExecutionRunDB[]> => {
+      try {
+        return await db.getTabRuns(tabId);
+      } catch (error) {
+        console.error("Failed to get tab runs:", error);
+        return [];
+      }
+    },
+    [],
+  );
+
+  // 실행 되돌림 완료 표시
+  const markRunReverted = useCallback(
+    async (runId: string, revertResult: RevertResult): Promise<Date> => {
+      const revertedAt = new Date();
+      try {
+        await db.updateRun(runId, { revertedAt, revertResult });
+      } catch (error) {
+        console.error("Failed to update run:", error);
+      }
+      return revertedAt;
+    },
+    [],
+  );
+
   // Figma 컨텍스트 업데이트
   const updateFigmaContext = useCallback(
     async (tabId: string, figmaContext: any) => {
@@ -199,6 +262,31 @@ export const useTabsDB = () => {
     [],
   );
 
+  // 탭 워크스페이스 설정 (다른 훅 인스턴스에서 변경될 수 있어 DB에서 조회)
+  const getTabWorkspace = useCallback(async (tabId: string) => {
+    const tab = await db.getTab(tabId);
+    return tab?.workspaceId;
+  }, []);
+
+  // 탭 워크스페이스 설정 변경
+  const updateTabWorkspace = useCallback(
+    async (tabId: string, workspaceId: string) => {
+      try {
+        await db.updateTab(tabId, { workspaceId });
+
+        setTabsState((prev) => ({
+          ...prev,
+          tabs: prev.tabs.map((tab) =>
+            tab.id === tabId ? { ...tab, workspaceId } : tab,
+          ),
+        }));
+      } catch (error) {
+        console.error("Failed to update tab workspace:", error);
+      }
+    },
+    [],
+  );
+
   return {
     // 상태
     tabs: tabsState.tabs,
@@ -210,11 +298,18 @@ export const useTabsDB = () => {
     deleteTab,
     setActiveTab,
     updateTabTitle,
+    getTabWorkspace,
+    updateTabWorkspace,
 
     // 메시지 관리
     addMessage,
     getTabMessages,
 
+    // 실행 이력
+    addRun,
+    getTabRuns,
+    markRunReverted,
+
     // Figma 컨텍스트
     updateFigmaContext,
   };
@@ -1,5 +1,11 @@
-import Anthropic from "@anthropic-ai/sdk";
+import {
+  AIMessage,
+  HumanMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
+
 import { codeValidator } from "./code-validator";
+import { getLlmProvider, LlmProvider } from "./llm-provider";
 
 export interface ClaudeStreamingOptions {
   model?: string;
@@ -21,17 +27,8 @@ export interface ClaudeCompletionOptions {
 }
 
 class ClaudeClient {
-  private client: Anthropic;
-
-  constructor() {
-    if (!process.env.NEXT_ANTHROPIC_API_KEY) {
-      throw new Error("NEXT_ANTHROPIC_API_KEY is not set");
-    }
-
-    this.client = new Anthropic({
-      apiKey: process.env.NEXT_ANTHROPIC_API_KEY,
-    });
-  }
+  // 첫 호출 시 provider 선택 (API 키가 없어도 모듈 로드는 가능)
+  constructor(private provider?: LlmProvider) {}
 
   // 기본 완료 메서드
   async complete(
@@ -39,25 +36,35 @@ class ClaudeClient {
     options: ClaudeCompletionOptions = {},
   ): Promise<string> {
     try {
-      const response = await this.client.messages.create({
-        model: options.model || "claude-4-5-haiku",
-        max_tokens: options.maxTokens || 4000,
-        temperature: options.temperature || 0.1,
-        messages: messages.map((msg) => ({
-          role: msg.role as "user" | "assistant",
-          content: msg.content,
-        })),
-        ...(options.systemPrompt && { system: options.systemPrompt }),
+      this.provider = this.provider ?? getLlmProvider();
+      const response = await this.provider.invoke({
+        step: "complete",
+        model: options.model,
+        maxTokens: options.maxTokens,
+        temperature: options.temperature,
+        messages: [
+          ...(options.systemPrompt
+            ? [new SystemMessage(options.systemPrompt)]
+            : []),
+          ...messages.map((msg) =>
+            msg.role === "assistant"
+              ? new AIMessage(msg.content)
+              : new HumanMessage(msg.content),
+          ),
+        ],
       });
 
+      if (typeof response.content === "string") {
+        return response.content;
+      }
       const content = response.content[0];
-      if (content.type === "text") {
+      if (content?.type === "text") {
         return content.text;
       } else {
         throw new Error("Unexpected response type");
       }
     } catch (error) {
-      console.error("Claude API error:", error);
+      console.error("LLM API error:", error);
       throw error;
     }
   }
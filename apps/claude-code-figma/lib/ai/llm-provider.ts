@@ -0,0 +1,486 @@
+import { ChatAnthropic } from "@langchain/anthropic";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+import { createHash } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+import {
+  StructuredOutputTool,
+  toAnthropicTool,
+} from "../services/structured-output";
+
+export type LlmProviderName = "anthropic" | "openai" | "fixture";
+
+const LLM_PROVIDER_NAMES: LlmProviderName[] = [
+  "anthropic",
+  "openai",
+  "fixture",
+];
+
+const DEFAULT_ANTHROPIC_MODEL = "claude-4-5-haiku";
+const DEFAULT_ANTHROPIC_ESCALATION_MODEL = "claude-sonnet-4-5";
+const DEFAULT_OPENAI_MODEL = "gpt-4.1-mini";
+const DEFAULT_OPENAI_BASE_URL = "https://api.openai.com/v1";
+const DEFAULT_MAX_TOKENS = 4000;
+const DEFAULT_TEMPERATURE = 0.1;
+
+export interface LlmRequest {
+  // 워크플로우 스텝 이름 (fixture 파일 경로와 로그에 사용)
+  step: string;
+  messages: BaseMessage[];
+  // 지정하면 해당 도구 호출만 허용
+  tool?: StructuredOutputTool;
+  // 지정하면 스트리밍으로 호출해 텍스트/도구 입력 delta 전달
+  onToken?: (delta: string) => void;
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  timeoutMs?: number;
+}
+
+/**
+ * 워크플로우 스텝(blueprint, planning, design, generate, 스키마 재요청)이 공통으로 쓰는 LLM 호출
+ * 응답은 LangChain AIMessageChunk (content + tool_calls)로 통일
+ */
+export interface LlmProvider {
+  name: LlmProviderName;
+  // 재시도 시 승격할 더 큰 모델 (없으면 승격하지 않음)
+  escalationModel?: string;
+  invoke(request: LlmRequest): Promise<AIMessageChunk>;
+}
+
+export const isLlmProviderName = (value: unknown): value is LlmProviderName =>
+  LLM_PROVIDER_NAMES.includes(value as LlmProviderName);
+
+const getChunkText = (chunk: AIMessageChunk) =>
+  typeof chunk.content === "string"
+    ? chunk.content
+    : chunk.content
+        .map((part) => {
+          if ("text" in part) return String(part.text);
+          return "input" in part && typeof part.input === "string"
+            ? part.input
+            : "";
+        })
+        .join("");
+
+const getTextContent = (message: AIMessageChunk) =>
+  typeof message.content === "string"
+    ? message.content
+    : message.content
+        .map((part) => ("text" in part ? String(part.text) : ""))
+        .join("");
+
+/**
+ * maxTokens에 걸려 응답이 잘렸는지 (Anthropic stop_reason, OpenAI finish_reason)
+ * 스트리밍 응답은 stop_reason이 additional_kwargs에만 들어 있음
+ */
+export const isTruncatedResponse = (response: AIMessageChunk) => {
+  const stopReason =
+    response.response_metadata?.stop_reason ??
+    response.additional_kwargs?.stop_reason;
+  return (
+    stopReason === "max_tokens" ||
+    response.response_metadata?.finish_reason === "length"
+  );
+};
+
+/**
+ * Anthropic Messages API (LangChain ChatAnthropic)
+ */
+export class AnthropicProvider implements LlmProvider {
+  name = "anthropic" as const;
+  // model/maxTokens/temperature 조합별 클라이언트
+  private models = new Map<string, ChatAnthropic>();
+
+  constructor(
+    private apiKey: string,
+    private defaultModel = DEFAULT_ANTHROPIC_MODEL,
+    public escalationModel = DEFAULT_ANTHROPIC_ESCALATION_MODEL,
+  ) {}
+
+  async invoke({
+    messages,
+    tool,
+    onToken,
+    model = this.defaultModel,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    temperature = DEFAULT_TEMPERATURE,
+    timeoutMs,
+  }: LlmRequest): Promise<AIMessageChunk> {
+    const chat = this.getModel(model, maxTokens, temperature);
+    const runnable = tool
+      ? chat.bindTools([toAnthropicTool(tool)], {
+          tool_choice: { type: "tool", name: tool.name },
+        })
+      : chat;
+    const options = { timeout: timeoutMs };
+    if (!onToken) {
+      return runnable.invoke(messages, options);
+    }
+
+    let response: AIMessageChunk | undefined;
+    for await (const chunk of await runnable.stream(messages, options)) {
+      const delta = getChunkText(chunk);
+      if (delta) {
+        onToken(delta);
+      }
+      response = response ? response.concat(chunk) : chunk;
+    }
+    return response ?? new AIMessageChunk({ content: "" });
+  }
+
+  private getModel(model: string, maxTokens: number, temperature: number) {
+    const key = `${model}:${maxTokens}:${temperature}`;
+    let chat = this.models.get(key);
+    if (!chat) {
+      chat = new ChatAnthropic({
+        modelName: model,
+        maxTokens,
+        temperature,
+        apiKey: this.apiKey,
+      });
+      this.models.set(key, chat);
+    }
+    return chat;
+  }
+}
+
+type OpenAIMessage =
+  | { role: "system" | "user"; content: unknown }
+  | {
+      role: "assistant";
+      content: string | null;
+      tool_calls?: Array<{
+        id: string;
+        type: "function";
+        function: { name: string; arguments: string };
+      }>;
+    }
+  | { role: "tool"; tool_call_id: string; content: string };
+
+interface OpenAIChatCompletion {
+  choices: Array<{
+    finish_reason: string;
+    message: {
+      content: string | null;
+      tool_calls?: Array<{
+        id: string;
+        function: { name: string; arguments: string };
+      }>;
+    };
+  }>;
+  usage?: Record<string, number>;
+}
+
+// 이미지는 이미 image_url 형식으로 만들어지므로 HumanMessage content는 그대로 전달
+const toOpenAIMessage = (message: BaseMessage): OpenAIMessage => {
+  const type = message._getType();
+  if (type === "system") {
+    return { role: "system", content: message.content };
+  }
+  if (type === "ai") {
+    const toolCalls = (message as AIMessage).tool_calls ?? [];
+    return {
+      role: "assistant",
+      content: typeof message.content === "string" ? message.content : null,
+      ...(toolCalls.length > 0 && {
+        tool_calls: toolCalls.map((call) => ({
+          id: call.id ?? "",
+          type: "function" as const,
+          function: { name: call.name, arguments: JSON.stringify(call.args) },
+        })),
+      }),
+    };
+  }
+  if (type === "tool") {
+    return {
+      role: "tool",
+      tool_call_id: (message as ToolMessage).tool_call_id,
+      content: String(message.content),
+    };
+  }
+  return { role: "user", content: message.content };
+};
+
+/**
+ * OpenAI 호환 Chat Completions 엔드포인트 (OpenAI, vLLM, LM Studio, Ollama 등)
+ * 스트리밍 없이 호출하고 onToken에는 응답 전체를 한 번에 전달
+ */
+export class OpenAICompatibleProvider implements LlmProvider {
+  name = "openai" as const;
+
+  constructor(
+    private baseUrl: string,
+    private apiKey: string | undefined,
+    private defaultModel = DEFAULT_OPENAI_MODEL,
+    public escalationModel?: string,
+  ) {}
+
+  async invoke({
+    messages,
+    tool,
+    onToken,
+    model = this.defaultModel,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    temperature = DEFAULT_TEMPERATURE,
+    timeoutMs,
+  }: LlmRequest): Promise<AIMessageChunk> {
+    const response = await fetch(
+      `${this.baseUrl.replace(/\/$/, "")}/chat/completions`,
+      {
+        method: "POST",
+        signal: timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined,
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.apiKey && { Authorization: `Bearer ${this.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          max_tokens: maxTokens,
+          temperature,
+          messages: messages.map(toOpenAIMessage),
+          ...(tool && {
+            tools: [
+              {
+                type: "function",
+                function: {
+                  name: tool.name,
+                  description: tool.description,
+                  parameters: tool.schema,
+                },
+              },
+            ],
+            tool_choice: { type: "function", function: { name: tool.name } },
+          }),
+        }),
+      },
+    );
+    if (!response.ok) {
+      throw new Error(
+        `OpenAI 호환 API 오류 (${response.status}): ${await response.text()}`,
+      );
+    }
+
+    const completion = (await response.json()) as OpenAIChatCompletion;
+    const choice = completion.choices[0];
+    if (!choice) {
+      throw new Error("OpenAI 호환 API 응답에 choices가 없습니다");
+    }
+
+    const toolCalls = choice.message.tool_calls ?? [];
+    const content = choice.message.content ?? "";
+    const delta =
+      content || toolCalls.map((call) => call.function.arguments).join("");
+    if (delta) {
+      onToken?.(delta);
+    }
+    return new AIMessageChunk({
+      content,
+      tool_calls: toolCalls.map((call) => ({
+        id: call.id,
+        name: call.function.name,
+        args: JSON.parse(call.function.arguments || "{}"),
+        type: "tool_call" as const,
+      })),
+      response_metadata: {
+        finish_reason: choice.finish_reason,
+        usage: completion.usage,
+      },
+    });
+  }
+}
+
+/**
+ * 녹화된 응답 파일 형식 (직접 작성해도 됨)
+ * <directory>/<step>/<requestHash>.json, 없으면 <directory>/<step>/default.json
+ */
+export interface LlmFixture {
+  step: string;
+  tool?: string;
+  content: string;
+  toolCalls?: Array<{
+    id?: string;
+    name: string;
+    args: Record<string, unknown>;
+  }>;
+  responseMetadata?: Record<string, unknown>;
+}
+
+// 이미지(base64)를 포함한 메시지 전체와 도구 이름으로 요청을 식별
+const hashRequest = ({ messages, tool }: LlmRequest) =>
+  createHash("sha256")
+    .update(
+      JSON.stringify({
+        tool: tool?.name,
+        messages: messages.map((message) => ({
+          type: message._getType(),
+          content: message.content,
+          toolCalls: (message as AIMessage).tool_calls?.map(
+            ({ name, args }) => ({ name, args }),
+          ),
+        })),
+      }),
+    )
+    .digest("hex")
+    .slice(0, 16);
+
+/**
+ * 디스크의 녹화 응답을 재생하는 결정적 provider (API 키/네트워크 없이 워크플로우 실행)
+ * recorder를 지정하면 해당 provider로 호출하고 응답을 파일로 저장
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  name = "fixture" as const;
+
+  constructor(
+    private directory: string,
+    private recorder?: LlmProvider,
+  ) {}
+
+  // 녹화 중에는 실제 provider의 승격 모델을 그대로 사용
+  get escalationModel() {
+    return this.recorder?.escalationModel;
+  }
+
+  async invoke(request: LlmRequest): Promise<AIMessageChunk> {
+    const filePath = path.join(
+      this.directory,
+      request.step,
+      `${hashRequest(request)}.json`,
+    );
+
+    if (this.recorder) {
+      const response = await this.recorder.invoke(request);
+      await this.writeFixture(filePath, request, response);
+      return response;
+    }
+
+    const fixture =
+      (await this.readFixture(filePath)) ??
+      (await this.readFixture(
+        path.join(this.directory, request.step, "default.json"),
+      ));
+    if (!fixture) {
+      throw new Error(
+        `녹화된 LLM 응답이 없습니다: ${path.relative(process.cwd(), filePath)} (LLM_FIXTURE_MODE=record로 녹화)`,
+      );
+    }
+
+    const response = new AIMessageChunk({
+      content: fixture.content,
+      tool_calls: (fixture.toolCalls ?? []).map((call, index) => ({
+        id: call.id ?? `fixture_${index}`,
+        name: call.name,
+        args: call.args,
+        type: "tool_call" as const,
+      })),
+      response_metadata: fixture.responseMetadata ?? {},
+    });
+    const delta =
+      fixture.content ||
+      (fixture.toolCalls ?? [])
+        .map(({ args }) => JSON.stringify(args))
+        .join("");
+    if (delta) {
+      request.onToken?.(delta);
+    }
+    return response;
+  }
+
+  private async readFixture(filePath: string): Promise<LlmFixture | null> {
+    try {
+      return JSON.parse(await fs.readFile(filePath, "utf-8")) as LlmFixture;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  private async writeFixture(
+    filePath: string,
+    request: LlmRequest,
+    response: AIMessageChunk,
+  ) {
+    const fixture: LlmFixture = {
+      step: request.step,
+      tool: request.tool?.name,
+      content: getTextContent(response),
+      toolCalls: response.tool_calls?.map(({ id, name, args }) => ({
+        id,
+        name,
+        args,
+      })),
+      responseMetadata: response.response_metadata,
+    };
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, `${JSON.stringify(fixture, null, 2)}\n`);
+  }
+}
+
+// 개발 서버 HMR 시에도 같은 provider(클라이언트 캐시)를 유지
+const globalForLlm = globalThis as unknown as {
+  llmProviders?: Map<LlmProviderName, LlmProvider>;
+};
+
+const createLlmProvider = (name: LlmProviderName): LlmProvider => {
+  if (name === "fixture") {
+    const recordWith = process.env.LLM_FIXTURE_RECORD_PROVIDER;
+    return new FixtureLlmProvider(
+      path.resolve(
+        process.cwd(),
+        process.env.LLM_FIXTURE_DIR || "fixtures/llm",
+      ),
+      process.env.LLM_FIXTURE_MODE === "record"
+        ? createLlmProvider(
+            isLlmProviderName(recordWith) && recordWith !== "fixture"
+              ? recordWith
+              : "anthropic",
+          )
+        : undefined,
+    );
+  }
+  if (name === "openai") {
+    return new OpenAICompatibleProvider(
+      process.env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL,
+      process.env.OPENAI_API_KEY,
+      process.env.OPENAI_MODEL,
+      process.env.OPENAI_ESCALATION_MODEL,
+    );
+  }
+  if (!process.env.NEXT_ANTHROPIC_API_KEY) {
+    throw new Error("NEXT_ANTHROPIC_API_KEY is not set");
+  }
+  return new AnthropicProvider(
+    process.env.NEXT_ANTHROPIC_API_KEY,
+    process.env.ANTHROPIC_MODEL,
+    process.env.ANTHROPIC_ESCALATION_MODEL,
+  );
+};
+
+/**
+ * 워크스페이스 설정(llmProvider) → LLM_PROVIDER 환경 변수 → anthropic 순으로 provider 선택
+ * - fixture: LLM_FIXTURE_DIR (기본 fixtures/llm)의 녹화 응답 재생
+ *   LLM_FIXTURE_MODE=record면 LLM_FIXTURE_RECORD_PROVIDER(기본 anthropic)로 호출하며 녹화
+ * - openai: OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL
+ */
+export const getLlmProvider = (preferred?: LlmProviderName): LlmProvider => {
+  const envProvider = process.env.LLM_PROVIDER;
+  const name =
+    preferred ?? (isLlmProviderName(envProvider) ? envProvider : "anthropic");
+  if (!globalForLlm.llmProviders) {
+    globalForLlm.llmProviders = new Map();
+  }
+  let provider = globalForLlm.llmProviders.get(name);
+  if (!provider) {
+    provider = createLlmProvider(name);
+    globalForLlm.llmProviders.set(name, provider);
+  }
+  return provider;
+};
@@ -0,0 +1,182 @@
+import fs from "fs";
+import path from "path";
+
+import { LlmProvider } from "./llm-provider";
+
+// 재시도(handleError 이후)에서 다시 실행되는 generate는 repair 설정 사용
+export type ModelRouteStep =
+  | "product-blueprint"
+  | "planning"
+  | "figma-design"
+  | "generate"
+  | "repair";
+
+const MODEL_ROUTE_STEPS: ModelRouteStep[] = [
+  "product-blueprint",
+  "planning",
+  "figma-design",
+  "generate",
+  "repair",
+];
+
+export interface ModelRoute {
+  // 없으면 provider 기본 모델 (ANTHROPIC_MODEL, OPENAI_MODEL)
+  model?: string;
+  // 없으면 provider 승격 모델 (ANTHROPIC_ESCALATION_MODEL 등)
+  escalationModel?: string;
+  maxTokens: number;
+  temperature: number;
+  timeoutMs: number;
+}
+
+export interface ModelRoutingConfig {
+  defaults: ModelRoute;
+  steps: Partial<Record<ModelRouteStep, Partial<ModelRoute>>>;
+  // 이 재시도 횟수부터 승격 모델 사용
+  escalateOnRetry: number;
+  // max_tokens로 잘린 텍스트 응답에 이어쓰기를 요청하는 최대 횟수
+  maxContinuations: number;
+}
+
+export interface ResolvedModelRoute extends ModelRoute {
+  // 실제 적용된 라우팅 스텝 (재시도 중인 generate는 "repair")
+  step: string;
+  escalated: boolean;
+}
+
+export const DEFAULT_MODEL_ROUTING: ModelRoutingConfig = {
+  defaults: { maxTokens: 4000, temperature: 0.1, timeoutMs: 120_000 },
+  steps: {
+    "product-blueprint": { maxTokens: 3000, temperature: 0.2 },
+    planning: { maxTokens: 6000 },
+    "figma-design": { maxTokens: 8000 },
+    generate: { maxTokens: 16000, timeoutMs: 240_000 },
+    repair: { maxTokens: 16000, temperature: 0, timeoutMs: 240_000 },
+  },
+  escalateOnRetry: 2,
+  maxContinuations: 2,
+};
+
+// JSON 설정 파일 위치 (*.example.json은 형식 예시)
+const getRoutingConfigPath = () =>
+  path.resolve(
+    process.cwd(),
+    process.env.MODEL_ROUTING_CONFIG || "config/model-routing.json",
+  );
+
+const isPositiveNumber = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const normalizeRoute = (value: unknown): Partial<ModelRoute> => {
+  const raw = (value ?? {}) as Partial<ModelRoute>;
+  return {
+    ...(isNonEmptyString(raw.model) && { model: raw.model }),
+    ...(isNonEmptyString(raw.escalationModel) && {
+      escalationModel: raw.escalationModel,
+    }),
+    ...(isPositiveNumber(raw.maxTokens) && {
+      maxTokens: Math.floor(raw.maxTokens),
+    }),
+    ...(typeof raw.temperature === "number" &&
+      raw.temperature >= 0 &&
+      raw.temperature <= 1 && { temperature: raw.temperature }),
+    ...(isPositiveNumber(raw.timeoutMs) && { timeoutMs: raw.timeoutMs }),
+  };
+};
+
+/**
+ * 외부 입력(JSON 파일)을 ModelRoutingConfig로 정규화
+ * 잘못된 값은 무시하고 기본 설정 위에 덮어씀
+ */
+export const normalizeModelRoutingConfig = (
+  input: unknown,
+): ModelRoutingConfig => {
+  const raw = (input ?? {}) as Partial<ModelRoutingConfig>;
+  const steps = { ...DEFAULT_MODEL_ROUTING.steps };
+  Object.entries(raw.steps ?? {}).forEach(([step, route]) => {
+    if (MODEL_ROUTE_STEPS.includes(step as ModelRouteStep)) {
+      steps[step as ModelRouteStep] = {
+        ...steps[step as ModelRouteStep],
+        ...normalizeRoute(route),
+      };
+    }
+  });
+
+  return {
+    defaults: {
+      ...DEFAULT_MODEL_ROUTING.defaults,
+      ...normalizeRoute(raw.defaults),
+    },
+    steps,
+    escalateOnRetry: isPositiveNumber(raw.escalateOnRetry)
+      ? Math.floor(raw.escalateOnRetry)
+      : DEFAULT_MODEL_ROUTING.escalateOnRetry,
+    maxContinuations:
+      typeof raw.maxContinuations === "number" && raw.maxContinuations >= 0
+        ? Math.floor(raw.maxContinuations)
+        : DEFAULT_MODEL_ROUTING.maxContinuations,
+  };
+};
+
+let routingConfig: ModelRoutingConfig | undefined;
+
+/**
+ * 라우팅 설정 조회 (MODEL_ROUTING_CONFIG 파일이 없으면 기본값)
+ */
+export const getModelRoutingConfig = (): ModelRoutingConfig => {
+  if (!routingConfig) {
+    const filePath = getRoutingConfigPath();
+    routingConfig = DEFAULT_MODEL_ROUTING;
+    if (fs.existsSync(filePath)) {
+      try {
+        routingConfig = normalizeModelRoutingConfig(
+          JSON.parse(fs.readFileSync(filePath, "utf-8")),
+        );
+      } catch (error) {
+        console.warn(
+          `⚠️ 모델 라우팅 설정을 읽지 못했습니다: ${filePath}`,
+          error,
+        );
+      }
+    }
+  }
+  return routingConfig;
+};
+
+/**
+ * 스텝과 재시도 횟수로 호출 설정 결정
+ * - 재시도 중인 generate는 repair 설정
+ * - retryCount가 escalateOnRetry 이상이면 승격 모델 (지정된 모델이 없으면 그대로)
+ */
+export const resolveModelRoute = (
+  step: string,
+  retryCount: number,
+  provider: LlmProvider,
+  config: ModelRoutingConfig = getModelRoutingConfig(),
+): ResolvedModelRoute => {
+  const routeStep = step === "generate" && retryCount > 0 ? "repair" : step;
+  // 라우팅 대상이 아닌 스텝은 defaults만 적용
+  const stepRoute = MODEL_ROUTE_STEPS.includes(routeStep as ModelRouteStep)
+    ? config.steps[routeStep as ModelRouteStep]
+    : undefined;
+  const route: ModelRoute = {
+    ...config.defaults,
+    ...(routeStep === "repair" && config.steps.generate),
+    ...stepRoute,
+  };
+
+  const escalationModel = route.escalationModel ?? provider.escalationModel;
+  const escalated =
+    retryCount >= config.escalateOnRetry &&
+    !!escalationModel &&
+    escalationModel !== route.model;
+  return {
+    ...route,
+    model: escalated ? escalationModel : route.model,
+    step: routeStep,
+    escalated,
+  };
+};
@@ -1,3 +1,7 @@
+import type {
+  ExecutionChangeSet,
+  RevertResult,
+} from "@/lib/figma/figma-client";
 import type { ConversationTab, Message } from "@/types/tabs";
 import Dexie, { type Table } from "dexie";
 
@@ -7,16 +11,29 @@ export interface ConversationTabDB extends Omit<ConversationTab, "messages"> {
   createdAt: Date;
   messages?: string[]; // 메시지 ID 목록
   lastFigmaContext?: any;
+  workspaceId?: string;
 }
 
 export interface MessageDB extends Message {
   tabId: string; // 어느 탭에 속하는지
 }
 
+// AI 실행 이력 (어시스턴트 메시지 단위로 되돌리기)
+export interface ExecutionRunDB {
+  id: string;
+  tabId: string;
+  messageId: string; // 실행 결과가 표시된 어시스턴트 메시지 ID
+  changeSets: ExecutionChangeSet[]; // 재시도 포함 실행 순서대로
+  createdAt: Date;
+  revertedAt?: Date;
+  revertResult?: RevertResult;
+}
+
 export class ClaudeFigmaDatabase extends Dexie {
   // 테이블 정의
   tabs!: Table<ConversationTabDB>;
   messages!: Table<MessageDB>;
+  runs!: Table<ExecutionRunDB>;
 
   constructor() {
     super("ClaudeFigmaDatabase");
@@ -25,6 +42,12 @@ export class ClaudeFigmaDatabase extends Dexie {
       tabs: "id, title, createdAt",
       messages: "++id, tabId, role, timestamp, [tabId+timestamp]",
     });
+
+    this.version(2).stores({
+      tabs: "id, title, createdAt",
+      messages: "++id, tabId, role, timestamp, [tabId+timestamp]",
+      runs: "id, tabId, messageId, createdAt",
+    });
   }
 
   // 탭 관련 메서드
@@ -50,10 +73,17 @@ export class ClaudeFigmaDatabase extends Dexie {
   }
 
   async deleteTab(id: string): Promise<void> {
-    await this.transaction("rw", this.tabs, this.messages, async () => {
-      await this.tabs.delete(id);
-      await this.messages.where("tabId").equals(id).delete();
-    });
+    await this.transaction(
+      "rw",
+      this.tabs,
+      this.messages,
+      this.runs,
+      async () => {
+        await this.tabs.delete(id);
+        await this.messages.where("tabId").equals(id).delete();
+        await this.runs.where("tabId").equals(id).delete();
+      },
+    );
   }
 
   // 메시지 관련 메서드
@@ -95,32 +125,57 @@ export class ClaudeFigmaDatabase extends Dexie {
     await this.messages.update(messageId, changes);
   }
 
+  // 실행 이력 관련 메서드
+  async addRun(run: ExecutionRunDB): Promise<string> {
+    await this.runs.add(run);
+    return run.id;
+  }
+
+  async getTabRuns(tabId: string): Promise<ExecutionRunDB[]> {
+    return await this.runs.where("tabId").equals(tabId).sortBy("createdAt");
+  }
+
+  async updateRun(
+    runId: string,
+    changes: Partial<ExecutionRunDB>,
+  ): Promise<void> {
+    await this.runs.update(runId, changes);
+  }
+
   // 데이터 정리 메서드
   async cleanupOldData(olderThanDays: number = 30): Promise<void> {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - olderThanDays);
 
-    await this.transaction("rw", this.tabs, this.messages, async () => {
-      const oldTabs = await this.tabs
-        .where("createdAt")
-        .below(cutoffDate)
-        .toArray();
-      const oldTabIds = oldTabs.map((tab) => tab.id);
-
-      for (const tabId of oldTabIds) {
-        await this.deleteTab(tabId);
-      }
-    });
+    await this.transaction(
+      "rw",
+      this.tabs,
+      this.messages,
+      this.runs,
+      async () => {
+        const oldTabs = await this.tabs
+          .where("createdAt")
+          .below(cutoffDate)
+          .toArray();
+        const oldTabIds = oldTabs.map((tab) => tab.id);
+
+        for (const tabId of oldTabIds) {
+          await this.deleteTab(tabId);
+        }
+      },
+    );
   }
 
   // 데이터 사이즈 확인
   async getDatabaseSize(): Promise<{
     tabs: number;
     messages: number;
+    runs: number;
   }> {
     return {
       tabs: await this.tabs.count(),
       messages: await this.messages.count(),
+      runs: await this.runs.count(),
     };
   }
 
@@ -1,20 +1,40 @@
 "use client";
 
+import {
+  DesignOperation,
+  ExecutionProgram,
+  OperationResult,
+} from "../types/operation-types";
+
 // Figma Plugin Communication Client
 export interface FigmaCommand {
   type:
     | "EXECUTE_CODE"
+    | "EXECUTE_OPERATIONS"
     | "GET_CONTEXT"
     | "GET_CONTEXT_DETAIL"
     | "REPORT_EXECUTION"
+    | "REVERT_RUN"
+    | "SCAN_DESIGN_SYSTEM"
     | "CREATE_NODE"
     | "EXPORT_NODES";
   requestId: string;
   code?: string; // For EXECUTE_CODE
+  operations?: DesignOperation[]; // For EXECUTE_OPERATIONS
   nodeType?: "RECTANGLE" | "TEXT" | "FRAME" | "COMPONENT";
   properties?: Record<string, any>;
   nodeIds?: string[];
   nodeId?: string;
+  depth?: number; // For GET_CONTEXT_DETAIL
+  transactional?: boolean; // For EXECUTE_CODE/OPERATIONS - 실패 시 롤백
+  recordChangeSet?: boolean; // For EXECUTE_CODE/OPERATIONS - 되돌리기용 변경 세트 반환
+  scopeNodeIds?: string[]; // For EXECUTE_CODE/OPERATIONS - 삭제/이동이 허용되는 노드 범위
+  dryRun?: boolean; // For EXECUTE_CODE/OPERATIONS - scratch 페이지 복제본에서 미리보기만 실행
+  changeSet?: ExecutionChangeSet; // For REVERT_RUN
+  tokenSources?: TokenSource[]; // For EXECUTE_CODE/OPERATIONS - tokens 런타임 변수 컬렉션
+  fontRequirements?: FontRequirements; // For EXECUTE_CODE/OPERATIONS - 미리 로드할 폰트
+  contextOptions?: ContextSerializeOptions; // For GET_CONTEXT - 선택 노드 트리 예산
+  imageOptions?: ContextImageOptions; // For GET_CONTEXT - 스크린샷 형식/배율/crop
 }
 
 export interface FigmaResponse {
@@ -26,6 +46,9 @@ export interface FigmaResponse {
     | "NODE_CREATED"
     | "NODES_EXPORTED"
     | "EXECUTION_REPORT"
+    | "RUN_REVERTED"
+    | "DRY_RUN_RESULT"
+    | "DESIGN_SYSTEM_SCANNED"
     | "ERROR";
   requestId: string;
   success: boolean;
@@ -40,21 +63,154 @@ export interface CodeExecutionError {
   errorMessage: string;
   errorStack: string;
   createdNodeIds: string[];
+  errorType?: "POLICY_VIOLATION" | "RUNTIME";
+  policyViolations?: SandboxViolation[];
+  rollback?: ExecutionRollback;
+  changeSet?: ExecutionChangeSet;
+}
+
+export interface ScannedComponentProperty {
+  type: "BOOLEAN" | "TEXT" | "INSTANCE_SWAP" | "VARIANT";
+  defaultValue: string | boolean;
+  values: string[] | null;
+}
+
+export interface ScannedComponentSlot {
+  name: string;
+  propertyName: string;
+  preferredComponentKeys: string[];
+}
+
+export interface ScannedComponent {
+  key: string;
+  name: string;
+  type: "COMPONENT" | "COMPONENT_SET";
+  description: string;
+  remote: boolean;
+  properties: Record<string, ScannedComponentProperty>;
+  slots: ScannedComponentSlot[];
+}
+
+export interface CatalogStyle {
+  id: string;
+  key: string;
+  name: string;
+  description: string;
+  remote: boolean;
+  fontName?: { family: string; style: string };
+  fontSize?: number;
+}
+
+export interface CatalogVariable {
+  key: string;
+  name: string;
+  resolvedType: "BOOLEAN" | "COLOR" | "FLOAT" | "STRING";
+}
+
+export interface CatalogVariableCollection {
+  key: string;
+  name: string;
+  libraryName?: string;
+  remote: boolean;
+  // 라이브러리 컬렉션은 비어 있음 (플러그인이 스캔 시 변수를 import하지 않음)
+  modes: Array<{ modeId: string; name: string }>;
+  defaultModeId?: string;
+  variables: CatalogVariable[];
+}
+
+export interface DesignSystemCatalog {
+  // 비공개 플러그인이 아니면 "name:<파일 이름>"
+  fileKey: string;
+  fileName: string;
+  scannedAt: number;
+  components: ScannedComponent[];
+  styles: {
+    paint: CatalogStyle[];
+    text: CatalogStyle[];
+    effect: CatalogStyle[];
+  };
+  variableCollections: CatalogVariableCollection[];
+}
+
+// GET_CONTEXT 선택 노드 트리 (기본값인 필드는 생략)
+export interface ContextNode {
+  id: string;
+  name: string;
+  type: string;
+  // 숨김 노드만 false로 표기
+  visible?: boolean;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
+  componentName?: string;
+  componentKey?: string;
+  componentProperties?: Record<string, string | boolean>;
+  layout?: Record<string, string | number>;
+  text?: {
+    characters: string;
+    // maxTextLength를 넘어 잘린 경우
+    truncated?: boolean;
+    fontSize?: number;
+    fontName?: { family: string; style: string };
+  };
+  // 적용된 스타일 이름
+  styles?: {
+    fill?: string;
+    stroke?: string;
+    effect?: string;
+    text?: string;
+  };
+  // 필드 → 바인딩된 변수 이름
+  variables?: Record<string, string>;
+  // 같은 컴포넌트/variant라 생략한 형제 인스턴스 ID
+  repeatedNodeIds?: string[];
+  // depth/노드 예산 초과로 생략한 자식 수
+  omittedChildren?: number;
+  children?: ContextNode[];
+}
+
+export interface ContextSerializeOptions {
+  // 선택 노드 아래로 펼칠 깊이 (0: 선택 노드만, 기본 4)
+  maxDepth?: number;
+  // 직렬화할 전체 노드 수 (가까운 깊이부터 채움, 기본 150)
+  maxNodes?: number;
+  maxTextLength?: number;
+}
+
+export interface ContextImageOptions {
+  format?: "JPG" | "PNG";
+  // 요청 배율 (maxPixelSize를 넘지 않도록 줄어들 수 있음, 기본 1)
+  scale?: number;
+  // 긴 변의 최대 픽셀 수 (기본 1600)
+  maxPixelSize?: number;
+  // 루트 프레임 외에 선택 노드별 crop도 포함 (기본 true)
+  includeCrops?: boolean;
+  // 이미 받은 이미지 cacheKey (플러그인이 다시 export하지 않음)
+  cachedImageKeys?: string[];
+}
+
+export interface ContextImage {
+  nodeId: string;
+  nodeName: string;
+  kind: "root" | "crop";
+  format: "JPG" | "PNG";
+  scale: number;
+  width: number;
+  height: number;
+  // 노드(하위 포함)가 바뀔 때마다 달라지는 버전
+  version: string;
+  // 서버 이미지 캐시 키 (노드 ID + 버전 + 형식/배율)
+  cacheKey: string;
+  // 플러그인이 CONTEXT_IMAGE_CHUNK로 나눠 보낸 청크 수
+  chunkCount?: number;
+  // base64 (서버 캐시에 올린 뒤에는 생략하고 cacheKey로 참조)
+  nodeImage?: string;
 }
 
 export interface FigmaContext {
-  selectedNodes: Array<{
-    id: string;
-    name: string;
-    type: string;
-    componentName?: string;
-    children?: FigmaContext[];
-  }>;
-  selectedNodesImage: Array<{
-    nodeId: string;
-    nodeName: string;
-    nodeImage: number[] | string; // 전송시 number[] array, 변환 후 base64 string
-  }>;
+  selectedNodes: ContextNode[];
+  selectedNodesImage: ContextImage[];
 }
 
 export interface NodeSummary {
@@ -134,8 +290,145 @@ export interface ExecutionReport {
   createdNodeIds: string[];
   message?: string;
   error?: string;
+  rollback?: ExecutionRollback;
+  policyViolations?: SandboxViolation[];
+  unresolvedTokens?: UnresolvedToken[];
+  // EXECUTE_OPERATIONS 실행 시 operation별 결과
+  operationResults?: OperationResult[];
+  // 문서에 없는 폰트를 대체한 내역
+  fontSubstitutions?: FontSubstitution[];
+}
+
+// 토큰 접두사(예: "space/")별로 먼저 검색할 라이브러리 변수 컬렉션
+export interface TokenSource {
+  prefix: string;
+  collectionKey: string;
+}
+
+// tokens 런타임이 변수로 바인딩하지 못한 토큰
+export interface UnresolvedToken {
+  token: string;
+  nodeId: string | null;
+  nodeName: string | null;
+  field: string;
+  reason: "not_found" | "type_mismatch" | "unsupported_field" | "bind_failed";
+  message?: string;
+}
+
+export interface FontName {
+  family: string;
+  style: string;
+}
+
+// 실행 전에 미리 로드할 폰트 (대상 노드/생성 코드의 폰트는 플러그인이 직접 수집)
+export interface FontRequirements {
+  fonts?: FontName[];
+  // TodoDesign.styles.textStyleKey 등 실행 중 import할 텍스트 스타일
+  textStyleKeys?: string[];
+  // 사용할 수 없는 폰트 대신 사용할 폰트
+  fallbackFont?: FontName;
+}
+
+// same_family: 같은 패밀리의 표기만 다른 스타일 (예: "SemiBold" ↔ "Semi Bold")
+export interface FontSubstitution {
+  requested: FontName;
+  substitute: FontName;
+  reason: "same_family" | "fallback";
+}
+
+// 플러그인 실행 샌드박스 정책 위반
+export interface SandboxViolation {
+  policy:
+    | "blocked_api"
+    | "out_of_scope"
+    | "node_budget"
+    | "timeout"
+    | "network";
+  message: string;
+}
+
+export interface DryRunNodeDiff {
+  nodeId: string;
+  name: string;
+  changes: Array<{ field: string; before: any; after: any }>;
+}
+
+export interface DryRunPreview {
+  rootFrameIds: string[];
+  images: Array<{
+    nodeId: string;
+    nodeName: string;
+    image: number[] | string; // 전송시 number[] array, 변환 후 object URL
+  }>;
+  report: ExecutionReport; // 원본 노드 ID 기준
+  diff: DryRunNodeDiff[];
+  error?: string;
+}
+
+export interface ExecutionRollback {
+  removedNodeIds: string[];
+  restoredNodeIds: string[];
+  failedNodeIds: string[];
 }
 
+export interface NodeSnapshot {
+  id: string;
+  type: string;
+  parentId: string | null;
+  index: number;
+  width: number;
+  height: number;
+  properties: Record<string, any>;
+  mainComponentId?: string;
+  mainComponentKey?: string;
+  componentProperties?: Record<string, string | boolean>;
+}
+
+// 한 번의 실행으로 생긴 변경 (되돌리기용)
+export interface ExecutionChangeSet {
+  createdNodes: NodeSnapshot[];
+  updatedNodes: Array<{ before: NodeSnapshot; after: NodeSnapshot }>;
+  deletedNodes: NodeSnapshot[];
+  untrackedNodeIds: string[];
+}
+
+export interface RevertConflict {
+  nodeId: string;
+  name?: string;
+  reason: "missing" | "modified";
+}
+
+export interface RevertResult {
+  removedNodeIds: string[];
+  restoredNodeIds: string[];
+  recreatedNodeIds: string[];
+  failedNodeIds: string[];
+  conflicts: RevertConflict[];
+}
+
+// 웹에 보관할 컨텍스트 이미지 수 (오래된 이미지부터 제거)
+const MAX_CACHED_CONTEXT_IMAGES = 30;
+
+// 미리보기 요청 제한 시간 (플러그인 샌드박스 실행 20초 + 복제/export)
+const PREVIEW_TIMEOUT_MS = 90_000;
+
+// 큰 이미지에서 String.fromCharCode(...bytes)가 인자 수 제한을 넘지 않도록 나눠 변환
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = "";
+  for (let offset = 0; offset < bytes.length; offset += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// 생성 코드는 EXECUTE_CODE, operation 목록은 EXECUTE_OPERATIONS로 전송
+const toExecutionCommand = (
+  program: ExecutionProgram,
+): Pick<FigmaCommand, "type" | "code" | "operations"> =>
+  typeof program === "string"
+    ? { type: "EXECUTE_CODE", code: program }
+    : { type: "EXECUTE_OPERATIONS", operations: program };
+
 export class FigmaClient {
   private pendingRequests = new Map<
     string,
@@ -152,6 +445,10 @@ export class FigmaClient {
   >();
 
   private nodeDetailCache = new Map<string, NodeDetail>();
+  // "requestId:cacheKey" → 수신 중인 CONTEXT_IMAGE_CHUNK
+  private imageChunks = new Map<string, Uint8Array[]>();
+  // cacheKey → base64 (같은 버전은 플러그인이 다시 export하지 않음)
+  private contextImages = new Map<string, string>();
   private lastExecutionReport: ExecutionReport | null = null;
 
   constructor() {
@@ -182,6 +479,17 @@ export class FigmaClient {
             return;
           }
 
+          // GET_CONTEXT 이미지 청크는 CONTEXT 응답 전에 도착
+          if (type === "CONTEXT_IMAGE_CHUNK") {
+            const { cacheKey, index, bytes } = event.data.pluginMessage;
+            if (!this.pendingRequests.has(requestId)) return;
+            const key = `${requestId}:${cacheKey}`;
+            const chunks = this.imageChunks.get(key) ?? [];
+            chunks[index] = new Uint8Array(bytes);
+            this.imageChunks.set(key, chunks);
+            return;
+          }
+
           // GET_CONTEXT 응답 처리
           if (type === "CONTEXT" && requestId) {
             this.handlePluginResponse({
@@ -208,11 +516,48 @@ export class FigmaClient {
     }
   }
 
-  // Array를 base64로 변환하는 유틸리티 함수
-  private arrayToBase64(array: number[]): string {
-    const uint8Array = new Uint8Array(array);
-    const binary = String.fromCharCode(...uint8Array);
-    return btoa(binary);
+  // 청크를 합쳐 base64로 변환하고, 전송이 생략된 이미지는 캐시에서 채움
+  private resolveContextImages(
+    requestId: string,
+    images: ContextImage[],
+  ): ContextImage[] {
+    const resolved = images.flatMap((image): ContextImage[] => {
+      const key = `${requestId}:${image.cacheKey}`;
+      const chunks = this.imageChunks.get(key);
+      this.imageChunks.delete(key);
+
+      if (image.chunkCount) {
+        if (!chunks || chunks.filter(Boolean).length !== image.chunkCount) {
+          console.warn("⚠️ [FigmaClient] Incomplete image:", image.cacheKey);
+          return [];
+        }
+        const bytes = new Uint8Array(
+          chunks.reduce((total, chunk) => total + chunk.length, 0),
+        );
+        let offset = 0;
+        chunks.forEach((chunk) => {
+          bytes.set(chunk, offset);
+          offset += chunk.length;
+        });
+        this.contextImages.delete(image.cacheKey);
+        this.contextImages.set(image.cacheKey, bytesToBase64(bytes));
+      }
+
+      const nodeImage = this.contextImages.get(image.cacheKey);
+      if (!nodeImage) {
+        console.warn("⚠️ [FigmaClient] Missing cached image:", image.cacheKey);
+        return [];
+      }
+      return [{ ...image, nodeImage }];
+    });
+
+    // Map은 삽입 순서를 유지하므로 앞쪽이 가장 오래된 이미지
+    const overflow = this.contextImages.size - MAX_CACHED_CONTEXT_IMAGES;
+    [...this.contextImages.keys()]
+      .slice(0, Math.max(overflow, 0))
+      .forEach((cacheKey) => this.contextImages.delete(cacheKey));
+
+    return resolved;
   }
 
   private handlePluginResponse(response: FigmaResponse) {
@@ -228,13 +573,11 @@ export class FigmaClient {
     clearTimeout(request.timeout);
     this.pendingRequests.delete(response.requestId);
 
-    // GET_CONTEXT 응답에서 이미지 배열을 base64로 변환
+    // GET_CONTEXT 응답의 이미지 메타데이터에 base64 연결
     if (response.type === "CONTEXT" && response.data?.selectedNodesImage) {
-      response.data.selectedNodesImage = response.data.selectedNodesImage.map(
-        (img: any) => ({
-          ...img,
-          nodeImage: this.arrayToBase64(img.nodeImage),
-        }),
+      response.data.selectedNodesImage = this.resolveContextImages(
+        response.requestId,
+        response.data.selectedNodesImage,
       );
       console.log(
         "🖼️ [FigmaClient] Images converted to base64:",
@@ -242,6 +585,16 @@ export class FigmaClient {
       );
     }
 
+    // 미리보기 PNG는 크기가 커서 base64 대신 object URL로 변환
+    if (response.type === "DRY_RUN_RESULT" && response.data?.images) {
+      response.data.images = response.data.images.map((img: any) => ({
+        ...img,
+        image: URL.createObjectURL(
+          new Blob([new Uint8Array(img.image)], { type: "image/png" }),
+        ),
+      }));
+    }
+
     if (response.success) {
       console.log(
         "✅ [FigmaClient] Response success:",
@@ -269,6 +622,15 @@ export class FigmaClient {
       codeError.errorMessage = response.data?.errorMessage;
       codeError.errorStack = response.data?.errorStack;
       codeError.createdNodeIds = response.data?.createdNodeIds || [];
+      codeError.errorType = response.data?.errorType;
+      codeError.policyViolations =
+        response.data?.executionReport?.policyViolations;
+      codeError.rollback = response.data?.executionReport?.rollback;
+      codeError.changeSet = response.data?.changeSet;
+      if (response.data?.executionReport) {
+        this.lastExecutionReport = response.data
+          .executionReport as ExecutionReport;
+      }
       request.reject(codeError);
     } else {
       request.reject(new Error(response.error || "Plugin execution failed"));
@@ -289,6 +651,9 @@ export class FigmaClient {
 
       const timeout = setTimeout(() => {
         this.pendingRequests.delete(command.requestId);
+        [...this.imageChunks.keys()]
+          .filter((key) => key.startsWith(`${command.requestId}:`))
+          .forEach((key) => this.imageChunks.delete(key));
         reject(new Error("Figma Plugin request timeout"));
       }, timeoutMs) as unknown as NodeJS.Timeout;
 
@@ -316,11 +681,22 @@ export class FigmaClient {
 
   // Public API Methods
 
-  async executeCode(code: string): Promise<{
+  async executeCode(
+    program: ExecutionProgram,
+    options: {
+      transactional?: boolean;
+      recordChangeSet?: boolean;
+      snapshotNodeIds?: string[];
+      scopeNodeIds?: string[];
+      tokenSources?: TokenSource[];
+      fontRequirements?: FontRequirements;
+    } = {},
+  ): Promise<{
     success: boolean;
     createdNodeIds: string[];
     executionTime: number;
     executionReport: ExecutionReport | null;
+    changeSet?: ExecutionChangeSet;
     error?: string;
     executionLog?: any;
   }> {
@@ -330,10 +706,16 @@ export class FigmaClient {
         executionTime?: number;
         executionLog?: any;
         executionReport?: ExecutionReport;
+        changeSet?: ExecutionChangeSet;
       }>({
-        type: "EXECUTE_CODE",
+        ...toExecutionCommand(program),
         requestId: `exec-${Date.now()}`,
-        code,
+        transactional: options.transactional,
+        recordChangeSet: options.recordChangeSet,
+        scopeNodeIds: options.scopeNodeIds,
+        nodeIds: options.snapshotNodeIds,
+        tokenSources: options.tokenSources,
+        fontRequirements: options.fontRequirements,
       });
 
       if (response.executionReport) {
@@ -350,6 +732,7 @@ export class FigmaClient {
           response.executionTime || response.executionReport?.durationMs || 0,
         executionLog: response.executionLog, // 실행 로그 포함
         executionReport: this.lastExecutionReport,
+        changeSet: response.changeSet,
       };
     } catch (error: any) {
       // CODE_EXECUTION_ERROR는 ChatInterface에서 처리하도록 다시 throw
@@ -368,11 +751,40 @@ export class FigmaClient {
     }
   }
 
-  async getContext(): Promise<FigmaContext | null> {
+  async previewCode(
+    program: ExecutionProgram,
+    options: {
+      scopeNodeIds?: string[];
+      tokenSources?: TokenSource[];
+      fontRequirements?: FontRequirements;
+    } = {},
+  ): Promise<DryRunPreview> {
+    return this.sendCommand<DryRunPreview>(
+      {
+        ...toExecutionCommand(program),
+        requestId: `preview-${Date.now()}`,
+        dryRun: true,
+        scopeNodeIds: options.scopeNodeIds,
+        tokenSources: options.tokenSources,
+        fontRequirements: options.fontRequirements,
+      },
+      PREVIEW_TIMEOUT_MS,
+    );
+  }
+
+  async getContext(
+    contextOptions?: ContextSerializeOptions,
+    imageOptions: ContextImageOptions = {},
+  ): Promise<FigmaContext | null> {
     try {
       const contextData = await this.sendCommand<FigmaContext>({
         type: "GET_CONTEXT",
         requestId: `context-${Date.now()}`,
+        contextOptions,
+        imageOptions: {
+          ...imageOptions,
+          cachedImageKeys: [...this.contextImages.keys()],
+        },
       });
 
       console.log("📡 [FigmaClient] Context received:", contextData);
@@ -385,7 +797,7 @@ export class FigmaClient {
 
   async getNodeDetail(
     nodeId: string,
-    options: { forceRefresh?: boolean } = {},
+    options: { forceRefresh?: boolean; depth?: number } = {},
   ): Promise<NodeDetail | null> {
     if (!options.forceRefresh && this.nodeDetailCache.has(nodeId)) {
       return this.nodeDetailCache.get(nodeId) || null;
@@ -396,6 +808,7 @@ export class FigmaClient {
         type: "GET_CONTEXT_DETAIL",
         requestId: `detail-${nodeId}-${Date.now()}`,
         nodeId,
+        depth: options.depth,
       });
 
       if (detail?.id) {
@@ -431,6 +844,26 @@ export class FigmaClient {
     }
   }
 
+  async revertRun(changeSet: ExecutionChangeSet): Promise<RevertResult> {
+    const result = await this.sendCommand<RevertResult>({
+      type: "REVERT_RUN",
+      requestId: `revert-${Date.now()}`,
+      changeSet,
+    });
+
+    // 되돌린 노드의 캐시된 상세 정보는 더 이상 유효하지 않음
+    this.nodeDetailCache.clear();
+    return result;
+  }
+
+  // 컴포넌트/스타일/변수 컬렉션 카탈로그 (파일별로 서버에 캐시)
+  async scanDesignSystem(): Promise<DesignSystemCatalog> {
+    return this.sendCommand<DesignSystemCatalog>({
+      type: "SCAN_DESIGN_SYSTEM",
+      requestId: `scan-design-system-${Date.now()}`,
+    });
+  }
+
   async createNode(
     nodeType: FigmaCommand["nodeType"],
     properties: Record<string, any>,
@@ -513,6 +946,8 @@ export class FigmaClient {
     this.selectionChangeListeners.clear();
 
     this.nodeDetailCache.clear();
+    this.imageChunks.clear();
+    this.contextImages.clear();
     this.lastExecutionReport = null;
   }
 }
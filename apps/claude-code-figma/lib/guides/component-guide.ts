@@ -1,26 +1,128 @@
+import {
+  ComponentConfig,
+  findDesignSystemComponent,
+  getDesignSystemRevision,
+} from "./design-system-registry";
 
-interface ComponentPropertyConfig {
-  values?: string[] | null;
-}
+const cache = new Map<string, string>();
+let cacheRevision = -1;
 
-interface ComponentConfig {
-  key: string;
-  properties?: Record<string, ComponentPropertyConfig | null> | null;
-}
+const formatValue = (value: unknown) =>
+  typeof value === "string" ? `"${value}"` : String(value);
 
+const buildPropertyLines = (component: ComponentConfig): string[] => {
+  const lines: string[] = [];
+  Object.entries(component.properties ?? {}).forEach(([name, property]) => {
+    if (!property) {
+      lines.push(`- ${name}`);
+      return;
+    }
+    const type = property.type ?? (property.values ? "VARIANT" : undefined);
+    let line = `- ${name}${type ? ` (${type})` : ""}`;
+    if (property.values && property.values.length > 0) {
+      line += `: ${property.values.map(formatValue).join(" | ")}`;
+    }
+    if (property.defaultValue !== undefined && property.defaultValue !== null) {
+      line += ` (기본값: ${formatValue(property.defaultValue)})`;
+    }
+    if (property.description) {
+      line += ` — ${property.description}`;
+    }
+    lines.push(line);
+  });
+  return lines;
+};
 
-const cache = new Map<string, string>();
+const buildExample = (component: ComponentConfig): string => {
+  const variantEntries = Object.entries(component.properties ?? {})
+    .filter(
+      ([, property]) =>
+        property?.type === "VARIANT" || (!property?.type && property?.values),
+    )
+    .map(([name, property]) => [
+      name,
+      property?.defaultValue ?? property?.values?.[0],
+    ])
+    .filter(([, value]) => value !== undefined && value !== null);
+
+  const importLine =
+    component.type === "COMPONENT_SET"
+      ? `const componentSet = await figma.importComponentSetByKeyAsync("${component.key}");\nconst instance = componentSet.defaultVariant.createInstance();`
+      : `const component = await figma.importComponentByKeyAsync("${component.key}");\nconst instance = component.createInstance();`;
+
+  return variantEntries.length > 0
+    ? `${importLine}\ninstance.setProperties(${JSON.stringify(Object.fromEntries(variantEntries))});`
+    : importLine;
+};
+
+/**
+ * 디자인 시스템 레지스트리 정의로 생성 프롬프트용 컴포넌트 가이드 작성
+ */
+const buildComponentGuide = (component: ComponentConfig): string => {
+  const sections = [
+    `### ${component.name}`,
+    `key: ${component.key}${component.type ? ` (${component.type})` : ""}`,
+  ];
 
+  if (component.description) {
+    sections.push(`설명: ${component.description}`);
+  }
+
+  const propertyLines = buildPropertyLines(component);
+  if (propertyLines.length > 0) {
+    sections.push(
+      `프로퍼티 (setProperties에는 아래 이름과 값만 사용):\n${propertyLines.join("\n")}`,
+    );
+  }
+
+  if (component.slots && component.slots.length > 0) {
+    sections.push(
+      `슬롯 구조:\n${component.slots
+        .map((slot) => {
+          let line = `- ${slot.name}`;
+          if (slot.propertyName) line += ` (프로퍼티: ${slot.propertyName})`;
+          if (slot.description) line += ` — ${slot.description}`;
+          if (slot.allowedComponents && slot.allowedComponents.length > 0) {
+            line += `\n  허용 컴포넌트: ${slot.allowedComponents.join(", ")}`;
+          }
+          return line;
+        })
+        .join("\n")}`,
+    );
+  }
+
+  if (component.usage && component.usage.length > 0) {
+    sections.push(
+      `사용 가이드:\n${component.usage.map((note) => `- ${note}`).join("\n")}`,
+    );
+  }
+
+  sections.push(`사용 예시:\n${buildExample(component)}`);
+
+  return sections.join("\n");
+};
 
 export const getComponentGuide = (componentName: string): string | null => {
+  // 레지스트리가 갱신되면 캐시된 가이드도 다시 생성
+  const revision = getDesignSystemRevision();
+  if (revision !== cacheRevision) {
+    cache.clear();
+    cacheRevision = revision;
+  }
+
   const cached = cache.get(componentName);
   if (cached) {
     return cached;
   }
 
-  
+  const component = findDesignSystemComponent(componentName);
+  if (!component) {
+    return null;
+  }
 
-  return null;
+  const guide = buildComponentGuide(component);
+  cache.set(componentName, guide);
+  return guide;
 };
 
 export const getComponentGuides = (
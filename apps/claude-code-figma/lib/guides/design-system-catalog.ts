@@ -0,0 +1,106 @@
+import { DesignSystemCatalog } from "../figma/figma-client";
+import { registerScannedComponents } from "./design-system-registry";
+
+// 프롬프트 요약에 포함할 항목 수 (카탈로그 전체는 토큰을 과도하게 사용)
+const MAX_SUMMARY_COMPONENTS = 40;
+const MAX_SUMMARY_STYLES = 30;
+const MAX_SUMMARY_VARIABLES = 20;
+
+// Figma 파일별 최신 SCAN_DESIGN_SYSTEM 결과
+const catalogs = new Map<string, DesignSystemCatalog>();
+
+/**
+ * 스캔한 카탈로그를 파일 단위로 캐시하고 컴포넌트를 레지스트리에 등록
+ */
+export const cacheDesignSystemCatalog = (catalog: DesignSystemCatalog) => {
+  catalogs.set(catalog.fileKey, {
+    ...catalog,
+    styles: {
+      paint: catalog.styles?.paint ?? [],
+      text: catalog.styles?.text ?? [],
+      effect: catalog.styles?.effect ?? [],
+    },
+    variableCollections: catalog.variableCollections ?? [],
+  });
+  registerScannedComponents(catalog.components);
+};
+
+export const getDesignSystemCatalog = (
+  fileKey?: string | null,
+): DesignSystemCatalog | null =>
+  fileKey ? (catalogs.get(fileKey) ?? null) : null;
+
+const truncateList = <T>(items: T[], max: number) => ({
+  items: items.slice(0, max),
+  omitted: Math.max(items.length - max, 0),
+});
+
+const formatOmitted = (omitted: number) =>
+  omitted > 0 ? `\n- ... 외 ${omitted}개` : "";
+
+/**
+ * Planning/Generation 프롬프트용 카탈로그 요약
+ */
+export const summarizeDesignSystemCatalog = (
+  catalog: DesignSystemCatalog,
+): string => {
+  const sections: string[] = [
+    `=== 디자인 시스템 카탈로그 (${catalog.fileName}) ===`,
+  ];
+
+  const components = truncateList(catalog.components, MAX_SUMMARY_COMPONENTS);
+  if (components.items.length > 0) {
+    const lines = components.items.map((component) => {
+      const variants = Object.entries(component.properties)
+        .filter(([, property]) => property.type === "VARIANT")
+        .map(
+          ([name, property]) => `${name}=${(property.values ?? []).join("|")}`,
+        );
+      return `- ${component.name} [${component.type}] key=${component.key}${
+        variants.length > 0 ? ` (${variants.join(", ")})` : ""
+      }`;
+    });
+    sections.push(
+      `컴포넌트:\n${lines.join("\n")}${formatOmitted(components.omitted)}`,
+    );
+  }
+
+  const styleGroups = [
+    ["텍스트 스타일", catalog.styles.text],
+    ["페인트 스타일", catalog.styles.paint],
+    ["이펙트 스타일", catalog.styles.effect],
+  ] as const;
+  styleGroups.forEach(([title, styles]) => {
+    const { items, omitted } = truncateList([...styles], MAX_SUMMARY_STYLES);
+    if (items.length === 0) return;
+    const lines = items.map((style) => {
+      const font =
+        style.fontName && style.fontSize
+          ? ` (${style.fontName.family} ${style.fontName.style} ${style.fontSize})`
+          : "";
+      return `- ${style.name} key=${style.key}${font}`;
+    });
+    sections.push(`${title}:\n${lines.join("\n")}${formatOmitted(omitted)}`);
+  });
+
+  if (catalog.variableCollections.length > 0) {
+    const lines = catalog.variableCollections.map((collection) => {
+      const { items, omitted } = truncateList(
+        collection.variables,
+        MAX_SUMMARY_VARIABLES,
+      );
+      const modes = collection.modes.map((mode) => mode.name).join(", ");
+      const variables = items
+        .map((variable) => `${variable.name}(${variable.resolvedType})`)
+        .join(", ");
+      return `- ${collection.name}${
+        collection.libraryName ? ` @${collection.libraryName}` : ""
+      } key=${collection.key}${modes ? ` modes=[${modes}]` : ""}\n  변수: ${
+        variables || "(없음)"
+      }${omitted > 0 ? ` ... 외 ${omitted}개` : ""}`;
+    });
+    sections.push(`변수 컬렉션:\n${lines.join("\n")}`);
+  }
+
+  return sections.join("\n\n");
+};
@@ -0,0 +1,179 @@
+import fs from "fs";
+import path from "path";
+
+import { ScannedComponent } from "../figma/figma-client";
+
+export type ComponentPropertyType =
+  | "VARIANT"
+  | "BOOLEAN"
+  | "TEXT"
+  | "INSTANCE_SWAP";
+
+export interface ComponentPropertyConfig {
+  type?: ComponentPropertyType;
+  values?: string[] | null;
+  defaultValue?: string | boolean | null;
+  description?: string;
+}
+
+export interface ComponentSlotConfig {
+  name: string;
+  // INSTANCE_SWAP 프로퍼티 이름 (예: "Icon#12:3")
+  propertyName?: string;
+  description?: string;
+  allowedComponents?: string[];
+}
+
+export interface ComponentConfig {
+  key: string;
+  name: string;
+  type?: "COMPONENT" | "COMPONENT_SET";
+  description?: string;
+  aliases?: string[];
+  properties?: Record<string, ComponentPropertyConfig | null> | null;
+  slots?: ComponentSlotConfig[];
+  usage?: string[];
+  source?: "file" | "scan";
+}
+
+// JSON 정의 파일 위치 (*.example.json은 형식 예시라 로드하지 않음)
+const getDesignSystemDirectory = () =>
+  path.resolve(
+    process.cwd(),
+    process.env.DESIGN_SYSTEM_DIR || "design-system/components",
+  );
+
+const normalizeName = (name: string) => name.trim().toLowerCase();
+
+// 파일 정의 → 스캔 결과 순으로 병합 (파일의 usage/slot 설명을 스캔이 덮어쓰지 않음)
+const fileComponents = new Map<string, ComponentConfig>();
+const scannedComponents = new Map<string, ComponentConfig>();
+let filesLoaded = false;
+let revision = 0;
+
+const readComponentFile = (filePath: string): ComponentConfig[] => {
+  try {
+    const content = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+    const components: unknown[] = Array.isArray(content)
+      ? content
+      : Array.isArray(content?.components)
+        ? content.components
+        : [content];
+    return components.filter(
+      (component): component is ComponentConfig =>
+        typeof (component as ComponentConfig)?.key === "string" &&
+        typeof (component as ComponentConfig)?.name === "string",
+    );
+  } catch (error) {
+    console.warn(`⚠️ 디자인 시스템 정의를 읽지 못했습니다: ${filePath}`, error);
+    return [];
+  }
+};
+
+/**
+ * 저장소의 JSON 정의 파일을 다시 읽음
+ */
+export const loadDesignSystemFiles = () => {
+  fileComponents.clear();
+  const directory = getDesignSystemDirectory();
+  if (fs.existsSync(directory)) {
+    fs.readdirSync(directory)
+      .filter(
+        (file) => file.endsWith(".json") && !file.endsWith(".example.json"),
+      )
+      .sort()
+      .forEach((file) => {
+        readComponentFile(path.join(directory, file)).forEach((component) => {
+          fileComponents.set(component.key, { ...component, source: "file" });
+        });
+      });
+  }
+  filesLoaded = true;
+  revision += 1;
+};
+
+const ensureFilesLoaded = () => {
+  if (!filesLoaded) {
+    loadDesignSystemFiles();
+  }
+};
+
+const fromScannedComponent = (
+  component: ScannedComponent,
+): ComponentConfig => ({
+  key: component.key,
+  name: component.name,
+  type: component.type,
+  description: component.description || undefined,
+  properties: Object.fromEntries(
+    Object.entries(component.properties).map(([name, property]) => [
+      name,
+      {
+        type: property.type,
+        values: property.values,
+        defaultValue: property.defaultValue,
+      },
+    ]),
+  ),
+  slots: component.slots.map((slot) => ({
+    name: slot.name,
+    propertyName: slot.propertyName,
+    allowedComponents: slot.preferredComponentKeys,
+  })),
+  source: "scan",
+});
+
+/**
+ * 플러그인 스캔 결과 등록 (같은 key는 최신 스캔으로 교체)
+ */
+export const registerScannedComponents = (components: ScannedComponent[]) => {
+  components.forEach((component) => {
+    scannedComponents.set(component.key, fromScannedComponent(component));
+  });
+  revision += 1;
+};
+
+const mergeComponent = (
+  fileComponent?: ComponentConfig,
+  scannedComponent?: ComponentConfig,
+): ComponentConfig =>
+  ({
+    ...scannedComponent,
+    ...fileComponent,
+    properties: {
+      ...(scannedComponent?.properties ?? {}),
+      ...(fileComponent?.properties ?? {}),
+    },
+    slots: fileComponent?.slots ?? scannedComponent?.slots,
+  }) as ComponentConfig;
+
+export const listDesignSystemComponents = (): ComponentConfig[] => {
+  ensureFilesLoaded();
+  const keys = new Set([...fileComponents.keys(), ...scannedComponents.keys()]);
+  return [...keys].map((key) =>
+    mergeComponent(fileComponents.get(key), scannedComponents.get(key)),
+  );
+};
+
+/**
+ * 이름(대소문자 무시), 별칭 또는 key로 컴포넌트 정의 조회
+ */
+export const findDesignSystemComponent = (
+  nameOrKey: string,
+): ComponentConfig | null => {
+  const normalized = normalizeName(nameOrKey);
+  return (
+    listDesignSystemComponents().find(
+      (component) =>
+        component.key === nameOrKey ||
+        normalizeName(component.name) === normalized ||
+        component.aliases?.some((alias) => normalizeName(alias) === normalized),
+    ) ?? null
+  );
+};
+
+// 가이드 캐시 무효화용 (파일 재로드/스캔 등록 시 증가)
+export const getDesignSystemRevision = () => {
+  ensureFilesLoaded();
+  return revision;
+};
@@ -0,0 +1,52 @@
+import { FigmaCodeWorkflowState } from "../types/workflow-types";
+import { formatContextTree } from "./planning-prompt";
+
+// 프롬프트에 포함할 최근 대화 수와 메시지별 최대 길이
+const MAX_HISTORY_MESSAGES = 10;
+const MAX_HISTORY_LENGTH = 500;
+
+const formatConversationHistory = (state: FigmaCodeWorkflowState) =>
+  (state.conversationHistory ?? [])
+    .slice(-MAX_HISTORY_MESSAGES)
+    .map(({ role, content }) => {
+      const text =
+        content.length > MAX_HISTORY_LENGTH
+          ? `${content.slice(0, MAX_HISTORY_LENGTH)}…`
+          : content;
+      return `[${role === "user" ? "사용자" : "AI"}] ${text}`;
+    })
+    .join("\n");
+
+/**
+ * 블루프린트 시스템 프롬프트 (선택 노드 구조와 최근 대화 포함, 스크린샷은 메시지로 전달)
+ */
+export const createBlueprintPrompt = (state: FigmaCodeWorkflowState) => {
+  let prompt = `=== 제품 블루프린트 설계 ===
+당신은 시니어 프로덕트 디자이너입니다. 사용자 요청과 선택된 화면(스크린샷 포함)을 바탕으로
+Planning 단계가 실제 콘텐츠와 상태를 설계할 수 있도록 화면, 사용자 플로우, 데이터 계약을 정의하세요.
+
+규칙:
+- screens: 요청을 완성하는 데 필요한 화면. 선택 노드를 고치면 "existing"/"modified", 새로 만들면 "new"
+- relatedNodeIds에는 아래 선택된 노드 구조에 있는 ID만 사용 (신규 화면은 빈 배열)
+- flows: 사용자가 목표를 달성하는 단계별 여정. 빈 상태, 로딩, 오류 같은 상태 전환도 단계로 표현
+- primaryScreenIds에는 screens의 id만 사용
+- dataContracts: 화면에 표시하거나 입력받는 데이터. 필드 이름은 camelCase, type은 string/number/boolean/date/enum(...)/array<...> 등
+- questions: 요청만으로 결정할 수 없어 사용자에게 확인해야 하는 내용 (없으면 빈 배열, 최대 5개)
+  - kind: 자유 입력은 "text", 몇 가지 중 고르면 "choice"(options 필수), 캔버스의 기준 노드를 골라야 하면 "node"
+  - assumption: 사용자가 답하지 않을 때 진행할 합리적인 가정
+
+결과는 submit_product_blueprint 도구로 제출하세요.
+`;
+
+  const selectedNodes = state.figmaContext?.selectedNodes ?? [];
+  if (selectedNodes.length > 0) {
+    prompt += `\n=== 선택된 노드 구조 ===\n${formatContextTree(selectedNodes)}\n`;
+  }
+
+  const history = formatConversationHistory(state);
+  if (history) {
+    prompt += `\n=== 이전 대화 ===\n${history}\n`;
+  }
+
+  return prompt;
+};
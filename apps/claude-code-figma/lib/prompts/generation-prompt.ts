@@ -2,11 +2,25 @@ import { readFileSync } from "fs";
 import path from "path";
 
 import { FigmaContext } from "../figma/figma-client";
+import {
+  PluginApiSelection,
+  selectPluginApiExcerpts,
+} from "../services/plugin-api-index";
+import { getTodoLabel } from "../services/typescript-validator";
+import { formatContextTree } from "./planning-prompt";
+import {
+  DEFAULT_WORKSPACE_CONFIG,
+  summarizeWorkspaceConfig,
+} from "../services/workspace-config-store";
 import {
   DesignResult,
   PlanningResult,
   TodoDesign,
 } from "../types/workflow-types";
+import {
+  WorkspaceConfig,
+  WorkspaceTokenConventions,
+} from "../types/workspace-types";
 
 export interface LearningPromptContext {
   summary?: string;
@@ -14,7 +28,10 @@ export interface LearningPromptContext {
   raw?: string;
 }
 
-const extractSpacingTokens = (layout: Record<string, any> = {}): string[] => {
+const extractSpacingTokens = (
+  layout: Record<string, any>,
+  conventions: WorkspaceTokenConventions,
+): string[] => {
   const spacingFields = [
     "paddingTop",
     "paddingRight",
@@ -26,16 +43,25 @@ const extractSpacingTokens = (layout: Record<string, any> = {}): string[] => {
   const tokens = new Set<string>();
   spacingFields.forEach((field) => {
     const value = layout[field];
-    if (typeof value === "string" && value.includes("space/")) {
+    if (
+      typeof value === "string" &&
+      value.includes(conventions.spacing.prefix)
+    ) {
       tokens.add(value);
     }
   });
   return [...tokens];
 };
 
-const extractSurfaceTokens = (styles: Record<string, any> = {}): string[] => {
+const extractSurfaceTokens = (
+  styles: Record<string, any>,
+  conventions: WorkspaceTokenConventions,
+): string[] => {
   const tokens = new Set<string>();
-  if (typeof styles.fills === "string" && styles.fills.includes("semantic/")) {
+  if (
+    typeof styles.fills === "string" &&
+    styles.fills.includes(conventions.color.prefix)
+  ) {
     tokens.add(styles.fills);
   }
   return [...tokens];
@@ -49,7 +75,10 @@ const extractEffectTokens = (styles: Record<string, any> = {}): string[] => {
   return [...tokens];
 };
 
-const buildTodoChecklist = (todo: TodoDesign): string[] => {
+const buildTodoChecklist = (
+  todo: TodoDesign,
+  conventions: WorkspaceTokenConventions,
+): string[] => {
   const checklist: string[] = [];
   const design = todo.design || ({} as TodoDesign["design"]);
 
@@ -66,22 +95,29 @@ const buildTodoChecklist = (todo: TodoDesign): string[] => {
         checklist.push(`[Layout] ${key} = ${value}`);
       }
     });
-    extractSpacingTokens(layout).forEach((token) => {
+    extractSpacingTokens(layout, conventions).forEach((token) => {
       checklist.push(
-        `[Layout] ${token} 변수를 import하여 padding/spacing에 적용 (space 토큰)`,
+        `[Layout] ${token} 토큰을 tokens.apply(node, design.layout) 또는 tokens.bind로 padding/spacing에 바인딩`,
       );
     });
   }
 
   if (design.styles) {
     const styles = design.styles as Record<string, any>;
-    if (styles.cornerRadius) {
+    if (
+      typeof styles.cornerRadius === "string" &&
+      styles.cornerRadius.includes(conventions.radius.prefix)
+    ) {
       checklist.push(
-        `[Style] radius 토큰 '${styles.cornerRadius}'를 setBoundVariable 또는 cornerRadius에 적용`,
+        `[Style] radius 토큰 '${styles.cornerRadius}'를 tokens.bind(node, "cornerRadius", token)로 바인딩`,
       );
+    } else if (styles.cornerRadius) {
+      checklist.push(`[Style] cornerRadius = ${styles.cornerRadius}`);
     }
-    extractSurfaceTokens(styles).forEach((token) => {
-      checklist.push(`[Style] fill 토큰 '${token}'을 boundVariables로 연결`);
+    extractSurfaceTokens(styles, conventions).forEach((token) => {
+      checklist.push(
+        `[Style] fill 토큰 '${token}'을 tokens.bindPaint(node, token)로 바인딩`,
+      );
     });
     extractEffectTokens(styles).forEach((token) => {
       checklist.push(`[Style] effect 스타일 '${token}' import 후 적용`);
@@ -144,13 +180,14 @@ export const createGenerationPrompt = (
   learning?: string | LearningPromptContext,
   figmaContext?: FigmaContext,
   componentGuides?: Record<string, string>,
+  designSystemSummary?: string,
+  workspace: WorkspaceConfig = DEFAULT_WORKSPACE_CONFIG,
+  apiReference: PluginApiSelection = selectPluginApiExcerpts(plan, design),
 ) => {
-  const pluginApiPath = path.resolve(
-    process.cwd(),
-    "type-assets/plugin-api.d.ts",
-  );
-  let figmaPluginTypeDoc = "\n\n=== Figma Plugin API 레퍼런스 ===\n";
-  figmaPluginTypeDoc += readFileSync(pluginApiPath, "utf8");
+  let figmaPluginTypeDoc = "\n\n=== Figma Plugin API 레퍼런스 (발췌) ===\n";
+  figmaPluginTypeDoc +=
+    "이번 작업의 노드 타입/작업에 필요한 선언만 포함했습니다. 여기 없는 API는 사용을 피하세요.\n";
+  figmaPluginTypeDoc += apiReference.text;
 
   // TODO 타입별 동적 예시 선택
   const todoTypes = [
@@ -165,7 +202,18 @@ export const createGenerationPrompt = (
     }
   });
 
-  const helperSnippet = `\n\n=== 안전한 삽입 & 토큰 유틸 ===\nfunction safeInsertChild(parent, node, index) {\n  if (typeof index === "number" && index >= 0 && index <= parent.children.length) {\n    parent.insertChild(index, node);\n  } else {\n    parent.appendChild(node);\n  }\n}\n\nasync function importSpacingVariable(name) {\n  const collection = await figma.teamLibrary.getVariablesInLibraryCollectionAsync(PRIMITIVE_COLLECTION_KEY);\n  const match = collection.find((variable) => variable.name === name);\n  if (!match) throw new Error(\`Spacing variable not found: \${name}\`);\n  return figma.variables.importVariableByKeyAsync(match.key);\n}\n\nasync function importSurfaceVariable(name) {\n  const collection = await figma.teamLibrary.getVariablesInLibraryCollectionAsync(THEME_COLLECTION_KEY);\n  const match = collection.find((variable) => variable.name === name);\n  if (!match) throw new Error(\`Surface variable not found: \${name}\`);\n  return figma.variables.importVariableByKeyAsync(match.key);\n}\n`;
+  const { spacing, radius, color } = workspace.tokenConventions;
+  const collectionConstants = workspace.tokenCollections
+    .map(({ constantName, key }) => `const ${constantName} = "${key}";`)
+    .join("\n");
+  const tokenRuntimePath = path.resolve(
+    process.cwd(),
+    "type-assets/token-runtime.d.ts",
+  );
+
+  const helperSnippet = `\n\n=== 안전한 삽입 & 토큰 유틸 ===\n${collectionConstants}\n\nfunction safeInsertChild(parent, node, index) {\n  if (typeof index === "number" && index >= 0 && index <= parent.children.length) {\n    parent.insertChild(index, node);\n  } else {\n    parent.appendChild(node);\n  }\n}\n\n// 토큰 값(예: "${spacing.prefix}200")은 변수를 직접 import하지 말고 플러그인이 주입하는 tokens 런타임으로 바인딩하세요\n// await tokens.apply(frame, { itemSpacing: "${spacing.prefix}200", paddingTop: 16 });\n// await tokens.bind(frame, "cornerRadius", "${radius.prefix}200");\n// await tokens.bindPaint(frame, "${color.prefix}...");\n\n${readFileSync(tokenRuntimePath, "utf8")}\n`;
+
+  const sandboxRules = `\n\n=== 실행 샌드박스 제약 ===\n- figma 객체는 허용된 API만 노출됩니다 (clientStorage, ui, closePlugin, 페이지 전환 등 사용 불가)\n- fetch 등 네트워크 호출은 차단됩니다\n- remove(), 다른 부모로 이동, group/flatten 등은 Planning scope.targetNodes(및 하위)와 이번 실행에서 생성한 노드에만 허용됩니다\n- 한 번의 실행에서 생성 가능한 노드 수와 실행 시간에 제한이 있습니다\n`;
 
   let contextInfo = "\n\n=== Planning 결과 ===\n";
   contextInfo += `전략: ${plan.strategy}\n`;
@@ -190,11 +238,13 @@ export const createGenerationPrompt = (
   }
 
   contextInfo += "\nTODO 리스트:\n";
+  contextInfo +=
+    "각 TODO는 해당 라벨의 블록 안에 구현하세요 (예: TODO_1: { ... }). 라벨이 없거나 비어 있는/주석만 있는 블록은 미구현으로 판정됩니다.\n";
 
   if (plan.todoList && plan.todoList.length > 0) {
     plan.todoList.forEach((todo: any) => {
       const scenarioLabel = todo.scenarioId ?? "(scenario 미지정)";
-      contextInfo += `- [${todo.id}] ${scenarioLabel} :: ${todo.type}: ${todo.task}\n`;
+      contextInfo += `- [${todo.id}] 라벨 ${getTodoLabel(todo.id)} / ${scenarioLabel} :: ${todo.type}: ${todo.task}\n`;
       if (todo.targetNodeId || todo.targetNode) {
         contextInfo += `  targetNodeId: ${todo.targetNodeId || todo.targetNode}\n`;
       }
@@ -210,19 +260,9 @@ export const createGenerationPrompt = (
   // selectedNodes 정보 추가
   if (figmaContext?.selectedNodes && figmaContext.selectedNodes.length > 0) {
     contextInfo += "\n=== 선택된 노드 정보 ===\n";
-    figmaContext.selectedNodes.forEach((node: any) => {
-      contextInfo += `- ID: ${node.id}, 이름: ${node.name}, 타입: ${node.type}\n`;
-      // 텍스트 노드의 현재 내용 정보
-      if (node.type === "TEXT" && node.characters) {
-        contextInfo += `  현재 텍스트: "${node.characters}"\n`;
-      }
-      // 프레임 노드의 레이아웃 정보
-      if (node.type === "FRAME" && node.layoutMode) {
-        contextInfo += `  레이아웃: ${node.layoutMode}\n`;
-      }
-    });
+    contextInfo += `${formatContextTree(figmaContext.selectedNodes)}\n`;
     contextInfo +=
-      "\n**중요**: MODIFY 작업 시 위 노드 ID를 정확히 사용하여 figma.getNodeById()로 찾아서 수정하세요.\n";
+      "\n**중요**: MODIFY 작업 시 위 노드 ID를 정확히 사용하여 await figma.getNodeByIdAsync()로 찾아서 수정하세요.\n";
   }
 
   contextInfo += "\n=== Design 결과 ===\n";
@@ -308,12 +348,29 @@ export const createGenerationPrompt = (
       contextInfo += `  Expected Variant Props: ${JSON.stringify(todoDesign.design.expectedVariantProps)}\n`;
     }
 
-    const checklist = buildTodoChecklist(todoDesign);
+    const checklist = buildTodoChecklist(
+      todoDesign,
+      workspace.tokenConventions,
+    );
     if (checklist.length > 0) {
       contextInfo += `  ✅ 구현 체크리스트:\n    - ${checklist.join("\n    - ")}`;
     }
   });
 
+  const guides = Object.values(componentGuides ?? {});
+  if (guides.length > 0) {
+    contextInfo += "\n\n=== 디자인 시스템 컴포넌트 가이드 ===\n";
+    contextInfo +=
+      "INSTANCE TODO는 아래 key로 컴포넌트를 import하고, 정의된 프로퍼티 이름과 값만 setProperties에 사용하세요.\n\n";
+    contextInfo += guides.join("\n\n") + "\n";
+  }
+
+  if (designSystemSummary) {
+    contextInfo += `\n\n${designSystemSummary}\n`;
+  }
+
+  contextInfo += `\n\n${summarizeWorkspaceConfig(workspace)}\n`;
+
   const normalizedLearning: LearningPromptContext | undefined =
     typeof learning === "string"
       ? learning.trim()
@@ -343,6 +400,7 @@ export const createGenerationPrompt = (
     figmaPluginTypeDoc +
     generationPrompt +
     helperSnippet +
+    sandboxRules +
     dynamicExamples +
     contextInfo
   );
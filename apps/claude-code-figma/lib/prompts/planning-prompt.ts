@@ -1,10 +1,146 @@
-import { FigmaCodeWorkflowState } from "../types/workflow-types";
+import { ContextNode } from "../figma/figma-client";
+import {
+  DEFAULT_WORKSPACE_CONFIG,
+  summarizeWorkspaceConfig,
+} from "../services/workspace-config-store";
+import {
+  FigmaCodeWorkflowState,
+  ProductBlueprint,
+} from "../types/workflow-types";
+import { WorkspaceConfig } from "../types/workspace-types";
 
 
 export const planningPrompt = ``;
 
-export const analyzePlanningPrompt = (state: FigmaCodeWorkflowState) => {
-  let selectedNodesInfo = "";
- 
-  return planningPrompt + selectedNodesInfo;
+const formatContextNode = (node: ContextNode, indent: string): string => {
+  const parts = [`${indent}- [${node.type}] "${node.name}" id=${node.id}`];
+  if (node.width !== undefined && node.height !== undefined) {
+    parts.push(`${node.width}x${node.height} @(${node.x ?? 0},${node.y ?? 0})`);
+  }
+  if (node.visible === false) parts.push("hidden");
+  if (node.componentName) {
+    parts.push(`component=${node.componentName} (key: ${node.componentKey})`);
+  }
+  if (node.componentProperties) {
+    parts.push(`props=${JSON.stringify(node.componentProperties)}`);
+  }
+  if (node.layout) parts.push(`layout=${JSON.stringify(node.layout)}`);
+  if (node.text) {
+    parts.push(
+      `text=${JSON.stringify(node.text.characters)}${node.text.truncated ? "…" : ""}`,
+    );
+  }
+  if (node.styles) parts.push(`styles=${JSON.stringify(node.styles)}`);
+  if (node.variables) parts.push(`variables=${JSON.stringify(node.variables)}`);
+  if (node.repeatedNodeIds?.length) {
+    parts.push(
+      `(같은 인스턴스 ${node.repeatedNodeIds.length}개 더: ${node.repeatedNodeIds.join(", ")})`,
+    );
+  }
+  if (node.omittedChildren) {
+    parts.push(`(자식 ${node.omittedChildren}개 생략)`);
+  }
+
+  return [
+    parts.join(" "),
+    ...(node.children ?? []).map((child) =>
+      formatContextNode(child, `${indent}  `),
+    ),
+  ].join("\n");
+};
+
+/**
+ * GET_CONTEXT 선택 노드 트리를 들여쓰기한 한 줄 요약 목록으로 변환
+ */
+export const formatContextTree = (nodes: ContextNode[]) =>
+  nodes.map((node) => formatContextNode(node, "")).join("\n");
+
+/**
+ * Planning 프롬프트용 블루프린트 요약
+ */
+const formatBlueprint = (blueprint: ProductBlueprint) => {
+  const lines = [`요약: ${blueprint.summary}`, "화면:"];
+  blueprint.screens.forEach((screen) => {
+    const nodes =
+      screen.relatedNodeIds.length > 0
+        ? ` (nodes: ${screen.relatedNodeIds.join(", ")})`
+        : "";
+    lines.push(
+      `- (${screen.id}) [${screen.type}] ${screen.name}: ${screen.intent}${nodes}`,
+    );
+  });
+
+  if (blueprint.flows.length > 0) {
+    lines.push("플로우:");
+    blueprint.flows.forEach((flow) => {
+      lines.push(
+        `- (${flow.id}) ${flow.name} [${flow.primaryScreenIds.join(", ")}]: ${flow.steps.join(" → ")}`,
+      );
+    });
+  }
+
+  if (blueprint.dataContracts.length > 0) {
+    lines.push("데이터 계약:");
+    blueprint.dataContracts.forEach((contract) => {
+      const fields = contract.fields
+        .map(
+          (field) => `${field.name}${field.required ? "" : "?"}: ${field.type}`,
+        )
+        .join(", ");
+      lines.push(`- (${contract.id}) ${contract.name} { ${fields} }`);
+    });
+  }
+
+  return lines.join("\n");
+};
+
+/**
+ * 블루프린트 질문과 사용자 답변 (답하지 않은 질문은 가정 사용)
+ */
+const formatClarifications = (state: FigmaCodeWorkflowState) =>
+  (state.blueprint?.requiredContext.questions ?? [])
+    .map(({ id, question, assumption }) => {
+      const answer = state.collectedContext?.answers?.[id];
+      return `- Q: ${question}\n  A: ${answer ?? `(답변 없음, 가정) ${assumption}`}`;
+    })
+    .join("\n");
+
+export const analyzePlanningPrompt = (
+  state: FigmaCodeWorkflowState,
+  designSystemSummary?: string,
+  workspace: WorkspaceConfig = DEFAULT_WORKSPACE_CONFIG,
+) => {
+  // 기존 노드 수정 계획에 필요한 구조 (ID, 크기, auto layout, 컴포넌트, 텍스트, 바인딩)
+  const selectedNodes = state.figmaContext?.selectedNodes ?? [];
+  const selectedNodesInfo =
+    selectedNodes.length > 0
+      ? `\n\n=== 선택된 노드 구조 ===\n${formatContextTree(selectedNodes)}\n\n기존 노드를 수정할 때는 위 ID를 targetNodeId로 사용하세요.\n`
+      : "";
+
+  // 블루프린트의 화면/플로우/데이터 계약으로 실제 콘텐츠와 상태를 계획
+  const blueprintInfo = state.blueprint
+    ? `\n\n=== 제품 블루프린트 ===\n${formatBlueprint(state.blueprint)}\n\nTODO와 텍스트 콘텐츠는 위 플로우 단계와 데이터 계약 필드를 반영하세요.\n`
+    : "";
+
+  const clarifications = formatClarifications(state);
+  const clarificationInfo = clarifications
+    ? `\n\n=== 요구사항 확인 ===\n${clarifications}\n\n위 답변을 가정보다 우선해 계획하세요.\n`
+    : "";
+
+  // 파일에 실제로 있는 컴포넌트/스타일/변수만 계획에 사용하도록 제공
+  const designSystemInfo = designSystemSummary
+    ? `\n\n${designSystemSummary}\n\n카탈로그에 있는 컴포넌트 key와 변수 컬렉션만 사용해 계획하세요.\n`
+    : "";
+
+  // design.layout/styles의 토큰 이름은 워크스페이스 규칙의 접두사를 따라야 generation에서 import됨
+  const workspaceInfo = `\n\n${summarizeWorkspaceConfig(workspace)}\n\n토큰 값은 위 이름 규칙(접두사)을 따르는 변수 이름으로 지정하고, 텍스트는 기본 폰트를 사용하세요.\n`;
+
+  return (
+    planningPrompt +
+    selectedNodesInfo +
+    blueprintInfo +
+    clarificationInfo +
+    designSystemInfo +
+    workspaceInfo
+  );
 };
@@ -0,0 +1,76 @@
+import { ContextImage, FigmaContext } from "../figma/figma-client";
+
+// 서버에 보관할 최대 이미지 수 (오래된 이미지부터 제거)
+const MAX_CACHED_IMAGES = 200;
+
+// 개발 서버 HMR 시에도 같은 캐시를 유지
+const globalForImageCache = globalThis as unknown as {
+  contextImageCache?: Map<string, string>;
+};
+
+// cacheKey(노드 ID + 버전 + 형식/배율) → base64
+const getImageCache = () => {
+  if (!globalForImageCache.contextImageCache) {
+    globalForImageCache.contextImageCache = new Map();
+  }
+  return globalForImageCache.contextImageCache;
+};
+
+/**
+ * base64가 포함된 이미지를 캐시하고 저장한 cacheKey 반환
+ */
+export const cacheContextImages = (images: ContextImage[]): string[] => {
+  const cache = getImageCache();
+  const stored = images.flatMap(({ cacheKey, nodeImage }) => {
+    if (!cacheKey || !nodeImage) return [];
+    // 다시 넣어 가장 최근 항목으로 이동
+    cache.delete(cacheKey);
+    cache.set(cacheKey, nodeImage);
+    return [cacheKey];
+  });
+
+  const overflow = cache.size - MAX_CACHED_IMAGES;
+  [...cache.keys()]
+    .slice(0, Math.max(overflow, 0))
+    .forEach((cacheKey) => cache.delete(cacheKey));
+
+  return stored;
+};
+
+export const getCachedImageKeys = (cacheKeys: string[]): string[] => {
+  const cache = getImageCache();
+  return cacheKeys.filter((cacheKey) => cache.has(cacheKey));
+};
+
+/**
+ * 이미지를 캐시에 옮기고 상태에는 cacheKey만 남김 (스냅샷마다 base64를 저장하지 않도록)
+ */
+export const storeContextImages = (context: FigmaContext): FigmaContext => {
+  cacheContextImages(context.selectedNodesImage ?? []);
+  return {
+    ...context,
+    selectedNodesImage: (context.selectedNodesImage ?? []).map(
+      ({ nodeImage, ...image }) => image,
+    ),
+  };
+};
+
+/**
+ * cacheKey만 남은 이미지에 base64를 채움 (캐시에 없는 이미지는 missing으로 반환)
+ */
+export const resolveContextImages = (images: ContextImage[] = []) => {
+  const cache = getImageCache();
+  const resolved: Array<ContextImage & { nodeImage: string }> = [];
+  const missing: ContextImage[] = [];
+
+  images.forEach((image) => {
+    const nodeImage = image.nodeImage ?? cache.get(image.cacheKey);
+    if (nodeImage) {
+      resolved.push({ ...image, nodeImage });
+    } else {
+      missing.push(image);
+    }
+  });
+
+  return { resolved, missing };
+};
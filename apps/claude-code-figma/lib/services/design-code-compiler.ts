@@ -0,0 +1,701 @@
+import { findDesignSystemComponent } from "../guides/design-system-registry";
+import {
+  DesignResult,
+  PlanningResult,
+  TodoDesign,
+} from "../types/workflow-types";
+import { DesignOperation, OperationTarget } from "../types/operation-types";
+import { WorkspaceConfig } from "../types/workspace-types";
+import { getTodoLabel } from "./typescript-validator";
+
+// LLM이 작성한 fallback TODO 블록이 들어갈 위치 (executeCode 내부)
+export const FALLBACK_TODOS_PLACEHOLDER = "/* FALLBACK_TODOS */";
+
+export interface DesignCompileResult {
+  // FALLBACK_TODOS_PLACEHOLDER를 포함한 전체 실행 코드
+  code: string;
+  compiledTodoIds: string[];
+  fallbackTodos: Array<{ todoId: string; reason: string }>;
+}
+
+type DesignLayout = NonNullable<TodoDesign["design"]["layout"]>;
+type DesignStyles = NonNullable<TodoDesign["design"]["styles"]>;
+
+// 값 그대로 대입하는 auto layout 필드 (layoutSizing*은 부모에 삽입한 뒤 설정)
+const LAYOUT_ENUM_FIELDS = [
+  "layoutMode",
+  "primaryAxisAlignItems",
+  "counterAxisAlignItems",
+  "primaryAxisSizingMode",
+  "counterAxisSizingMode",
+] as const;
+
+// tokens.apply로 넘기는 숫자/토큰 필드
+const LAYOUT_TOKEN_FIELDS = [
+  "itemSpacing",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+] as const;
+
+const STYLE_KEY_PATTERN = /^[0-9a-f]{40}$/i;
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const COMPILED_HELPERS = `function safeInsertChild(parent, node, index) {
+  if (typeof index === "number" && index >= 0 && index <= parent.children.length) {
+    parent.insertChild(index, node);
+  } else {
+    parent.appendChild(node);
+  }
+}
+
+function requireParent(parent, todoId) {
+  if (!parent || !parent.children) {
+    throw new Error(todoId + ": 부모 노드를 찾을 수 없습니다");
+  }
+  return parent;
+}
+
+async function importComponentByAnyKey(key) {
+  try {
+    return await figma.importComponentByKeyAsync(key);
+  } catch (error) {
+    const componentSet = await figma.importComponentSetByKeyAsync(key);
+    return componentSet.defaultVariant;
+  }
+}
+
+// "Label" 처럼 ID 접미사 없이 지정한 프로퍼티 이름도 "Label#1:0"과 매칭
+function isPropertyName(definition, name) {
+  return definition === name || definition.split("#")[0] === name;
+}
+
+function setInstanceProperties(instance, properties) {
+  const resolved = {};
+  for (const name in properties) {
+    for (const definition in instance.componentProperties) {
+      if (isPropertyName(definition, name)) {
+        resolved[definition] = properties[name];
+        break;
+      }
+    }
+  }
+  instance.setProperties(resolved);
+}
+
+// FILL은 auto layout 부모의 자식에만 설정 가능하므로 부모 삽입 후 호출
+function applyLayoutSizing(node, horizontal, vertical) {
+  const parent = node.parent;
+  const inAutoLayout =
+    !!parent && !!parent.layoutMode && parent.layoutMode !== "NONE";
+  if (horizontal && (horizontal !== "FILL" || inAutoLayout)) {
+    node.layoutSizingHorizontal = horizontal;
+  }
+  if (vertical && (vertical !== "FILL" || inAutoLayout)) {
+    node.layoutSizingVertical = vertical;
+  }
+}
+
+async function loadTextNodeFonts(node) {
+  const fonts =
+    node.characters.length > 0
+      ? node.getRangeAllFontNames(0, node.characters.length)
+      : [node.fontName];
+  for (let i = 0; i < fonts.length; i++) {
+    if (fonts[i] !== figma.mixed) await figma.loadFontAsync(fonts[i]);
+  }
+}
+`;
+
+const literal = (value: unknown) => JSON.stringify(value);
+
+const isStructuredStyleValue = (value: unknown) =>
+  typeof value !== "string" || !HEX_COLOR_PATTERN.test(value);
+
+/**
+ * 컴파일할 수 없는 이유 (없으면 null)
+ * description이 있거나 구조화된 필드로 표현되지 않는 작업은 LLM이 작성
+ */
+const getFallbackReason = (
+  todoDesign: TodoDesign,
+  todoType: string | undefined,
+): string | null => {
+  const { design } = todoDesign;
+  if (!design) return "design이 없습니다";
+  if (typeof design.description === "string" && design.description.trim()) {
+    return "description 작업 포함";
+  }
+
+  const targetNodeId = todoDesign.targetNodeId || todoDesign.targetNode;
+  switch (todoType) {
+    case "create":
+      if (design.nodeType === "GROUP") return "GROUP 생성은 자식 노드가 필요";
+      if (design.nodeType === "INSTANCE" && !design.component?.key) {
+        return "컴포넌트 key 없음";
+      }
+      break;
+    case "modify":
+    case "style":
+    case "delete":
+      if (!targetNodeId) return "대상 노드 ID 없음";
+      break;
+    default:
+      return `${todoType ?? "unknown"} 타입은 컴파일 대상이 아님`;
+  }
+
+  const styles = design.styles;
+  if (styles?.textStyleName && !styles.textStyleKey) {
+    return "textStyleKey 없이 textStyleName만 지정";
+  }
+  if (styles?.effects && !STYLE_KEY_PATTERN.test(styles.effects)) {
+    return "effect 스타일 key가 아님";
+  }
+  return null;
+};
+
+const compileLayout = (
+  variable: string,
+  layout: DesignLayout | undefined,
+  lines: string[],
+) => {
+  if (!layout) return;
+
+  LAYOUT_ENUM_FIELDS.forEach((field) => {
+    if (layout[field] !== undefined) {
+      lines.push(`${variable}.${field} = ${literal(layout[field])};`);
+    }
+  });
+
+  if (layout.width !== undefined || layout.height !== undefined) {
+    lines.push(
+      `${variable}.resize(${layout.width ?? `${variable}.width`}, ${
+        layout.height ?? `${variable}.height`
+      });`,
+    );
+  }
+
+  const tokenValues = Object.fromEntries(
+    LAYOUT_TOKEN_FIELDS.filter((field) => layout[field] !== undefined).map(
+      (field) => [field, layout[field]],
+    ),
+  );
+  if (Object.keys(tokenValues).length > 0) {
+    lines.push(`await tokens.apply(${variable}, ${literal(tokenValues)});`);
+  }
+};
+
+const compileLayoutSizing = (
+  variable: string,
+  layout: DesignLayout | undefined,
+  lines: string[],
+) => {
+  const horizontal = layout?.layoutSizingHorizontal;
+  const vertical = layout?.layoutSizingVertical;
+  if (horizontal || vertical) {
+    lines.push(
+      `applyLayoutSizing(${variable}, ${literal(horizontal ?? null)}, ${literal(
+        vertical ?? null,
+      )});`,
+    );
+  }
+};
+
+const compileStyles = (
+  variable: string,
+  styles: DesignStyles | undefined,
+  lines: string[],
+) => {
+  if (!styles) return;
+
+  const tokenValues: Record<string, unknown> = {};
+  (["fills", "strokes"] as const).forEach((field) => {
+    const value = styles[field];
+    if (!value) return;
+    if (isStructuredStyleValue(value)) {
+      tokenValues[field] = value;
+    } else {
+      lines.push(
+        `${variable}.${field} = [figma.util.solidPaint(${literal(value)})];`,
+      );
+    }
+  });
+  if (styles.cornerRadius !== undefined) {
+    tokenValues.cornerRadius = styles.cornerRadius;
+  }
+  if (Object.keys(tokenValues).length > 0) {
+    lines.push(`await tokens.apply(${variable}, ${literal(tokenValues)});`);
+  }
+
+  if (styles.effects) {
+    lines.push(
+      `const effectStyle = await figma.importStyleByKeyAsync(${literal(styles.effects)});`,
+      `await ${variable}.setEffectStyleIdAsync(effectStyle.id);`,
+    );
+  }
+};
+
+const compileText = (
+  variable: string,
+  todoDesign: TodoDesign,
+  workspace: WorkspaceConfig,
+  isNew: boolean,
+  lines: string[],
+) => {
+  const { design } = todoDesign;
+  const textStyleKey = design.styles?.textStyleKey;
+  if (textStyleKey) {
+    lines.push(
+      `const textStyle = await figma.importStyleByKeyAsync(${literal(textStyleKey)});`,
+      `await figma.loadFontAsync(textStyle.fontName);`,
+    );
+  }
+
+  if (isNew) {
+    const font = workspace.defaultFonts[0];
+    if (font) {
+      lines.push(
+        `await figma.loadFontAsync(${literal(font)});`,
+        `${variable}.fontName = ${literal(font)};`,
+      );
+    }
+  } else if (design.textContent !== undefined) {
+    lines.push(`await loadTextNodeFonts(${variable});`);
+  }
+
+  if (textStyleKey) {
+    lines.push(`await ${variable}.setTextStyleIdAsync(textStyle.id);`);
+  }
+  if (design.textContent !== undefined) {
+    lines.push(`${variable}.characters = ${literal(design.textContent)};`);
+  }
+};
+
+const compileComponentProperties = (
+  variable: string,
+  todoDesign: TodoDesign,
+  lines: string[],
+) => {
+  const properties = todoDesign.design.component?.properties;
+  if (properties && Object.keys(properties).length > 0) {
+    lines.push(`setInstanceProperties(${variable}, ${literal(properties)});`);
+  }
+};
+
+const compileParent = (todoDesign: TodoDesign, lines: string[]) => {
+  const parent = todoDesign.design.parent;
+  const source = parent?.todoId
+    ? `nodes[${literal(parent.todoId)}]`
+    : parent?.existingNodeId
+      ? `await figma.getNodeByIdAsync(${literal(parent.existingNodeId)})`
+      : "figma.currentPage";
+  lines.push(
+    `const parent = requireParent(${source}, ${literal(todoDesign.todoId)});`,
+  );
+};
+
+const compileCreate = (
+  todoDesign: TodoDesign,
+  workspace: WorkspaceConfig,
+): string[] => {
+  const { design } = todoDesign;
+  const lines: string[] = [];
+  compileParent(todoDesign, lines);
+
+  switch (design.nodeType) {
+    case "INSTANCE": {
+      const component = design.component!;
+      const registered = findDesignSystemComponent(component.key);
+      if (registered?.type === "COMPONENT_SET") {
+        lines.push(
+          `const componentSet = await figma.importComponentSetByKeyAsync(${literal(component.key)});`,
+          `const node = componentSet.defaultVariant.createInstance();`,
+        );
+      } else {
+        lines.push(
+          `const component = await importComponentByAnyKey(${literal(component.key)});`,
+          `const node = component.createInstance();`,
+        );
+      }
+      break;
+    }
+    case "TEXT":
+      lines.push(`const node = figma.createText();`);
+      break;
+    default:
+      lines.push(`const node = figma.createFrame();`);
+      // createFrame 기본 흰색 배경 대신 스타일에 지정된 fills만 사용
+      if (!design.styles?.fills) lines.push(`node.fills = [];`);
+      break;
+  }
+
+  lines.push(`node.name = ${literal(design.nodeName)};`);
+  if (design.nodeType === "INSTANCE") {
+    compileComponentProperties("node", todoDesign, lines);
+  }
+  if (design.nodeType === "TEXT") {
+    compileText("node", todoDesign, workspace, true, lines);
+  }
+  compileLayout("node", design.layout, lines);
+  compileStyles("node", design.styles, lines);
+  lines.push(
+    `safeInsertChild(parent, node, ${literal(design.parent?.insertIndex ?? null)});`,
+  );
+  compileLayoutSizing("node", design.layout, lines);
+  lines.push(`nodes[${literal(todoDesign.todoId)}] = node;`);
+  return lines;
+};
+
+const compileModify = (
+  todoDesign: TodoDesign,
+  workspace: WorkspaceConfig,
+): string[] => {
+  const { design } = todoDesign;
+  const targetNodeId = (todoDesign.targetNodeId || todoDesign.targetNode)!;
+  const lines = [
+    `const node = await figma.getNodeByIdAsync(${literal(targetNodeId)});`,
+    `if (!node) throw new Error(${literal(
+      `${todoDesign.todoId}: 대상 노드(${targetNodeId})를 찾을 수 없습니다`,
+    )});`,
+  ];
+
+  if (design.nodeType === "INSTANCE") {
+    lines.push(`if (node.type === "INSTANCE") {`);
+    const propertyLines: string[] = [];
+    compileComponentProperties("node", todoDesign, propertyLines);
+    lines.push(...propertyLines.map((line) => `  ${line}`), `}`);
+  }
+  if (design.nodeType === "TEXT") {
+    lines.push(`if (node.type === "TEXT") {`);
+    const textLines: string[] = [];
+    compileText("node", todoDesign, workspace, false, textLines);
+    lines.push(...textLines.map((line) => `  ${line}`), `}`);
+  }
+  compileLayout("node", design.layout, lines);
+  compileStyles("node", design.styles, lines);
+  compileLayoutSizing("node", design.layout, lines);
+  lines.push(`nodes[${literal(todoDesign.todoId)}] = node;`);
+  return lines;
+};
+
+const compileDelete = (todoDesign: TodoDesign): string[] => {
+  const targetNodeId = (todoDesign.targetNodeId || todoDesign.targetNode)!;
+  return [
+    `const node = await figma.getNodeByIdAsync(${literal(targetNodeId)});`,
+    `if (node) node.remove();`,
+  ];
+};
+
+// executionOrder 우선, 누락된 TODO는 todoDesigns 순서로 뒤에 추가
+const getOrderedTodoDesigns = (design: DesignResult): TodoDesign[] => {
+  const byId = new Map(
+    design.todoDesigns.map((todoDesign) => [todoDesign.todoId, todoDesign]),
+  );
+  const order = [
+    ...(design.dependencies?.executionOrder ?? []),
+    ...design.todoDesigns.map((todoDesign) => todoDesign.todoId),
+  ];
+  return [...new Set(order)]
+    .map((todoId) => byId.get(todoId))
+    .filter((todoDesign): todoDesign is TodoDesign => !!todoDesign);
+};
+
+// parentChildMap(부모 → 자식)과 design.parent.todoId를 합친 자식 → 부모 관계
+const getParentTodoIds = (design: DesignResult) => {
+  const parents = new Map<string, string>();
+  const parentChildMap = design.dependencies?.parentChildMap;
+  parentChildMap?.forEach((children, parentId) => {
+    children.forEach((childId) => parents.set(childId, parentId));
+  });
+  design.todoDesigns.forEach((todoDesign) => {
+    const parentTodoId = todoDesign.design?.parent?.todoId;
+    if (parentTodoId) parents.set(todoDesign.todoId, parentTodoId);
+  });
+  return parents;
+};
+
+/**
+ * 컴파일 가능한 TodoDesign(실행 순서)과 LLM이 작성해야 하는 TODO별 이유로 분류
+ * 컴파일할 수 없는 TODO의 자식과 TodoDesign이 없는 TODO도 LLM 작성 대상
+ */
+const classifyTodoDesigns = (design: DesignResult, plan: PlanningResult) => {
+  const todoTypes = new Map(
+    (plan.todoList ?? []).map((todo) => [todo.id, todo.type]),
+  );
+  const parentTodoIds = getParentTodoIds(design);
+  const fallbackReasons = new Map<string, string>();
+  const compilable: TodoDesign[] = [];
+
+  getOrderedTodoDesigns(design).forEach((todoDesign) => {
+    const { todoId } = todoDesign;
+    const parentTodoId = parentTodoIds.get(todoId);
+    const reason =
+      getFallbackReason(todoDesign, todoTypes.get(todoId)) ??
+      (parentTodoId && fallbackReasons.has(parentTodoId)
+        ? `부모 ${parentTodoId}가 LLM 작성 대상`
+        : null);
+    if (reason) {
+      fallbackReasons.set(todoId, reason);
+    } else {
+      compilable.push(todoDesign);
+    }
+  });
+
+  (plan.todoList ?? []).forEach((todo) => {
+    if (
+      !fallbackReasons.has(todo.id) &&
+      !compilable.some((todoDesign) => todoDesign.todoId === todo.id)
+    ) {
+      fallbackReasons.set(todo.id, "TodoDesign 없음");
+    }
+  });
+
+  return { todoTypes, compilable, fallbackReasons };
+};
+
+/**
+ * DesignResult를 실행 가능한 Figma 플러그인 코드로 변환
+ * - executionOrder 순서로 TODO_n 라벨 블록 생성, 생성/수정한 노드는 nodes[todoId]에 보관
+ * - 토큰 값은 플러그인 tokens 런타임으로 바인딩
+ * - 컴파일할 수 없는 TODO(및 그 자식)는 fallbackTodos로 반환하고 LLM이 작성할 위치를 남김
+ */
+export const compileDesignToCode = (
+  design: DesignResult,
+  plan: PlanningResult,
+  workspace: WorkspaceConfig,
+): DesignCompileResult => {
+  const { todoTypes, compilable, fallbackReasons } = classifyTodoDesigns(
+    design,
+    plan,
+  );
+  const blocks = compilable.map((todoDesign) => {
+    const todoType = todoTypes.get(todoDesign.todoId);
+    const lines =
+      todoType === "create"
+        ? compileCreate(todoDesign, workspace)
+        : todoType === "delete"
+          ? compileDelete(todoDesign)
+          : compileModify(todoDesign, workspace);
+
+    const body = lines.map((line) => `    ${line}`).join("\n");
+    return `  // ${todoDesign.task}\n  ${getTodoLabel(todoDesign.todoId)}: {\n${body}\n  }`;
+  });
+
+  const code = `${COMPILED_HELPERS}
+async function executeCode() {
+  const nodes = {};
+
+${blocks.join("\n\n")}
+
+  ${FALLBACK_TODOS_PLACEHOLDER}
+}
+
+// 샌드박스가 async 본문으로 실행하므로 진입 promise를 반환해 완료까지 기다리게 함
+return executeCode();`;
+
+  return {
+    code,
+    compiledTodoIds: compilable.map((todoDesign) => todoDesign.todoId),
+    fallbackTodos: [...fallbackReasons].map(([todoId, reason]) => ({
+      todoId,
+      reason,
+    })),
+  };
+};
+
+/**
+ * 컴파일된 코드의 placeholder 위치에 LLM이 작성한 fallback TODO 블록 삽입
+ */
+export const insertFallbackCode = (
+  compiledCode: string,
+  fallbackCode = "",
+): string => {
+  const block = fallbackCode.trim();
+  return compiledCode.replace(
+    `\n\n  ${FALLBACK_TODOS_PLACEHOLDER}`,
+    block ? `\n\n  ${block.split("\n").join("\n  ")}` : "",
+  );
+};
+
+// layout/styles → setProps props (layoutSizing*은 부모에 삽입한 뒤 별도 setProps)
+const getOperationProps = (todoDesign: TodoDesign) => {
+  const { layout, styles } = todoDesign.design;
+  const props: Record<string, unknown> = {};
+  const sizing: Record<string, unknown> = {};
+
+  if (layout) {
+    [...LAYOUT_ENUM_FIELDS, "width", "height", ...LAYOUT_TOKEN_FIELDS].forEach(
+      (field) => {
+        const value = layout[field as keyof DesignLayout];
+        if (value !== undefined) props[field] = value;
+      },
+    );
+    (["layoutSizingHorizontal", "layoutSizingVertical"] as const).forEach(
+      (field) => {
+        if (layout[field] !== undefined) sizing[field] = layout[field];
+      },
+    );
+  }
+
+  if (styles) {
+    (["fills", "strokes", "cornerRadius"] as const).forEach((field) => {
+      if (styles[field] !== undefined) props[field] = styles[field];
+    });
+    if (styles.effects) props.effectStyleKey = styles.effects;
+  }
+
+  return { props, sizing };
+};
+
+/**
+ * DesignResult를 플러그인 EXECUTE_OPERATIONS용 operation 목록으로 변환
+ * - 각 operation은 todoId로 하나의 TODO에 대응 (검증은 operation 결과로 판정)
+ * - 생성 TODO의 createNode operation ID는 todoId (자식 TODO가 { ref: todoId }로 참조)
+ * - LLM이 작성해야 하는 TODO가 하나라도 있으면 null (생성 코드로 실행)
+ */
+export const compileDesignToOperations = (
+  design: DesignResult,
+  plan: PlanningResult,
+  workspace: WorkspaceConfig,
+): DesignOperation[] | null => {
+  const { todoTypes, compilable, fallbackReasons } = classifyTodoDesigns(
+    design,
+    plan,
+  );
+  if (fallbackReasons.size > 0) return null;
+
+  const todoDesigns = new Map(
+    compilable.map((todoDesign) => [todoDesign.todoId, todoDesign]),
+  );
+  // 부모 TODO가 생성 TODO면 operation 참조, 수정 TODO면 대상 노드 ID
+  const getTodoNode = (todoId: string): OperationTarget | undefined => {
+    if (todoTypes.get(todoId) === "create") return { ref: todoId };
+    const todoDesign = todoDesigns.get(todoId);
+    return todoDesign?.targetNodeId || todoDesign?.targetNode;
+  };
+
+  const operations: DesignOperation[] = [];
+  for (const todoDesign of compilable) {
+    const { todoId, design: todo } = todoDesign;
+    const todoType = todoTypes.get(todoId);
+    const todoOperations: DesignOperation[] = [];
+    const target: OperationTarget =
+      todoType === "create"
+        ? { ref: todoId }
+        : (todoDesign.targetNodeId || todoDesign.targetNode)!;
+
+    if (todoType === "delete") {
+      operations.push({ id: todoId, todoId, op: "delete", target });
+      continue;
+    }
+
+    if (todoType === "create") {
+      todoOperations.push({
+        id: todoId,
+        todoId,
+        op: "createNode",
+        nodeType: todo.nodeType as "FRAME" | "TEXT" | "INSTANCE",
+        name: todo.nodeName,
+        ...(todo.nodeType === "INSTANCE"
+          ? { componentKey: todo.component!.key }
+          : {}),
+      });
+    }
+
+    const properties = todo.component?.properties;
+    if (
+      todo.nodeType === "INSTANCE" &&
+      properties &&
+      Object.keys(properties).length > 0
+    ) {
+      todoOperations.push({
+        id: `${todoId}:variant`,
+        todoId,
+        op: "setVariant",
+        target,
+        properties,
+      });
+    }
+
+    if (
+      todo.nodeType === "TEXT" &&
+      (todoType === "create" ||
+        todo.textContent !== undefined ||
+        todo.styles?.textStyleKey)
+    ) {
+      const font = workspace.defaultFonts[0];
+      todoOperations.push({
+        id: `${todoId}:text`,
+        todoId,
+        op: "setText",
+        target,
+        ...(todo.textContent !== undefined
+          ? { characters: todo.textContent }
+          : {}),
+        ...(todo.styles?.textStyleKey
+          ? { textStyleKey: todo.styles.textStyleKey }
+          : todoType === "create" && font
+            ? { fontName: font }
+            : {}),
+      });
+    }
+
+    const { props, sizing } = getOperationProps(todoDesign);
+    if (Object.keys(props).length > 0) {
+      todoOperations.push({
+        id: `${todoId}:props`,
+        todoId,
+        op: "setProps",
+        target,
+        props,
+      });
+    }
+
+    if (todoType === "create") {
+      const parent = todo.parent;
+      todoOperations.push({
+        id: `${todoId}:insert`,
+        todoId,
+        op: "insert",
+        target,
+        ...(parent?.todoId
+          ? { parent: getTodoNode(parent.todoId) }
+          : parent?.existingNodeId
+            ? { parent: parent.existingNodeId }
+            : {}),
+        ...(typeof parent?.insertIndex === "number"
+          ? { index: parent.insertIndex }
+          : {}),
+      });
+    }
+
+    if (Object.keys(sizing).length > 0) {
+      todoOperations.push({
+        id: `${todoId}:sizing`,
+        todoId,
+        op: "setProps",
+        target,
+        props: sizing,
+      });
+    }
+
+    // 적용할 속성이 없는 수정 TODO는 operation으로 표현할 수 없음
+    if (todoOperations.length === 0) return null;
+    operations.push(...todoOperations);
+  }
+
+  return operations;
+};
+
+/**
+ * 실행 전에 플러그인이 폰트를 미리 로드할 텍스트 스타일 key (이름은 제외)
+ */
+export const getDesignTextStyleKeys = (design: DesignResult): string[] => [
+  ...new Set(
+    design.todoDesigns.flatMap(({ design: { styles } }) =>
+      styles?.textStyleKey && STYLE_KEY_PATTERN.test(styles.textStyleKey)
+        ? [styles.textStyleKey]
+        : [],
+    ),
+  ),
+];
@@ -0,0 +1,121 @@
+type JsonSchemaType =
+  | "object"
+  | "array"
+  | "string"
+  | "number"
+  | "integer"
+  | "boolean";
+
+// LLM JSON 응답 검증에 필요한 JSON Schema 부분 집합 (tool input_schema로도 사용)
+export interface JsonSchema {
+  // 배열이면 그중 하나 (예: ["number", "string"])
+  type: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  // properties에 없는 키의 값 스키마 (Record<string, T>)
+  additionalProperties?: JsonSchema;
+  items?: JsonSchema;
+  enum?: Array<string | number>;
+  minItems?: number;
+  maxItems?: number;
+}
+
+/**
+ * T의 모든 키를 properties에 선언해야 하는 object 스키마
+ * workflow-types.ts의 인터페이스에 필드가 추가/삭제되면 스키마에서 컴파일 오류가 남
+ */
+export type ObjectSchema<T> = Omit<
+  JsonSchema,
+  "type" | "properties" | "required"
+> & {
+  type: "object";
+  properties: { [K in keyof T]-?: JsonSchema };
+  required?: Array<keyof T & string>;
+};
+
+const getValueType = (value: unknown) => {
+  if (Array.isArray(value)) return "array";
+  if (value === null) return "null";
+  return typeof value;
+};
+
+const matchesType = (value: unknown, type: JsonSchema["type"]): boolean => {
+  if (Array.isArray(type)) {
+    return type.some((candidate) => matchesType(value, candidate));
+  }
+  if (type === "integer") return Number.isInteger(value);
+  if (type === "number") {
+    return typeof value === "number" && Number.isFinite(value);
+  }
+  return getValueType(value) === type;
+};
+
+/**
+ * 스키마 위반 목록 반환 (빈 배열이면 통과)
+ * - 경로는 "screens[0].type"처럼 표기해 재요청 프롬프트에 그대로 사용
+ * - additionalProperties가 없으면 정의하지 않은 속성은 허용 (정규화 단계에서 무시)
+ */
+export const validateJsonSchema = (
+  value: unknown,
+  schema: JsonSchema,
+  path = "$",
+): string[] => {
+  if (!matchesType(value, schema.type)) {
+    const expected = [schema.type].flat().join(" | ");
+    return [`${path}: ${expected} 타입이어야 합니다 (${getValueType(value)})`];
+  }
+
+  const errors: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    errors.push(
+      `${path}: ${schema.enum.map((item) => JSON.stringify(item)).join(" | ")} 중 하나여야 합니다`,
+    );
+  }
+
+  if (Array.isArray(value)) {
+    const items = value as unknown[];
+    if (schema.minItems !== undefined && items.length < schema.minItems) {
+      errors.push(`${path}: 최소 ${schema.minItems}개 항목이 필요합니다`);
+    }
+    if (schema.maxItems !== undefined && items.length > schema.maxItems) {
+      errors.push(`${path}: 최대 ${schema.maxItems}개 항목까지 허용됩니다`);
+    }
+    if (schema.items) {
+      items.forEach((item, index) =>
+        errors.push(
+          ...validateJsonSchema(item, schema.items!, `${path}[${index}]`),
+        ),
+      );
+    }
+  }
+
+  if (getValueType(value) === "object") {
+    const record = value as Record<string, unknown>;
+    (schema.required ?? []).forEach((key) => {
+      if (record[key] === undefined) {
+        errors.push(`${path}.${key}: 필수 항목이 없습니다`);
+      }
+    });
+    Object.entries(record).forEach(([key, item]) => {
+      const property = schema.properties?.[key] ?? schema.additionalProperties;
+      if (property && item !== undefined) {
+        errors.push(...validateJsonSchema(item, property, `${path}.${key}`));
+      }
+    });
+  }
+
+  return errors;
+};
+
+/**
+ * LLM 응답 텍스트에서 JSON 객체를 추출 (```json 블록 또는 첫 { ~ 마지막 })
+ */
+export const extractJsonObject = (text: string): unknown => {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const candidate = fenced?.[1] ?? text.match(/\{[\s\S]*\}/)?.[0];
+  if (!candidate) {
+    throw new Error("응답에서 JSON을 찾을 수 없습니다");
+  }
+  return JSON.parse(candidate);
+};
@@ -0,0 +1,419 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+
+import { DesignResult, PlanningResult } from "../types/workflow-types";
+
+// 생성 프롬프트에 포함할 API 발췌의 기본 토큰 예산
+export const DEFAULT_API_TOKEN_BUDGET = 6000;
+
+// 통째로 포함할 참조 타입의 최대 토큰 수 (더 크면 멤버 단위로만 포함)
+const MAX_REFERENCED_TYPE_TOKENS = 400;
+// 멤버 주석은 첫 문장만 사용
+const MAX_DOC_LENGTH = 160;
+
+export interface PluginApiMember {
+  name: string;
+  // 오버로드를 포함한 선언 (한 줄 주석 포함)
+  text: string;
+  references: string[];
+  tokens: number;
+}
+
+export interface PluginApiDeclaration {
+  name: string;
+  kind: "interface" | "type";
+  // interface FrameNode extends DefaultFrameMixin
+  header: string;
+  heritage: string[];
+  members: PluginApiMember[];
+  // type alias 전체 선언 (interface는 빈 문자열)
+  text: string;
+  references: string[];
+  tokens: number;
+}
+
+export interface PluginApiExcerpt {
+  name: string;
+  // 포함한 멤버 (type alias 또는 전체 포함 시 ["*"])
+  members: string[];
+  reason: string;
+  tokens: number;
+}
+
+export interface PluginApiSelection {
+  text: string;
+  excerpts: PluginApiExcerpt[];
+  tokens: number;
+  budget: number;
+  // 예산 초과로 제외한 항목 ("AutoLayoutMixin.itemSpacing", "Paint")
+  omitted: string[];
+}
+
+// 문자 수 기반 토큰 추정 (영문 코드 기준 약 4자/토큰)
+export const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const getDocSummary = (node: ts.Node): string | undefined => {
+  const jsDoc = (node as { jsDoc?: ts.JSDoc[] }).jsDoc?.[0];
+  const comment = jsDoc && ts.getTextOfJSDocComment(jsDoc.comment);
+  if (!comment) return undefined;
+  const summary = comment.split(/(?<=\.)\s|\n/)[0].trim();
+  return summary.length > MAX_DOC_LENGTH
+    ? `${summary.slice(0, MAX_DOC_LENGTH)}…`
+    : summary;
+};
+
+const collectReferences = (node: ts.Node): string[] => {
+  const names = new Set<string>();
+  const visit = (child: ts.Node) => {
+    if (ts.isTypeReferenceNode(child) && ts.isIdentifier(child.typeName)) {
+      names.add(child.typeName.text);
+    }
+    ts.forEachChild(child, visit);
+  };
+  visit(node);
+  return [...names];
+};
+
+const toSingleLine = (text: string) =>
+  text
+    .replace(/\s+/g, " ")
+    .replace(/([(<{]) /g, "$1")
+    .replace(/,? ([)>}])/g, "$1")
+    .trim();
+
+const indexInterface = (
+  node: ts.InterfaceDeclaration,
+): PluginApiDeclaration => {
+  const heritage = (node.heritageClauses ?? []).flatMap((clause) =>
+    clause.types.map((type) => type.expression.getText()),
+  );
+  const byName = new Map<string, ts.TypeElement[]>();
+  node.members.forEach((member) => {
+    const name = member.name?.getText();
+    if (!name) return;
+    byName.set(name, [...(byName.get(name) ?? []), member]);
+  });
+
+  const members = [...byName].map(([name, signatures]): PluginApiMember => {
+    const doc = getDocSummary(signatures[0]);
+    const text = [
+      ...(doc ? [`/** ${doc} */`] : []),
+      ...signatures.map((signature) => toSingleLine(signature.getText())),
+    ].join("\n  ");
+    return {
+      name,
+      text,
+      references: [...new Set(signatures.flatMap(collectReferences))],
+      tokens: estimateTokens(text),
+    };
+  });
+
+  const header = `interface ${node.name.text}${
+    heritage.length > 0 ? ` extends ${heritage.join(", ")}` : ""
+  }`;
+  return {
+    name: node.name.text,
+    kind: "interface",
+    header,
+    heritage,
+    members,
+    text: "",
+    references: [...new Set(members.flatMap((member) => member.references))],
+    tokens:
+      estimateTokens(header) +
+      members.reduce((total, member) => total + member.tokens, 0),
+  };
+};
+
+const indexTypeAlias = (
+  node: ts.TypeAliasDeclaration,
+): PluginApiDeclaration => {
+  const text = node.getText();
+  return {
+    name: node.name.text,
+    kind: "type",
+    header: "",
+    heritage: [],
+    members: [],
+    text,
+    references: collectReferences(node.type),
+    tokens: estimateTokens(text),
+  };
+};
+
+let pluginApiIndex: Map<string, PluginApiDeclaration> | null = null;
+
+/**
+ * plugin-api.d.ts의 interface/type 선언을 멤버 단위로 색인 (프로세스당 한 번)
+ */
+export const getPluginApiIndex = (): Map<string, PluginApiDeclaration> => {
+  if (pluginApiIndex) return pluginApiIndex;
+
+  const pluginApiPath = path.resolve(
+    process.cwd(),
+    "type-assets/plugin-api.d.ts",
+  );
+  const sourceFile = ts.createSourceFile(
+    pluginApiPath,
+    fs.existsSync(pluginApiPath) ? fs.readFileSync(pluginApiPath, "utf8") : "",
+    ts.ScriptTarget.ES2020,
+    true,
+  );
+
+  pluginApiIndex = new Map();
+  sourceFile.statements.forEach((statement) => {
+    if (ts.isInterfaceDeclaration(statement)) {
+      pluginApiIndex!.set(statement.name.text, indexInterface(statement));
+    } else if (ts.isTypeAliasDeclaration(statement)) {
+      pluginApiIndex!.set(statement.name.text, indexTypeAlias(statement));
+    }
+  });
+  return pluginApiIndex;
+};
+
+/**
+ * 재시도 가이드/검증 오류에 나온 camelCase 식별자 추출 (예: "setBoundVariable")
+ */
+export const extractApiTerms = (text?: string | null): string[] =>
+  text ? [...new Set(text.match(/\b[a-z]+[A-Z][A-Za-z]*\b/g) ?? [])] : [];
+
+// "COMPONENT_SET" → "ComponentSetNode"
+const toNodeInterfaceName = (nodeType: string) =>
+  `${nodeType
+    .toLowerCase()
+    .split("_")
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join("")}Node`;
+
+const CREATE_METHODS: Record<string, string[]> = {
+  FRAME: ["PluginAPI.createFrame"],
+  TEXT: ["PluginAPI.createText"],
+  GROUP: ["PluginAPI.group"],
+  INSTANCE: [
+    "PluginAPI.importComponentByKeyAsync",
+    "PluginAPI.importComponentSetByKeyAsync",
+    "ComponentNode.createInstance",
+    "ComponentSetNode.defaultVariant",
+  ],
+};
+
+const TODO_TYPE_MEMBERS: Record<string, string[]> = {
+  create: ["appendChild", "insertChild", "name"],
+  modify: ["PluginAPI.getNodeByIdAsync"],
+  style: ["PluginAPI.getNodeByIdAsync"],
+  delete: ["PluginAPI.getNodeByIdAsync", "remove"],
+  find: ["findOne", "findAll", "findAllWithCriteria"],
+  check: ["PluginAPI.getNodeByIdAsync", "findOne"],
+  validate: ["PluginAPI.getNodeByIdAsync"],
+};
+
+const NODE_TYPE_MEMBERS: Record<string, string[]> = {
+  TEXT: [
+    "PluginAPI.loadFontAsync",
+    "characters",
+    "fontName",
+    "fontSize",
+    "getRangeAllFontNames",
+  ],
+  INSTANCE: ["setProperties", "componentProperties", "getMainComponentAsync"],
+};
+
+const STYLE_MEMBERS: Record<string, string[]> = {
+  fills: ["fills", "UtilAPI.solidPaint", "PluginAPI.util"],
+  strokes: ["strokes", "strokeWeight", "UtilAPI.solidPaint", "PluginAPI.util"],
+  effects: ["PluginAPI.importStyleByKeyAsync", "setEffectStyleIdAsync"],
+  textStyleKey: ["PluginAPI.importStyleByKeyAsync", "setTextStyleIdAsync"],
+  textStyleName: ["PluginAPI.importStyleByKeyAsync", "setTextStyleIdAsync"],
+  cornerRadius: ["cornerRadius"],
+};
+
+// DesignResult에서 필요한 노드 타입과 멤버 이름 수집
+const collectDesignTerms = (plan: PlanningResult, design: DesignResult) => {
+  const nodeTypes = new Set<string>();
+  const members = new Set<string>(["PluginAPI.currentPage"]);
+  const add = (names: string[] = []) =>
+    names.forEach((name) => members.add(name));
+
+  const todoTypes = new Map(
+    (plan.todoList ?? []).map((todo) => [todo.id, todo.type]),
+  );
+  todoTypes.forEach((type) => add(TODO_TYPE_MEMBERS[type]));
+  design.todoDesigns.forEach(({ todoId, design: todoDesign }) => {
+    nodeTypes.add(todoDesign.nodeType);
+    add(NODE_TYPE_MEMBERS[todoDesign.nodeType]);
+    // 기존 노드 수정에는 생성 API가 필요 없음
+    if (todoTypes.get(todoId) !== "modify") {
+      add(CREATE_METHODS[todoDesign.nodeType]);
+    }
+    Object.keys(todoDesign.layout ?? {}).forEach((field) =>
+      members.add(field === "width" || field === "height" ? "resize" : field),
+    );
+    Object.keys(todoDesign.styles ?? {}).forEach((field) =>
+      add(STYLE_MEMBERS[field] ?? [field]),
+    );
+    if (todoDesign.component?.properties) add(["setProperties"]);
+    if (todoDesign.textContent !== undefined) add(["characters"]);
+  });
+
+  return { nodeTypes: [...nodeTypes], members: [...members] };
+};
+
+/**
+ * 현재 DesignResult의 노드 타입/작업에 필요한 API 선언만 토큰 예산 안에서 발췌
+ * - 1순위: 사용할 멤버 (PluginAPI 메서드, 노드 타입이 상속한 mixin의 속성)
+ * - 2순위: 그 멤버가 참조하는 작은 타입 (Paint, FontName 등)
+ * - 3순위: 노드 interface 자체의 멤버
+ * @param terms - 추가로 포함할 멤버 이름 (재시도 시 검증 오류에 나온 이름 등)
+ */
+export const selectPluginApiExcerpts = (
+  plan: PlanningResult,
+  design: DesignResult,
+  {
+    budget = DEFAULT_API_TOKEN_BUDGET,
+    terms = [],
+  }: { budget?: number; terms?: string[] } = {},
+): PluginApiSelection => {
+  const index = getPluginApiIndex();
+  const designTerms = collectDesignTerms(plan, design);
+  const nodeInterfaces = designTerms.nodeTypes
+    .map(toNodeInterfaceName)
+    .filter((name) => index.has(name));
+
+  // 노드 interface가 상속하는 모든 mixin (멤버 이름 → 선언한 interface)
+  const inherited = new Map<string, string>();
+  const visited = new Set<string>();
+  const visit = (name: string) => {
+    const declaration = index.get(name);
+    if (!declaration || visited.has(name)) return;
+    visited.add(name);
+    declaration.members.forEach((member) => {
+      if (!inherited.has(member.name)) inherited.set(member.name, name);
+    });
+    declaration.heritage.forEach(visit);
+  };
+  nodeInterfaces.forEach(visit);
+
+  const picks = new Map<
+    string,
+    { members: Set<string>; whole: boolean; reason: string; tokens: number }
+  >();
+  const omitted: string[] = [];
+  let used = 0;
+
+  const pick = (name: string, member: string | null, reason: string) => {
+    const declaration = index.get(name);
+    if (!declaration) return;
+    const existing = picks.get(name);
+    if (existing?.whole || (member && existing?.members.has(member))) return;
+
+    const apiMember = member
+      ? declaration.members.find((candidate) => candidate.name === member)
+      : undefined;
+    if (member && !apiMember) return;
+
+    const cost =
+      (apiMember?.tokens ?? declaration.tokens) +
+      (existing || declaration.kind === "type"
+        ? 0
+        : estimateTokens(declaration.header));
+    if (used + cost > budget) {
+      omitted.push(member ? `${name}.${member}` : name);
+      return;
+    }
+
+    used += cost;
+    const entry = existing ?? {
+      members: new Set<string>(),
+      whole: false,
+      reason,
+      tokens: 0,
+    };
+    if (apiMember) {
+      entry.members.add(apiMember.name);
+    } else {
+      entry.whole = true;
+    }
+    entry.tokens += cost;
+    picks.set(name, entry);
+  };
+
+  // 1순위: "PluginAPI.createFrame"처럼 소유자를 지정했거나 노드 mixin에 있는 멤버
+  const isPluginApiMember = (name: string) =>
+    !!index.get("PluginAPI")?.members.some((member) => member.name === name);
+  [...designTerms.members, ...terms].forEach((term) => {
+    if (term.includes(".")) {
+      const [owner, member] = term.split(".");
+      pick(owner, member, "design");
+      return;
+    }
+    const owner =
+      inherited.get(term) ??
+      (isPluginApiMember(term) ? "PluginAPI" : undefined);
+    if (owner) pick(owner, term, terms.includes(term) ? "retry" : "design");
+  });
+
+  // 2순위: 포함한 멤버가 참조하는 작은 타입
+  [...picks].forEach(([name, entry]) => {
+    index
+      .get(name)!
+      .members.filter((member) => entry.members.has(member.name))
+      .flatMap((member) => member.references)
+      .forEach((reference) => {
+        const declaration = index.get(reference);
+        if (
+          declaration &&
+          !nodeInterfaces.includes(reference) &&
+          declaration.tokens <= MAX_REFERENCED_TYPE_TOKENS
+        ) {
+          pick(reference, null, `referenced by ${name}`);
+        }
+      });
+  });
+
+  // 3순위: 노드 interface 자체 멤버 (type, 노드 전용 메서드)
+  nodeInterfaces.forEach((name) => {
+    index
+      .get(name)!
+      .members.forEach((member) => pick(name, member.name, "node type"));
+  });
+
+  // 원본 파일 순서로 출력
+  const excerpts: PluginApiExcerpt[] = [];
+  const sections: string[] = [];
+  index.forEach((declaration, name) => {
+    const entry = picks.get(name);
+    if (!entry) return;
+
+    excerpts.push({
+      name,
+      members: entry.whole ? ["*"] : [...entry.members],
+      reason: entry.reason,
+      tokens: entry.tokens,
+    });
+    if (declaration.kind === "type") {
+      sections.push(declaration.text);
+      return;
+    }
+    const members = declaration.members.filter(
+      (member) => entry.whole || entry.members.has(member.name),
+    );
+    const hidden = declaration.members.length - members.length;
+    sections.push(
+      [
+        `${declaration.header} {`,
+        ...members.map((member) => `  ${member.text}`),
+        ...(hidden > 0 ? [`  // ... ${hidden} more members`] : []),
+        "}",
+      ].join("\n"),
+    );
+  });
+
+  return {
+    text: sections.join("\n"),
+    excerpts,
+    tokens: used,
+    budget,
+    omitted,
+  };
+};
@@ -0,0 +1,136 @@
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  HumanMessage,
+  ToolMessage,
+} from "@langchain/core/messages";
+
+import {
+  extractJsonObject,
+  JsonSchema,
+  validateJsonSchema,
+} from "./json-schema";
+
+// 스키마 위반 시 오류를 돌려주고 다시 요청하는 횟수
+const DEFAULT_REPAIR_ROUNDS = 1;
+
+export interface StructuredOutputTool {
+  name: string;
+  description: string;
+  schema: JsonSchema;
+}
+
+/**
+ * 재요청 후에도 스키마를 만족하지 못한 응답
+ * issues는 "$.todoList[0].type: ..." 형식의 필드 단위 오류
+ */
+export class StructuredOutputError extends Error {
+  tool: string;
+  issues: string[];
+  rawOutput?: string;
+
+  constructor(
+    tool: string,
+    issues: string[],
+    message: string,
+    rawOutput?: string,
+  ) {
+    super(message);
+    this.name = "StructuredOutputError";
+    this.tool = tool;
+    this.issues = issues;
+    this.rawOutput = rawOutput;
+  }
+}
+
+/**
+ * tool 정의를 Anthropic tool 형식으로 변환 (tool_choice로 이 도구만 호출하도록 강제)
+ */
+export const toAnthropicTool = ({
+  name,
+  description,
+  schema,
+}: StructuredOutputTool) => ({
+  name,
+  description,
+  input_schema: schema as unknown as Record<string, unknown>,
+});
+
+const getResponseText = (response: AIMessageChunk) =>
+  typeof response.content === "string"
+    ? response.content
+    : response.content
+        .map((part) => ("text" in part ? String(part.text) : ""))
+        .join("");
+
+// tool_use 결과가 없으면 텍스트 응답의 JSON을 사용
+const readToolOutput = (response: AIMessageChunk, tool: string) => {
+  const toolCall = response.tool_calls?.find((call) => call.name === tool);
+  if (toolCall) {
+    return { output: toolCall.args as unknown, toolCallId: toolCall.id };
+  }
+  return { output: extractJsonObject(getResponseText(response)) };
+};
+
+/**
+ * tool 호출로 JSON을 받아 스키마 검증, 위반 필드를 돌려주고 repairRounds만큼 다시 요청
+ * @param invoke - tool이 바인딩된 모델 호출 (스트리밍 여부는 호출하는 쪽에서 결정)
+ * @throws StructuredOutputError 마지막 응답도 파싱/검증에 실패한 경우
+ */
+export const requestStructuredOutput = async <T>(
+  invoke: (messages: BaseMessage[]) => Promise<AIMessageChunk>,
+  messages: BaseMessage[],
+  tool: StructuredOutputTool,
+  { repairRounds = DEFAULT_REPAIR_ROUNDS }: { repairRounds?: number } = {},
+): Promise<{ output: T; response: AIMessageChunk; repairs: number }> => {
+  const conversation = [...messages];
+  let issues: string[] = [];
+  let rawOutput: string | undefined;
+
+  for (let round = 0; round <= repairRounds; round++) {
+    const response = await invoke(conversation);
+    let toolCallId: string | undefined;
+    try {
+      const result = readToolOutput(response, tool.name);
+      toolCallId = result.toolCallId;
+      rawOutput = JSON.stringify(result.output);
+      issues = validateJsonSchema(result.output, tool.schema);
+      if (issues.length === 0) {
+        return { output: result.output as T, response, repairs: round };
+      }
+    } catch (error) {
+      rawOutput = getResponseText(response);
+      issues = [
+        `$: JSON을 읽을 수 없습니다 (${error instanceof Error ? error.message : String(error)})`,
+      ];
+    }
+
+    const feedback = `응답이 ${tool.name} 스키마를 만족하지 않습니다. 아래 항목만 고쳐 전체 결과를 다시 보내주세요.\n- ${issues.join("\n- ")}`;
+    conversation.push(
+      ...(toolCallId
+        ? [
+            new AIMessage({
+              content: response.content,
+              tool_calls: response.tool_calls,
+            }),
+            new ToolMessage({
+              tool_call_id: toolCallId,
+              content: feedback,
+              status: "error",
+            }),
+          ]
+        : [
+            new AIMessage(getResponseText(response)),
+            new HumanMessage(feedback),
+          ]),
+    );
+  }
+
+  throw new StructuredOutputError(
+    tool.name,
+    issues,
+    `${tool.name} 응답 스키마 검증 실패 (${issues.length}개 항목)`,
+    rawOutput,
+  );
+};
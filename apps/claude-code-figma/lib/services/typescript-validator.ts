@@ -6,8 +6,22 @@ import ts from "typescript";
  * TypeScript-based validator for Figma API code
  * Uses TypeScript compiler API to validate code against plugin-api.d.ts
  */
+// plugin-api.d.ts를 합친 가상 파일 이름
+const FIGMA_GLOBALS_FILE = "figma-globals.d.ts";
+// 플러그인이 주입하는 tokens 런타임 (figma API 사용 분석 대상에서 제외)
+const TOKEN_RUNTIME_FILE = "token-runtime.d.ts";
+
+// JSDoc 태그 본문을 일반 텍스트로 변환
+// ({@link X}, {@linkcode X | text}는 displayPartsToString과 달리 대상 이름 X만 남김)
+const jsDocTextToPlain = (parts: ts.SymbolDisplayPart[] = []) =>
+  parts
+    .filter((part) => part.kind !== "link" && part.kind !== "linkText")
+    .map((part) => part.text)
+    .join("");
+
 export class TypeScriptValidator {
   private compilerOptions: ts.CompilerOptions;
+  private figmaMemberNames?: Set<string>;
 
   constructor() {
     this.compilerOptions = {
@@ -123,6 +137,319 @@ export class TypeScriptValidator {
     }
   }
 
+  /**
+   * Locate labeled TODO blocks (e.g. `TODO_1: { ... }`) in generated code
+   * @param codeString - Generated code
+   * @param todoIds - Planning TODO IDs (todo_1 → TODO_1 label)
+   * @returns TODO ID별 블록 위치와 구현 상태
+   */
+  analyzeTodoBlocks(
+    codeString: string,
+    todoIds: string[],
+  ): Map<string, TodoBlockInfo> {
+    const sourceFile = ts.createSourceFile(
+      "todo-analysis.ts",
+      codeString,
+      ts.ScriptTarget.ES2020,
+      true,
+    );
+    const labelToTodoId = new Map(
+      todoIds.map((todoId) => [getTodoLabel(todoId), todoId]),
+    );
+    const blocks = new Map<string, TodoBlockInfo>();
+
+    const getLine = (position: number) =>
+      sourceFile.getLineAndCharacterOfPosition(position).line + 1;
+
+    const getStatus = (statement: ts.Statement): TodoBlockStatus => {
+      if (!ts.isBlock(statement)) {
+        return ts.isEmptyStatement(statement) ? "empty" : "implemented";
+      }
+      const statements = statement.statements.filter(
+        (child) => !ts.isEmptyStatement(child),
+      );
+      if (statements.length > 0) {
+        return "implemented";
+      }
+      // 중괄호 안에 주석만 남아 있는 경우
+      const body = statement.getText(sourceFile).slice(1, -1).trim();
+      return body ? "comment_only" : "empty";
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isLabeledStatement(node)) {
+        const label = node.label.text;
+        const todoId = labelToTodoId.get(label);
+        if (todoId) {
+          const status = getStatus(node.statement);
+          const start = getLine(node.getStart(sourceFile));
+          const end = getLine(node.getEnd());
+          const existing = blocks.get(todoId);
+
+          // 같은 라벨이 여러 스코프에 있으면 범위를 합치고 하나라도 구현되면 구현으로 판정
+          blocks.set(
+            todoId,
+            existing
+              ? {
+                  ...existing,
+                  codeLines: [
+                    Math.min(existing.codeLines[0], start),
+                    Math.max(existing.codeLines[1], end),
+                  ],
+                  status:
+                    existing.status === "implemented" ? "implemented" : status,
+                  implemented: existing.implemented || status === "implemented",
+                }
+              : {
+                  todoId,
+                  label,
+                  codeLines: [start, end],
+                  status,
+                  implemented: status === "implemented",
+                },
+          );
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+
+    todoIds.forEach((todoId) => {
+      if (!blocks.has(todoId)) {
+        blocks.set(todoId, {
+          todoId,
+          label: getTodoLabel(todoId),
+          codeLines: [0, 0],
+          status: "missing",
+          implemented: false,
+        });
+      }
+    });
+
+    return blocks;
+  }
+
+  /**
+   * Resolve figma.* and node member usage against plugin-api.d.ts
+   * @param codeString - Generated code
+   * @param documentAccess - Plugin manifest documentAccess (dynamic-page면 동기 API 사용을 오류로 보고)
+   * @returns 타입 체커로 해석한 API 호출과 deprecated/async 오용 목록
+   */
+  analyzeFigmaApiUsage(
+    codeString: string,
+    { documentAccess = "full" }: { documentAccess?: FigmaDocumentAccess } = {},
+  ): FigmaApiUsageReport {
+    const fileName = "figma-api-usage.ts";
+    const program = this.createProgram(fileName, codeString);
+    const checker = program.getTypeChecker();
+    const sourceFile = program.getSourceFile(fileName);
+    const report: FigmaApiUsageReport = {
+      validCalls: [],
+      invalidCalls: [],
+      deprecatedUsage: [],
+      asyncMisuse: [],
+      performanceIssues: [],
+    };
+    if (!sourceFile) return report;
+
+    const memberNames = this.getFigmaMemberNames(program);
+    const validCalls = new Set<string>();
+
+    const getLine = (node: ts.Node) =>
+      sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile)).line +
+      1;
+
+    const isFigmaDeclared = (symbol: ts.Symbol | undefined) =>
+      !!symbol?.declarations?.some(
+        (declaration) =>
+          declaration.getSourceFile().fileName === FIGMA_GLOBALS_FILE,
+      );
+
+    const isFigmaType = (type: ts.Type): boolean =>
+      type.isUnion()
+        ? type.types.some(isFigmaType)
+        : isFigmaDeclared(type.aliasSymbol) ||
+          isFigmaDeclared(type.getSymbol());
+
+    // figma.variables 같은 속성 체인은 그대로, 그 외에는 수신 타입 이름으로 표시
+    const getReceiverLabel = (expression: ts.Expression, type: ts.Type) => {
+      const text = expression.getText(sourceFile);
+      if (/^figma(\.\w+)*$/.test(text)) return text;
+      const typeName = checker.typeToString(type);
+      if (typeName.length <= 40) return typeName;
+      // 긴 유니온 타입은 코드의 수신 표현식으로 표시
+      return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+    };
+
+    const getDeprecatedTag = (
+      access: ts.PropertyAccessExpression,
+      symbol: ts.Symbol,
+    ) => {
+      const call = ts.isCallExpression(access.parent) ? access.parent : null;
+      // 오버로드는 실제로 선택된 시그니처의 JSDoc 기준으로 판단
+      const tags =
+        call && call.expression === access
+          ? (checker.getResolvedSignature(call)?.getJsDocTags() ?? [])
+          : symbol.getJsDocTags(checker);
+      return tags.find((tag) => tag.name === "deprecated");
+    };
+
+    const isLoop = (node: ts.Node) =>
+      ts.isForStatement(node) ||
+      ts.isForOfStatement(node) ||
+      ts.isForInStatement(node) ||
+      ts.isWhileStatement(node) ||
+      ts.isDoStatement(node);
+
+    const isInsideLoop = (node: ts.Node) => {
+      for (let current = node.parent; current; current = current.parent) {
+        if (ts.isFunctionLike(current)) return false;
+        if (isLoop(current)) return true;
+      }
+      return false;
+    };
+
+    // await/return/then 없이 Promise 결과를 버리거나 바로 사용하는 경우
+    const getUnawaitedUsage = (call: ts.CallExpression) => {
+      let parent = call.parent;
+      while (ts.isParenthesizedExpression(parent)) parent = parent.parent;
+      if (ts.isExpressionStatement(parent)) {
+        return "Promise is not awaited";
+      }
+      if (
+        ts.isPropertyAccessExpression(parent) &&
+        !["then", "catch", "finally"].includes(parent.name.text)
+      ) {
+        return `.${parent.name.text} is read from a Promise before await`;
+      }
+      return null;
+    };
+
+    const checkMemberAccess = (access: ts.PropertyAccessExpression) => {
+      const receiverType = checker.getNonNullableType(
+        checker.getTypeAtLocation(access.expression),
+      );
+      if (receiverType.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) {
+        return;
+      }
+      if (!isFigmaType(receiverType)) return;
+
+      const name = access.name.text;
+      const receiver = getReceiverLabel(access.expression, receiverType);
+      const label = `${receiver}.${name}`;
+      const location = `${label} (${getLine(access)}번 줄)`;
+      const call =
+        ts.isCallExpression(access.parent) &&
+        access.parent.expression === access
+          ? access.parent
+          : null;
+      const symbol = checker.getSymbolAtLocation(access.name);
+
+      if (!symbol) {
+        // BaseNode 등 좁혀지지 않은 타입은 다른 노드 타입에 멤버가 있으면 허용
+        if (!memberNames.has(name)) {
+          report.invalidCalls.push(
+            `${location}: Figma Plugin API에 없는 멤버입니다`,
+          );
+        } else if (call || receiver.startsWith("figma")) {
+          validCalls.add(label);
+        }
+        return;
+      }
+
+      if (call || receiver.startsWith("figma")) {
+        validCalls.add(label);
+      }
+
+      const deprecated = getDeprecatedTag(access, symbol);
+      // 첫 문단이 대체 API 안내, 이후는 일반 설명
+      const deprecatedText = deprecated
+        ? jsDocTextToPlain(deprecated.text).split("\n\n")[0].trim()
+        : "";
+      if (deprecated) {
+        report.deprecatedUsage.push(
+          `${location}: ${deprecatedText || "deprecated"}`,
+        );
+      }
+
+      if (documentAccess === "dynamic-page") {
+        const asyncName = `${name}Async`;
+        const hasAsyncVariant = !!checker.getPropertyOfType(
+          receiverType,
+          asyncName,
+        );
+        if (hasAsyncVariant || deprecatedText.includes("dynamic-page")) {
+          report.asyncMisuse.push(
+            `${location}: documentAccess "dynamic-page"에서는 동기 API를 사용할 수 없습니다` +
+              (hasAsyncVariant ? ` (${asyncName} 사용)` : ""),
+          );
+        }
+      }
+
+      if (call && name.endsWith("Async")) {
+        const returnSymbol = checker.getTypeAtLocation(call).getSymbol();
+        const usage =
+          returnSymbol?.getName() === "Promise"
+            ? getUnawaitedUsage(call)
+            : null;
+        if (usage) {
+          report.asyncMisuse.push(`${location}: ${usage}`);
+        }
+      }
+
+      if (
+        call &&
+        receiver === "figma" &&
+        name.startsWith("create") &&
+        isInsideLoop(call)
+      ) {
+        report.performanceIssues.push(
+          `${location}: Creating nodes in loop - consider batch creation`,
+        );
+      }
+    };
+
+    const visit = (node: ts.Node) => {
+      if (ts.isPropertyAccessExpression(node)) {
+        checkMemberAccess(node);
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    report.validCalls = [...validCalls];
+    return report;
+  }
+
+  /**
+   * plugin-api.d.ts에 선언된 모든 멤버 이름 (좁혀지지 않은 노드 타입 판정용)
+   */
+  private getFigmaMemberNames(program: ts.Program): Set<string> {
+    if (this.figmaMemberNames) return this.figmaMemberNames;
+
+    const names = new Set<string>();
+    const visit = (node: ts.Node) => {
+      if (
+        (ts.isPropertySignature(node) ||
+          ts.isMethodSignature(node) ||
+          ts.isPropertyDeclaration(node) ||
+          ts.isMethodDeclaration(node) ||
+          ts.isGetAccessorDeclaration(node) ||
+          ts.isSetAccessorDeclaration(node)) &&
+        ts.isIdentifier(node.name)
+      ) {
+        names.add(node.name.text);
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    const figmaGlobals = program.getSourceFile(FIGMA_GLOBALS_FILE);
+    if (figmaGlobals) visit(figmaGlobals);
+    this.figmaMemberNames = names;
+    return names;
+  }
+
   /**
    * Create TypeScript program with Figma type definitions
    */
@@ -149,7 +476,17 @@ export class TypeScriptValidator {
       );
     }
 
-    files.set("figma-globals.d.ts", figmaGlobals);
+    files.set(FIGMA_GLOBALS_FILE, figmaGlobals);
+    const tokenRuntimePath = path.resolve(
+      process.cwd(),
+      "type-assets/token-runtime.d.ts",
+    );
+    files.set(
+      TOKEN_RUNTIME_FILE,
+      fs.existsSync(tokenRuntimePath)
+        ? fs.readFileSync(tokenRuntimePath, "utf-8")
+        : "",
+    );
     files.set(fileName, codeString);
 
     // Promise와 기본 타입 정의 추가
@@ -232,7 +569,7 @@ interface PromiseLike<T> {
     };
 
     return ts.createProgram(
-      ["promise.d.ts", "figma-globals.d.ts", fileName],
+      ["promise.d.ts", FIGMA_GLOBALS_FILE, TOKEN_RUNTIME_FILE, fileName],
       this.compilerOptions,
       host,
     );
@@ -281,12 +618,6 @@ interface PromiseLike<T> {
         if (colorError) errors.push(colorError);
       }
 
-      // Check for Figma API patterns
-      if (ts.isPropertyAccessExpression(node)) {
-        const figmaError = this.validateFigmaApiUsage(node, sourceFile);
-        if (figmaError) errors.push(figmaError);
-      }
-
       ts.forEachChild(node, visit);
     };
 
@@ -366,88 +697,6 @@ interface PromiseLike<T> {
     return null;
   }
 
-  /**
-   * Validate Figma API usage patterns
-   */
-  private validateFigmaApiUsage(
-    node: ts.PropertyAccessExpression,
-    sourceFile: ts.SourceFile,
-  ): ValidationError | null {
-    if (ts.isIdentifier(node.expression) && node.expression.text === "figma") {
-      const methodName = node.name.text;
-
-      // Extended Figma API method checks
-      const validMethods = [
-        "currentPage",
-        "root",
-        "viewport",
-        "mixed",
-        "ui",
-        "clientStorage",
-        "parameters",
-        "teamLibrary",
-        "createFrame",
-        "createRectangle",
-        "createText",
-        "createEllipse",
-        "createLine",
-        "createPolygon",
-        "createStar",
-        "createVector",
-        "createGroup",
-        "createSlice",
-        "createComponent",
-        "createComponentSet",
-        "createInstance",
-        "createBooleanOperation",
-        "createPage",
-        "closePlugin",
-        "notify",
-        "showUI",
-        "importComponentByKeyAsync",
-        "importStyleByKeyAsync",
-        "importComponentSetByKeyAsync",
-        "getLocalPaintStyles",
-        "getLocalTextStyles",
-        "getLocalEffectStyles",
-        "getLocalGridStyles",
-        "createPaintStyle",
-        "createTextStyle",
-        "createEffectStyle",
-        "createGridStyle",
-        "getNodeById",
-        "getNodeByIdAsync",
-        "getStyleById",
-        "loadFontAsync",
-        "listAvailableFontsAsync",
-        "exportAsync",
-        "getImageAsync",
-        "loadAsync",
-        "saveAsync",
-        "createImage",
-        "createImagePaint",
-        "createSolidPaint",
-        "createGradientPaint",
-        "variables",
-        "createVariable",
-        "createVariableCollection",
-      ];
-
-      if (!validMethods.includes(methodName)) {
-        return {
-          type: "FIGMA_API",
-          message: `Unknown Figma API method: figma.${methodName}`,
-          line:
-            sourceFile.getLineAndCharacterOfPosition(node.getStart()).line + 1,
-          suggestion: `Check Figma Plugin API documentation for correct method name. Common methods include: createFrame, createRectangle, createText, importComponentByKeyAsync`,
-          code: node.getText().substring(0, 100),
-        };
-      }
-    }
-
-    return null;
-  }
-
   /**
    * Check if a TypeScript error should be ignored
    */
@@ -480,6 +729,9 @@ interface PromiseLike<T> {
       /Type '.*?' must have a '\[Symbol\.iterator\]\(\)' method that returns an iterator/,
       /Property '\[Symbol\.iterator\]' is missing in type/,
       /Type 'unknown' must have a '\[Symbol\.iterator\]\(\)' method/,
+
+      // 생성 코드는 플러그인 샌드박스에서 async 함수 본문으로 실행 (return executeCode();)
+      /A 'return' statement can only be used within a function body/,
     ];
 
     return ignoredPatterns.some((pattern) => pattern.test(message));
@@ -568,6 +820,12 @@ interface PromiseLike<T> {
   }
 }
 
+/**
+ * TODO ID → 생성 코드의 라벨 이름 (todo_1 → TODO_1)
+ */
+export const getTodoLabel = (todoId: string): string =>
+  todoId.toUpperCase().replace(/[^A-Z0-9_$]/g, "_");
+
 // Type definitions for validation results
 export interface ValidationResult {
   success: boolean;
@@ -593,3 +851,27 @@ export interface ValidationError {
 export interface ValidationWarning {
   message: string;
 }
+
+export type FigmaDocumentAccess = "full" | "dynamic-page";
+
+export interface FigmaApiUsageReport {
+  validCalls: string[];
+  invalidCalls: string[];
+  deprecatedUsage: string[];
+  asyncMisuse: string[];
+  performanceIssues: string[];
+}
+
+export type TodoBlockStatus =
+  | "implemented"
+  | "missing"
+  | "empty"
+  | "comment_only";
+
+export interface TodoBlockInfo {
+  todoId: string;
+  label: string;
+  codeLines: [number, number];
+  status: TodoBlockStatus;
+  implemented: boolean;
+}
@@ -0,0 +1,341 @@
+import {
+  BaseMessage,
+  mapChatMessagesToStoredMessages,
+  mapStoredMessagesToChatMessages,
+} from "@langchain/core/messages";
+import { randomUUID } from "crypto";
+import fs from "fs/promises";
+import path from "path";
+
+import { FigmaCodeWorkflowState } from "../types/workflow-types";
+
+// 메모리 저장소에 유지할 최대 실행 수 (오래된 실행부터 제거)
+const MAX_MEMORY_RUNS = 100;
+
+export interface WorkflowRunSnapshot {
+  runId: string;
+  // stepHistory 길이 (0은 시작 상태)
+  version: number;
+  step: string;
+  createdAt: number;
+  state: FigmaCodeWorkflowState;
+}
+
+export interface WorkflowRunSummary {
+  runId: string;
+  createdAt: number;
+  updatedAt: number;
+  latestVersion: number;
+  steps: string[];
+}
+
+/**
+ * 워크플로우 실행 상태 저장소
+ * 스텝마다 stepHistory 기준 버전 스냅샷을 남겨 특정 시점부터 다시 실행 가능
+ */
+export interface WorkflowRunStore {
+  createRun(state: FigmaCodeWorkflowState): Promise<WorkflowRunSnapshot>;
+  saveSnapshot(
+    runId: string,
+    state: FigmaCodeWorkflowState,
+  ): Promise<WorkflowRunSnapshot>;
+  // version을 생략하면 최신 스냅샷
+  getSnapshot(
+    runId: string,
+    version?: number,
+  ): Promise<WorkflowRunSnapshot | null>;
+  getRun(runId: string): Promise<WorkflowRunSummary | null>;
+  deleteRun(runId: string): Promise<void>;
+}
+
+/**
+ * Map과 LangChain 메시지를 보존하는 상태 직렬화
+ * (todoImplementation, parentChildMap 등은 JSON.stringify 시 {}가 됨)
+ */
+export const serializeWorkflowState = (state: FigmaCodeWorkflowState): string =>
+  JSON.stringify(
+    {
+      ...state,
+      messages: mapChatMessagesToStoredMessages(
+        (state.messages ?? []).filter(
+          (message): message is BaseMessage =>
+            typeof message?._getType === "function",
+        ),
+      ),
+    },
+    (_key, value) =>
+      value instanceof Map
+        ? { __type: "Map", entries: Array.from(value.entries()) }
+        : value,
+  );
+
+export const deserializeWorkflowState = (
+  serialized: string,
+): FigmaCodeWorkflowState => {
+  const state = JSON.parse(serialized, (_key, value) =>
+    value?.__type === "Map" && Array.isArray(value.entries)
+      ? new Map(value.entries)
+      : value,
+  );
+  return {
+    ...state,
+    messages: mapStoredMessagesToChatMessages(state.messages ?? []),
+  };
+};
+
+const getVersion = (state: FigmaCodeWorkflowState) =>
+  state.stepHistory?.length ?? 0;
+
+const getLastStep = (state: FigmaCodeWorkflowState) =>
+  state.stepHistory?.[state.stepHistory.length - 1] ?? "start";
+
+interface StoredSnapshot {
+  version: number;
+  step: string;
+  createdAt: number;
+  state: string;
+}
+
+interface StoredRun {
+  runId: string;
+  createdAt: number;
+  updatedAt: number;
+  snapshots: StoredSnapshot[];
+}
+
+const toStoredSnapshot = (state: FigmaCodeWorkflowState): StoredSnapshot => ({
+  version: getVersion(state),
+  step: getLastStep(state),
+  createdAt: Date.now(),
+  state: serializeWorkflowState(state),
+});
+
+const toSnapshot = (
+  runId: string,
+  stored: StoredSnapshot,
+): WorkflowRunSnapshot => ({
+  runId,
+  version: stored.version,
+  step: stored.step,
+  createdAt: stored.createdAt,
+  state: deserializeWorkflowState(stored.state),
+});
+
+const toSummary = (run: StoredRun): WorkflowRunSummary => ({
+  runId: run.runId,
+  createdAt: run.createdAt,
+  updatedAt: run.updatedAt,
+  latestVersion: run.snapshots[run.snapshots.length - 1]?.version ?? 0,
+  steps: run.snapshots.map((snapshot) => snapshot.step),
+});
+
+// 같은 버전을 다시 저장하면(이전 버전에서 재개) 그 이후 스냅샷은 버림
+const appendSnapshot = (run: StoredRun, snapshot: StoredSnapshot) => {
+  run.snapshots = run.snapshots.filter(
+    (existing) => existing.version < snapshot.version,
+  );
+  run.snapshots.push(snapshot);
+  run.updatedAt = snapshot.createdAt;
+};
+
+const findSnapshot = (run: StoredRun, version?: number) =>
+  version === undefined
+    ? run.snapshots[run.snapshots.length - 1]
+    : run.snapshots.find((snapshot) => snapshot.version === version);
+
+/**
+ * 프로세스 메모리 저장소 (개발 서버 재시작 시 초기화)
+ */
+export class InMemoryWorkflowRunStore implements WorkflowRunStore {
+  private runs = new Map<string, StoredRun>();
+
+  async createRun(state: FigmaCodeWorkflowState) {
+    const runId = randomUUID();
+    const snapshot = toStoredSnapshot(state);
+    this.runs.set(runId, {
+      runId,
+      createdAt: snapshot.createdAt,
+      updatedAt: snapshot.createdAt,
+      snapshots: [snapshot],
+    });
+    this.evictOldRuns();
+    return toSnapshot(runId, snapshot);
+  }
+
+  async saveSnapshot(runId: string, state: FigmaCodeWorkflowState) {
+    const run = this.runs.get(runId);
+    if (!run) {
+      throw new Error(`워크플로우 실행을 찾을 수 없습니다: ${runId}`);
+    }
+    const snapshot = toStoredSnapshot(state);
+    appendSnapshot(run, snapshot);
+    return toSnapshot(runId, snapshot);
+  }
+
+  async getSnapshot(runId: string, version?: number) {
+    const run = this.runs.get(runId);
+    const snapshot = run && findSnapshot(run, version);
+    return snapshot ? toSnapshot(runId, snapshot) : null;
+  }
+
+  async getRun(runId: string) {
+    const run = this.runs.get(runId);
+    return run ? toSummary(run) : null;
+  }
+
+  async deleteRun(runId: string) {
+    this.runs.delete(runId);
+  }
+
+  private evictOldRuns() {
+    if (this.runs.size <= MAX_MEMORY_RUNS) return;
+    const oldest = [...this.runs.values()]
+      .sort((a, b) => a.updatedAt - b.updatedAt)
+      .slice(0, this.runs.size - MAX_MEMORY_RUNS);
+    oldest.forEach((run) => this.runs.delete(run.runId));
+  }
+}
+
+/**
+ * 파일 저장소: <directory>/<runId>/<version>.json 스냅샷 + run.json 메타
+ */
+export class FileWorkflowRunStore implements WorkflowRunStore {
+  constructor(private directory: string) {}
+
+  async createRun(state: FigmaCodeWorkflowState) {
+    const runId = randomUUID();
+    const snapshot = toStoredSnapshot(state);
+    await fs.mkdir(this.getRunDirectory(runId), { recursive: true });
+    await this.writeSnapshot(runId, snapshot);
+    await this.writeMeta({
+      runId,
+      createdAt: snapshot.createdAt,
+      updatedAt: snapshot.createdAt,
+      snapshots: [{ ...snapshot, state: "" }],
+    });
+    return toSnapshot(runId, snapshot);
+  }
+
+  async saveSnapshot(runId: string, state: FigmaCodeWorkflowState) {
+    const meta = await this.readMeta(runId);
+    if (!meta) {
+      throw new Error(`워크플로우 실행을 찾을 수 없습니다: ${runId}`);
+    }
+    const snapshot = toStoredSnapshot(state);
+    const discarded = meta.snapshots.filter(
+      (existing) => existing.version >= snapshot.version,
+    );
+    appendSnapshot(meta, { ...snapshot, state: "" });
+
+    await Promise.all(
+      discarded
+        .filter((existing) => existing.version !== snapshot.version)
+        .map((existing) =>
+          fs.rm(this.getSnapshotPath(runId, existing.version), {
+            force: true,
+          }),
+        ),
+    );
+    await this.writeSnapshot(runId, snapshot);
+    await this.writeMeta(meta);
+    return toSnapshot(runId, snapshot);
+  }
+
+  async getSnapshot(runId: string, version?: number) {
+    const meta = await this.readMeta(runId);
+    const entry = meta && findSnapshot(meta, version);
+    if (!entry) return null;
+    try {
+      const stored: StoredSnapshot = JSON.parse(
+        await fs.readFile(this.getSnapshotPath(runId, entry.version), "utf-8"),
+      );
+      return toSnapshot(runId, stored);
+    } catch (error) {
+      console.warn(`⚠️ 스냅샷 읽기 실패 (${runId}@${entry.version}):`, error);
+      return null;
+    }
+  }
+
+  async getRun(runId: string) {
+    const meta = await this.readMeta(runId);
+    return meta ? toSummary(meta) : null;
+  }
+
+  async deleteRun(runId: string) {
+    await fs.rm(this.getRunDirectory(runId), { recursive: true, force: true });
+  }
+
+  // runId는 요청으로 들어오므로 경로 이동 문자를 허용하지 않음
+  private getRunDirectory(runId: string) {
+    if (!/^[\w-]+$/.test(runId)) {
+      throw new Error(`잘못된 runId입니다: ${runId}`);
+    }
+    return path.join(this.directory, runId);
+  }
+
+  private getSnapshotPath(runId: string, version: number) {
+    return path.join(this.getRunDirectory(runId), `${version}.json`);
+  }
+
+  private async writeSnapshot(runId: string, snapshot: StoredSnapshot) {
+    await fs.writeFile(
+      this.getSnapshotPath(runId, snapshot.version),
+      JSON.stringify(snapshot),
+    );
+  }
+
+  private async readMeta(runId: string): Promise<StoredRun | null> {
+    try {
+      const content = await fs.readFile(
+        path.join(this.getRunDirectory(runId), "run.json"),
+        "utf-8",
+      );
+      return JSON.parse(content);
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private async writeMeta(meta: StoredRun) {
+    await fs.writeFile(
+      path.join(this.getRunDirectory(meta.runId), "run.json"),
+      JSON.stringify(meta),
+    );
+  }
+}
+
+// 개발 서버 HMR 시에도 같은 저장소를 유지
+const globalForRunStore = globalThis as unknown as {
+  workflowRunStore?: WorkflowRunStore;
+};
+
+/**
+ * 환경 변수로 저장소 선택
+ * - WORKFLOW_RUN_STORE=file: WORKFLOW_RUN_STORE_DIR (기본 .workflow-runs)
+ * - 그 외: 메모리
+ */
+export const getWorkflowRunStore = (): WorkflowRunStore => {
+  if (!globalForRunStore.workflowRunStore) {
+    globalForRunStore.workflowRunStore =
+      process.env.WORKFLOW_RUN_STORE === "file"
+        ? new FileWorkflowRunStore(
+            path.resolve(
+              process.cwd(),
+              process.env.WORKFLOW_RUN_STORE_DIR || ".workflow-runs",
+            ),
+          )
+        : new InMemoryWorkflowRunStore();
+  }
+  return globalForRunStore.workflowRunStore;
+};
+
+/**
+ * 클라이언트 응답용 상태 (이미지와 LLM 메시지는 서버에만 보관)
+ */
+export const toClientWorkflowState = (
+  state: FigmaCodeWorkflowState,
+): FigmaCodeWorkflowState => ({
+  ...state,
+  figmaContext: undefined,
+  messages: [],
+});
@@ -0,0 +1,323 @@
+import fs from "fs";
+import path from "path";
+
+import { isLlmProviderName } from "../ai/llm-provider";
+import { FontRequirements, TokenSource } from "../types/workflow-types";
+import {
+  WorkspaceComponentLibrary,
+  WorkspaceConfig,
+  WorkspaceFont,
+  WorkspaceTokenCollection,
+  WorkspaceTokenConvention,
+  WorkspaceTokenConventions,
+} from "../types/workspace-types";
+
+export const DEFAULT_WORKSPACE_ID = "default";
+
+// 설정 파일이 없을 때 사용하는 기본 워크스페이스 (기존 라이브러리 기준)
+export const DEFAULT_WORKSPACE_CONFIG: WorkspaceConfig = {
+  id: DEFAULT_WORKSPACE_ID,
+  name: "기본 워크스페이스",
+  tokenCollections: [
+    {
+      constantName: "THEME_COLLECTION_KEY",
+      key: "39e0c2b9cd40942595f053c590c74e1123f4e317",
+      description: "semantic 색상 토큰",
+    },
+    {
+      constantName: "RADIUS_COLLECTION_KEY",
+      key: "8e172dafc41cff80fc32c6ef5b2519ea51091ff7",
+      description: "radius 토큰",
+    },
+    {
+      constantName: "PRIMITIVE_COLLECTION_KEY",
+      key: "d6673925cad31c3f25349c1469ca4288495979e2",
+      description: "space 등 primitive 토큰",
+    },
+  ],
+  tokenConventions: {
+    spacing: { prefix: "space/", collection: "PRIMITIVE_COLLECTION_KEY" },
+    radius: { prefix: "radius/", collection: "RADIUS_COLLECTION_KEY" },
+    color: { prefix: "semantic/", collection: "THEME_COLLECTION_KEY" },
+  },
+  defaultFonts: [
+    { family: "Pretendard", style: "Regular" },
+    { family: "Pretendard", style: "Bold" },
+  ],
+  componentLibraries: [],
+  skipClarifyingQuestions: false,
+  source: "builtin",
+};
+
+// 파일 이름과 생성 코드 상수로 쓰이므로 허용 문자 제한
+const WORKSPACE_ID_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+const CONSTANT_NAME_PATTERN = /^[A-Z_][A-Z0-9_]*$/;
+
+// JSON 설정 파일 위치 (*.example.json은 형식 예시라 로드하지 않음)
+const getWorkspaceDirectory = () =>
+  path.resolve(
+    process.cwd(),
+    process.env.WORKSPACE_CONFIG_DIR || "design-system/workspaces",
+  );
+
+const fileWorkspaces = new Map<string, WorkspaceConfig>();
+let filesLoaded = false;
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === "string" && value.trim().length > 0;
+
+const normalizeConvention = (
+  value: unknown,
+  fallback: WorkspaceTokenConvention,
+): WorkspaceTokenConvention => {
+  const convention = (value ?? {}) as Partial<WorkspaceTokenConvention>;
+  return {
+    prefix: isNonEmptyString(convention.prefix)
+      ? convention.prefix
+      : fallback.prefix,
+    collection: isNonEmptyString(convention.collection)
+      ? convention.collection
+      : fallback.collection,
+  };
+};
+
+/**
+ * 외부 입력(JSON 파일, API 요청)을 WorkspaceConfig로 검증/정규화
+ * 잘못된 값이면 이유를 담은 Error를 던짐
+ */
+export const normalizeWorkspaceConfig = (input: unknown): WorkspaceConfig => {
+  const raw = (input ?? {}) as Partial<WorkspaceConfig>;
+  if (!isNonEmptyString(raw.id) || !WORKSPACE_ID_PATTERN.test(raw.id)) {
+    throw new Error(`유효하지 않은 워크스페이스 id입니다: ${raw.id}`);
+  }
+
+  const tokenCollections: WorkspaceTokenCollection[] = (
+    Array.isArray(raw.tokenCollections) ? raw.tokenCollections : []
+  ).map((collection) => {
+    if (
+      !isNonEmptyString(collection?.constantName) ||
+      !CONSTANT_NAME_PATTERN.test(collection.constantName) ||
+      !isNonEmptyString(collection.key)
+    ) {
+      throw new Error(
+        `토큰 컬렉션에는 대문자 constantName과 key가 필요합니다: ${JSON.stringify(collection)}`,
+      );
+    }
+    return {
+      constantName: collection.constantName,
+      key: collection.key.trim(),
+      description: collection.description,
+    };
+  });
+
+  const defaults = DEFAULT_WORKSPACE_CONFIG.tokenConventions;
+  const conventions = (raw.tokenConventions ??
+    {}) as Partial<WorkspaceTokenConventions>;
+  const tokenConventions: WorkspaceTokenConventions = {
+    spacing: normalizeConvention(conventions.spacing, defaults.spacing),
+    radius: normalizeConvention(conventions.radius, defaults.radius),
+    color: normalizeConvention(conventions.color, defaults.color),
+  };
+
+  const constantNames = new Set(
+    tokenCollections.map(({ constantName }) => constantName),
+  );
+  Object.entries(tokenConventions).forEach(([kind, convention]) => {
+    if (!constantNames.has(convention.collection)) {
+      throw new Error(
+        `${kind} 토큰 컬렉션 '${convention.collection}'이 tokenCollections에 없습니다.`,
+      );
+    }
+  });
+
+  const defaultFonts: WorkspaceFont[] = (
+    Array.isArray(raw.defaultFonts) ? raw.defaultFonts : []
+  ).filter(
+    (font): font is WorkspaceFont =>
+      isNonEmptyString(font?.family) && isNonEmptyString(font?.style),
+  );
+
+  const componentLibraries: WorkspaceComponentLibrary[] = (
+    Array.isArray(raw.componentLibraries) ? raw.componentLibraries : []
+  ).filter((library): library is WorkspaceComponentLibrary =>
+    isNonEmptyString(library?.name),
+  );
+
+  return {
+    id: raw.id,
+    name: isNonEmptyString(raw.name) ? raw.name : raw.id,
+    description: raw.description,
+    tokenCollections,
+    tokenConventions,
+    defaultFonts:
+      defaultFonts.length > 0
+        ? defaultFonts
+        : DEFAULT_WORKSPACE_CONFIG.defaultFonts,
+    componentLibraries,
+    skipClarifyingQuestions: raw.skipClarifyingQuestions === true,
+    llmProvider: isLlmProviderName(raw.llmProvider)
+      ? raw.llmProvider
+      : undefined,
+    source: "file",
+    updatedAt: typeof raw.updatedAt === "number" ? raw.updatedAt : undefined,
+  };
+};
+
+/**
+ * 저장소의 워크스페이스 JSON 파일을 다시 읽음
+ */
+export const loadWorkspaceConfigFiles = () => {
+  fileWorkspaces.clear();
+  const directory = getWorkspaceDirectory();
+  if (fs.existsSync(directory)) {
+    fs.readdirSync(directory)
+      .filter(
+        (file) => file.endsWith(".json") && !file.endsWith(".example.json"),
+      )
+      .sort()
+      .forEach((file) => {
+        const filePath = path.join(directory, file);
+        try {
+          const workspace = normalizeWorkspaceConfig(
+            JSON.parse(fs.readFileSync(filePath, "utf-8")),
+          );
+          fileWorkspaces.set(workspace.id, workspace);
+        } catch (error) {
+          console.warn(
+            `⚠️ 워크스페이스 설정을 읽지 못했습니다: ${filePath}`,
+            error,
+          );
+        }
+      });
+  }
+  filesLoaded = true;
+};
+
+const ensureFilesLoaded = () => {
+  if (!filesLoaded) {
+    loadWorkspaceConfigFiles();
+  }
+};
+
+export const listWorkspaceConfigs = (): WorkspaceConfig[] => {
+  ensureFilesLoaded();
+  const workspaces = [...fileWorkspaces.values()];
+  // 같은 id의 파일이 있으면 기본 워크스페이스를 덮어씀
+  return fileWorkspaces.has(DEFAULT_WORKSPACE_ID)
+    ? workspaces
+    : [DEFAULT_WORKSPACE_CONFIG, ...workspaces];
+};
+
+/**
+ * id로 워크스페이스 조회 (없거나 지정하지 않으면 기본 워크스페이스)
+ */
+export const getWorkspaceConfig = (id?: string | null): WorkspaceConfig => {
+  ensureFilesLoaded();
+  return (
+    (id ? fileWorkspaces.get(id) : undefined) ??
+    fileWorkspaces.get(DEFAULT_WORKSPACE_ID) ??
+    DEFAULT_WORKSPACE_CONFIG
+  );
+};
+
+export const saveWorkspaceConfig = (input: unknown): WorkspaceConfig => {
+  ensureFilesLoaded();
+  const workspace = {
+    ...normalizeWorkspaceConfig(input),
+    updatedAt: Date.now(),
+  };
+  const directory = getWorkspaceDirectory();
+  fs.mkdirSync(directory, { recursive: true });
+  fs.writeFileSync(
+    path.join(directory, `${workspace.id}.json`),
+    `${JSON.stringify({ ...workspace, source: undefined }, null, 2)}\n`,
+  );
+  fileWorkspaces.set(workspace.id, workspace);
+  return workspace;
+};
+
+/**
+ * 파일로 저장된 워크스페이스 삭제 (기본 워크스페이스는 파일만 제거되고 내장값으로 돌아감)
+ */
+export const deleteWorkspaceConfig = (id: string): boolean => {
+  ensureFilesLoaded();
+  if (!WORKSPACE_ID_PATTERN.test(id) || !fileWorkspaces.has(id)) {
+    return false;
+  }
+  fs.rmSync(path.join(getWorkspaceDirectory(), `${id}.json`), {
+    force: true,
+  });
+  fileWorkspaces.delete(id);
+  return true;
+};
+
+export const getTokenCollectionKey = (
+  workspace: WorkspaceConfig,
+  constantName: string,
+): string | undefined =>
+  workspace.tokenCollections.find(
+    (collection) => collection.constantName === constantName,
+  )?.key;
+
+/**
+ * 플러그인 tokens 런타임에 전달할 토큰 접두사별 컬렉션 key
+ */
+export const getWorkspaceTokenSources = (
+  workspace: WorkspaceConfig,
+): TokenSource[] =>
+  Object.values(workspace.tokenConventions).flatMap(
+    ({ prefix, collection }) => {
+      const collectionKey = getTokenCollectionKey(workspace, collection);
+      return collectionKey ? [{ prefix, collectionKey }] : [];
+    },
+  );
+
+/**
+ * 플러그인이 실행 전에 미리 로드할 폰트 (첫 번째 기본 폰트를 대체 폰트로 사용)
+ */
+export const getWorkspaceFontRequirements = (
+  workspace: WorkspaceConfig,
+  textStyleKeys: string[] = [],
+): FontRequirements => ({
+  fonts: workspace.defaultFonts,
+  textStyleKeys,
+  fallbackFont: workspace.defaultFonts[0],
+});
+
+/**
+ * Planning/Generation 프롬프트용 워크스페이스 토큰 규칙 요약
+ */
+export const summarizeWorkspaceConfig = (workspace: WorkspaceConfig) => {
+  const { spacing, radius, color } = workspace.tokenConventions;
+  const sections = [
+    `=== 워크스페이스 토큰 규칙 (${workspace.name}) ===`,
+    `토큰 컬렉션:\n${workspace.tokenCollections
+      .map(
+        ({ constantName, key, description }) =>
+          `- ${constantName} = "${key}"${description ? ` (${description})` : ""}`,
+      )
+      .join("\n")}`,
+    [
+      "토큰 이름 규칙:",
+      `- spacing: "${spacing.prefix}..." (${spacing.collection})`,
+      `- radius: "${radius.prefix}..." (${radius.collection})`,
+      `- color: "${color.prefix}..." (${color.collection})`,
+    ].join("\n"),
+    `기본 폰트: ${workspace.defaultFonts
+      .map(({ family, style }) => `${family} ${style}`)
+      .join(", ")}`,
+  ];
+
+  if (workspace.componentLibraries.length > 0) {
+    sections.push(
+      `컴포넌트 라이브러리:\n${workspace.componentLibraries
+        .map(
+          ({ name, description }) =>
+            `- ${name}${description ? ` (${description})` : ""}`,
+        )
+        .join("\n")}`,
+    );
+  }
+
+  return sections.join("\n");
+};
@@ -0,0 +1,98 @@
+// 플러그인 EXECUTE_OPERATIONS로 실행하는 JSON operation 프로토콜
+// (apps/figma-plugin src/types/types.d.ts, run-design-operations.ts와 동일한 형태)
+
+// 같은 plan의 이전 operation이 만들거나 대상으로 한 노드 ({ ref: operation id })
+export interface OperationNodeRef {
+  ref: string;
+}
+
+// 기존 노드 ID 또는 operation 참조
+export type OperationTarget = string | OperationNodeRef;
+
+interface OperationBase {
+  // plan 안에서 고유한 ID (다른 operation의 ref 대상)
+  id: string;
+  // 이 operation이 구현하는 TODO
+  todoId?: string;
+}
+
+export interface CreateNodeOperation extends OperationBase {
+  op: "createNode";
+  nodeType: "FRAME" | "TEXT" | "INSTANCE";
+  name?: string;
+  // INSTANCE: 컴포넌트 또는 컴포넌트 세트 key
+  componentKey?: string;
+}
+
+export interface SetPropsOperation extends OperationBase {
+  op: "setProps";
+  target: OperationTarget;
+  // width/height는 resize, 문자열 토큰 경로는 변수 바인딩, effectStyleKey는 effect 스타일
+  props: Record<string, unknown>;
+}
+
+export interface SetVariantOperation extends OperationBase {
+  op: "setVariant";
+  target: OperationTarget;
+  // "Label" 처럼 ID 접미사 없는 이름도 허용
+  properties: Record<string, string | boolean>;
+}
+
+export interface BindVariableOperation extends OperationBase {
+  op: "bindVariable";
+  target: OperationTarget;
+  field: string;
+  token: string;
+}
+
+export interface InsertOperation extends OperationBase {
+  op: "insert";
+  target: OperationTarget;
+  // 생략 시 현재 페이지
+  parent?: OperationTarget;
+  index?: number;
+}
+
+export interface MoveOperation extends OperationBase {
+  op: "move";
+  target: OperationTarget;
+  // 생략 시 현재 부모 안에서 순서만 변경
+  parent?: OperationTarget;
+  index?: number;
+}
+
+export interface DeleteOperation extends OperationBase {
+  op: "delete";
+  target: OperationTarget;
+}
+
+export interface SetTextOperation extends OperationBase {
+  op: "setText";
+  target: OperationTarget;
+  characters?: string;
+  textStyleKey?: string;
+  fontName?: { family: string; style: string };
+}
+
+export type DesignOperation =
+  | CreateNodeOperation
+  | SetPropsOperation
+  | SetVariantOperation
+  | BindVariableOperation
+  | InsertOperation
+  | MoveOperation
+  | DeleteOperation
+  | SetTextOperation;
+
+export interface OperationResult {
+  id: string;
+  op: DesignOperation["op"];
+  todoId?: string;
+  // skipped: 참조한 operation이 실패해 실행하지 않음
+  status: "success" | "failed" | "skipped";
+  nodeId: string | null;
+  error?: string;
+}
+
+// 플러그인에서 실행하는 생성 코드 또는 operation 목록
+export type ExecutionProgram = string | DesignOperation[];
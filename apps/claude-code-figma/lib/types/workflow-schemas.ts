@@ -0,0 +1,385 @@
+// ============================================
+// Workflow Structured Output Schemas
+// ============================================
+// workflow-types.ts의 LLM 응답 타입에 대응하는 런타임 스키마
+// ObjectSchema<T>가 모든 키 선언을 강제하므로 타입이 바뀌면 여기서 컴파일 오류가 남
+
+import { JsonSchema, ObjectSchema } from "../services/json-schema";
+import {
+  BlueprintDataContract,
+  BlueprintFlow,
+  BlueprintScreen,
+  ClarifyingQuestion,
+  DesignResult,
+  PlanningResult,
+  ProductBlueprint,
+  ScenarioSpec,
+  TodoDesign,
+  TodoItem,
+} from "./workflow-types";
+
+const stringSchema: JsonSchema = { type: "string" };
+const numberSchema: JsonSchema = { type: "number" };
+const stringArray: JsonSchema = { type: "array", items: stringSchema };
+// 16 또는 "space/200"처럼 숫자와 토큰 이름을 모두 허용
+const tokenValueSchema: JsonSchema = { type: ["number", "string"] };
+const stringRecord: JsonSchema = {
+  type: "object",
+  additionalProperties: stringSchema,
+};
+
+const enumSchema = <T extends string>(values: T[]): JsonSchema => ({
+  type: "string",
+  enum: values,
+});
+
+// ============================================
+// Blueprint
+// ============================================
+
+// requiredContext는 워크플로우가 채우므로 모델은 questions만 응답
+export type ProductBlueprintOutput = Omit<
+  ProductBlueprint,
+  "requiredContext"
+> & {
+  questions?: ClarifyingQuestion[];
+};
+
+const blueprintScreenSchema: ObjectSchema<BlueprintScreen> = {
+  type: "object",
+  required: ["id", "name", "intent", "type", "relatedNodeIds"],
+  properties: {
+    id: stringSchema,
+    name: stringSchema,
+    intent: stringSchema,
+    description: stringSchema,
+    type: enumSchema<BlueprintScreen["type"]>(["existing", "new", "modified"]),
+    relatedNodeIds: stringArray,
+  },
+};
+
+const blueprintFlowSchema: ObjectSchema<BlueprintFlow> = {
+  type: "object",
+  required: ["id", "name", "steps", "primaryScreenIds"],
+  properties: {
+    id: stringSchema,
+    name: stringSchema,
+    description: stringSchema,
+    steps: { ...stringArray, minItems: 1 },
+    primaryScreenIds: stringArray,
+  },
+};
+
+const dataFieldSchema: ObjectSchema<BlueprintDataContract["fields"][number]> = {
+  type: "object",
+  required: ["name", "type", "required"],
+  properties: {
+    name: stringSchema,
+    type: stringSchema,
+    required: { type: "boolean" },
+    description: stringSchema,
+  },
+};
+
+const blueprintDataContractSchema: ObjectSchema<BlueprintDataContract> = {
+  type: "object",
+  required: ["id", "name", "dataSources", "fields"],
+  properties: {
+    id: stringSchema,
+    name: stringSchema,
+    description: stringSchema,
+    dataSources: stringArray,
+    fields: { type: "array", items: dataFieldSchema },
+  },
+};
+
+const clarifyingQuestionSchema: ObjectSchema<ClarifyingQuestion> = {
+  type: "object",
+  required: ["id", "question", "kind", "assumption"],
+  properties: {
+    id: stringSchema,
+    question: stringSchema,
+    kind: enumSchema<ClarifyingQuestion["kind"]>(["text", "choice", "node"]),
+    options: stringArray,
+    assumption: stringSchema,
+  },
+};
+
+export const productBlueprintSchema: ObjectSchema<ProductBlueprintOutput> = {
+  type: "object",
+  required: ["summary", "screens", "flows", "dataContracts"],
+  properties: {
+    summary: stringSchema,
+    screens: { type: "array", minItems: 1, items: blueprintScreenSchema },
+    flows: { type: "array", items: blueprintFlowSchema },
+    dataContracts: { type: "array", items: blueprintDataContractSchema },
+    questions: { type: "array", maxItems: 5, items: clarifyingQuestionSchema },
+  },
+};
+
+// ============================================
+// Planning
+// ============================================
+
+const scenarioStrategySchema = enumSchema<ScenarioSpec["strategy"]>([
+  "variant",
+  "duplicate_page",
+  "hybrid",
+]);
+
+const scenarioSchema: ObjectSchema<ScenarioSpec> = {
+  type: "object",
+  required: ["id", "name", "strategy"],
+  properties: {
+    id: stringSchema,
+    name: stringSchema,
+    description: stringSchema,
+    strategy: scenarioStrategySchema,
+    baseNodeId: stringSchema,
+    variantOf: stringSchema,
+    pageName: stringSchema,
+    frameName: stringSchema,
+  },
+};
+
+const todoItemSchema: ObjectSchema<TodoItem> = {
+  type: "object",
+  required: ["id", "order", "task", "type"],
+  properties: {
+    id: stringSchema,
+    order: { type: "integer" },
+    task: stringSchema,
+    type: enumSchema<TodoItem["type"]>([
+      "check",
+      "find",
+      "create",
+      "modify",
+      "delete",
+      "style",
+      "validate",
+    ]),
+    targetNode: {
+      type: "string",
+      description: "deprecated: targetNodeId를 사용",
+    },
+    targetNodeId: {
+      type: "string",
+      description: "수정/삭제할 기존 노드 ID (선택된 노드 구조의 ID)",
+    },
+    scenarioId: stringSchema,
+    expectedVariantProps: stringRecord,
+    dependencies: stringArray,
+  },
+};
+
+type PlanningScope = PlanningResult["scope"];
+
+const targetNodeSchema: ObjectSchema<
+  NonNullable<PlanningScope["targetNodes"]>[number]
+> = {
+  type: "object",
+  required: ["id", "name", "type", "action"],
+  properties: {
+    id: stringSchema,
+    name: stringSchema,
+    type: stringSchema,
+    action: enumSchema(["modify", "delete", "keep"]),
+  },
+};
+
+const scopeSchema: ObjectSchema<PlanningScope> = {
+  type: "object",
+  required: ["newComponents"],
+  properties: {
+    targetNodes: { type: "array", items: targetNodeSchema },
+    newComponents: stringArray,
+    reusableNodes: stringArray,
+  },
+};
+
+const riskSchema: ObjectSchema<PlanningResult["risks"][number]> = {
+  type: "object",
+  required: ["type", "description", "mitigation"],
+  properties: {
+    type: enumSchema(["data_loss", "breaking_change", "performance"]),
+    description: stringSchema,
+    mitigation: stringSchema,
+  },
+};
+
+export const planningResultSchema: ObjectSchema<PlanningResult> = {
+  type: "object",
+  required: ["intent", "strategy", "confidence", "scope", "todoList", "risks"],
+  properties: {
+    intent: stringSchema,
+    strategy: enumSchema<PlanningResult["strategy"]>([
+      "create",
+      "modify",
+      "hybrid",
+    ]),
+    confidence: { type: "number", description: "0~1" },
+    scenarioStrategy: scenarioStrategySchema,
+    scenarios: { type: "array", items: scenarioSchema },
+    defaultScenarioId: stringSchema,
+    scope: scopeSchema,
+    todoList: { type: "array", minItems: 1, items: todoItemSchema },
+    risks: { type: "array", items: riskSchema },
+    rollbackStrategy: stringSchema,
+  },
+};
+
+// ============================================
+// Design
+// ============================================
+
+type TodoDesignSpec = TodoDesign["design"];
+
+const componentSchema: ObjectSchema<NonNullable<TodoDesignSpec["component"]>> =
+  {
+    type: "object",
+    required: ["key", "name"],
+    properties: {
+      key: stringSchema,
+      name: stringSchema,
+      properties: {
+        type: "object",
+        description: "실제 Figma component properties (variant, size 등)",
+      },
+    },
+  };
+
+const layoutSchema: ObjectSchema<NonNullable<TodoDesignSpec["layout"]>> = {
+  type: "object",
+  properties: {
+    layoutMode: enumSchema(["NONE", "HORIZONTAL", "VERTICAL"]),
+    primaryAxisAlignItems: enumSchema([
+      "MIN",
+      "CENTER",
+      "MAX",
+      "SPACE_BETWEEN",
+    ]),
+    counterAxisAlignItems: enumSchema(["MIN", "CENTER", "MAX", "BASELINE"]),
+    primaryAxisSizingMode: enumSchema(["FIXED", "AUTO"]),
+    counterAxisSizingMode: enumSchema(["FIXED", "AUTO"]),
+    layoutSizingHorizontal: enumSchema(["FIXED", "HUG", "FILL"]),
+    layoutSizingVertical: enumSchema(["FIXED", "HUG", "FILL"]),
+    itemSpacing: tokenValueSchema,
+    paddingTop: tokenValueSchema,
+    paddingRight: tokenValueSchema,
+    paddingBottom: tokenValueSchema,
+    paddingLeft: tokenValueSchema,
+    width: numberSchema,
+    height: numberSchema,
+  },
+};
+
+const stylesSchema: ObjectSchema<NonNullable<TodoDesignSpec["styles"]>> = {
+  type: "object",
+  properties: {
+    textStyleName: stringSchema,
+    textStyleKey: stringSchema,
+    fills: stringSchema,
+    strokes: stringSchema,
+    effects: stringSchema,
+    cornerRadius: tokenValueSchema,
+  },
+};
+
+const parentSchema: ObjectSchema<NonNullable<TodoDesignSpec["parent"]>> = {
+  type: "object",
+  properties: {
+    todoId: stringSchema,
+    existingNodeId: stringSchema,
+    insertIndex: { type: "integer" },
+  },
+};
+
+const todoDesignSpecSchema: ObjectSchema<TodoDesignSpec> = {
+  type: "object",
+  required: ["nodeType", "nodeName"],
+  properties: {
+    nodeType: enumSchema<TodoDesignSpec["nodeType"]>([
+      "INSTANCE",
+      "FRAME",
+      "TEXT",
+      "GROUP",
+    ]),
+    nodeName: stringSchema,
+    description: stringSchema,
+    component: componentSchema,
+    layout: layoutSchema,
+    styles: stylesSchema,
+    textContent: stringSchema,
+    parent: parentSchema,
+    expectedVariantProps: stringRecord,
+  },
+};
+
+const todoDesignSchema: ObjectSchema<TodoDesign> = {
+  type: "object",
+  required: ["todoId", "task", "design"],
+  properties: {
+    todoId: stringSchema,
+    task: stringSchema,
+    targetNode: {
+      type: "string",
+      description: "deprecated: targetNodeId를 사용",
+    },
+    targetNodeId: stringSchema,
+    scenarioId: stringSchema,
+    design: todoDesignSpecSchema,
+  },
+};
+
+// parentChildMap은 JSON 객체로 받아 Map으로 변환, scenarioCoverage/scenarios는 워크플로우가 계산
+export type DesignResultOutput = {
+  todoDesigns: TodoDesign[];
+  metadata?: Omit<DesignResult["metadata"], "scenarioCoverage">;
+  dependencies?: {
+    executionOrder: string[];
+    parentChildMap?: Record<string, string[]>;
+  };
+};
+
+const designMetadataSchema: ObjectSchema<
+  NonNullable<DesignResultOutput["metadata"]>
+> = {
+  type: "object",
+  required: [
+    "designSystemComponents",
+    "customElements",
+    "complexityScore",
+    "estimatedRenderTime",
+  ],
+  properties: {
+    designSystemComponents: { type: "integer" },
+    customElements: { type: "integer" },
+    complexityScore: { type: "number", description: "1~10" },
+    estimatedRenderTime: numberSchema,
+  },
+};
+
+const designDependenciesSchema: ObjectSchema<
+  NonNullable<DesignResultOutput["dependencies"]>
+> = {
+  type: "object",
+  required: ["executionOrder"],
+  properties: {
+    executionOrder: stringArray,
+    parentChildMap: {
+      type: "object",
+      description: "부모 todoId → 자식 todoId 목록",
+      additionalProperties: stringArray,
+    },
+  },
+};
+
+export const designResultSchema: ObjectSchema<DesignResultOutput> = {
+  type: "object",
+  required: ["todoDesigns"],
+  properties: {
+    todoDesigns: { type: "array", minItems: 1, items: todoDesignSchema },
+    metadata: designMetadataSchema,
+    dependencies: designDependenciesSchema,
+  },
+};
@@ -3,6 +3,7 @@
 // ============================================
 
 import { FigmaContext } from "../figma/figma-client";
+import { DesignOperation, OperationResult } from "./operation-types";
 
 // ============================================
 // Scenario Types
@@ -64,6 +65,16 @@ export interface BlueprintDataContract {
   }>;
 }
 
+export interface ClarifyingQuestion {
+  id: string;
+  question: string;
+  // text: 자유 입력, choice: 선택지 칩, node: 캔버스에서 노드 선택
+  kind: "text" | "choice" | "node";
+  options?: string[];
+  // 답하지 않고 진행할 때 사용할 가정
+  assumption: string;
+}
+
 export interface RequestedContext {
   nodeIds: string[];
   assets: Array<{
@@ -77,7 +88,7 @@ export interface RequestedContext {
     id?: string;
     description: string;
   }>;
-  questions: string[];
+  questions: ClarifyingQuestion[];
 }
 
 export interface CollectedContext {
@@ -85,6 +96,7 @@ export interface CollectedContext {
   assets: Record<string, any> & {
     execution_report?: ExecutionReport | null;
   };
+  // ClarifyingQuestion.id → 답변
   answers: Record<string, string>;
 }
 
@@ -262,6 +274,26 @@ export interface TodoDesign {
   };
 }
 
+export interface DesignResult {
+  todoDesigns: TodoDesign[];
+  metadata: {
+    designSystemComponents: number;
+    customElements: number;
+    complexityScore: number;
+    estimatedRenderTime: number;
+    scenarioCoverage?: {
+      total: number;
+      strategies: Record<ScenarioLayoutStrategy, number>;
+    };
+  };
+  dependencies: {
+    executionOrder: string[];
+    // 부모 todoId → 자식 todoId 목록
+    parentChildMap: Map<string, string[]>;
+  };
+  scenarios?: ScenarioSpec[];
+}
+
 
 
 // ============================================
@@ -270,6 +302,12 @@ export interface TodoDesign {
 
 export interface GenerationResult {
   code: string;
+  // 실행 시 플러그인 tokens 런타임에 전달 (워크스페이스 토큰 규칙)
+  tokenSources?: TokenSource[];
+  // 실행 전에 플러그인이 미리 로드할 폰트 (워크스페이스 기본 폰트, 텍스트 스타일)
+  fontRequirements?: FontRequirements;
+  // 모든 TODO가 컴파일된 경우 code 대신 EXECUTE_OPERATIONS로 실행
+  operations?: DesignOperation[];
 
   metadata: {
     apiCalls: Array<{
@@ -297,6 +335,7 @@ export interface GenerationResult {
       todoId: string;
       codeLines: [number, number];
       implemented: boolean;
+      status?: "implemented" | "missing" | "empty" | "comment_only";
     }
   >;
 }
@@ -327,6 +366,8 @@ export interface ValidationResult {
     validCalls: string[];
     invalidCalls: string[];
     deprecatedUsage: string[];
+    // 동기 API(dynamic-page) 사용, await 누락 등
+    asyncMisuse: string[];
     performanceIssues: string[];
   };
 
@@ -391,6 +432,49 @@ export interface ExecutionReport {
   message?: string;
   error?: string;
   scenarios?: ScenarioSpec[];
+  rollback?: {
+    removedNodeIds: string[];
+    restoredNodeIds: string[];
+    failedNodeIds: string[];
+  };
+  policyViolations?: Array<{
+    policy: string;
+    message: string;
+  }>;
+  // tokens 런타임이 변수로 바인딩하지 못한 토큰
+  unresolvedTokens?: UnresolvedToken[];
+  // EXECUTE_OPERATIONS 실행 시 operation별 결과
+  operationResults?: OperationResult[];
+  // 문서에 없는 폰트를 대체한 내역
+  fontSubstitutions?: FontSubstitution[];
+}
+
+export interface UnresolvedToken {
+  token: string;
+  nodeId: string | null;
+  nodeName: string | null;
+  field: string;
+  reason: "not_found" | "type_mismatch" | "unsupported_field" | "bind_failed";
+  message?: string;
+}
+
+// 토큰 접두사(예: "space/")별로 먼저 검색할 라이브러리 변수 컬렉션
+export interface TokenSource {
+  prefix: string;
+  collectionKey: string;
+}
+
+export interface FontRequirements {
+  fonts?: Array<{ family: string; style: string }>;
+  textStyleKeys?: string[];
+  // 사용할 수 없는 폰트 대신 사용할 폰트
+  fallbackFont?: { family: string; style: string };
+}
+
+export interface FontSubstitution {
+  requested: { family: string; style: string };
+  substitute: { family: string; style: string };
+  reason: "same_family" | "fallback";
 }
 
 export interface ExecutionResult {
@@ -497,6 +581,23 @@ export interface VerificationResult {
   };
 }
 
+// ============================================
+// Workflow Failure Types
+// ============================================
+
+/**
+ * handleError가 에러 문자열 대신 참조하는 실패 정보
+ * structured_output: 재요청 후에도 응답이 스키마를 만족하지 않음
+ */
+export interface WorkflowFailure {
+  step: string;
+  kind: "structured_output" | "model";
+  message: string;
+  // "$.todoList[0].type: ..." 형식의 필드 단위 오류
+  issues: string[];
+  timestamp: number;
+}
+
 // ============================================
 // Main Workflow State
 // ============================================
@@ -521,6 +622,10 @@ export interface FigmaCodeWorkflowState {
   verification?: VerificationResult;
   blueprint?: ProductBlueprint;
   componentGuides?: ComponentGuideMap;
+  // SCAN_DESIGN_SYSTEM 카탈로그 캐시 키 (Figma 파일 단위)
+  designSystemFileKey?: string;
+  // 토큰 컬렉션/이름 규칙을 결정하는 워크스페이스 설정 id (없으면 기본값)
+  workspaceId?: string;
 
   // Legacy fields (for backward compatibility)
   analysisResult?: any; // Legacy
@@ -580,6 +685,7 @@ export interface FigmaCodeWorkflowState {
   messages: any[];
   isComplete: boolean;
   error?: string;
+  failure?: WorkflowFailure;
   runLog: RunLogEntry[];
   executionReport?: ExecutionReport;
 }
@@ -0,0 +1,52 @@
+// 워크스페이스(제품/팀)별 디자인 시스템 설정
+
+import type { LlmProviderName } from "../ai/llm-provider";
+
+export interface WorkspaceTokenCollection {
+  // 생성 코드에서 컬렉션 key를 담는 상수 이름 (예: THEME_COLLECTION_KEY)
+  constantName: string;
+  // 팀 라이브러리 변수 컬렉션 key
+  key: string;
+  description?: string;
+}
+
+export interface WorkspaceTokenConvention {
+  // 토큰 이름 접두사 (예: "space/", "semantic/")
+  prefix: string;
+  // 토큰을 찾을 컬렉션의 constantName
+  collection: string;
+}
+
+export interface WorkspaceTokenConventions {
+  spacing: WorkspaceTokenConvention;
+  radius: WorkspaceTokenConvention;
+  color: WorkspaceTokenConvention;
+}
+
+export interface WorkspaceFont {
+  family: string;
+  style: string;
+}
+
+export interface WorkspaceComponentLibrary {
+  name: string;
+  // SCAN_DESIGN_SYSTEM 카탈로그의 libraryName 또는 fileKey
+  fileKey?: string;
+  description?: string;
+}
+
+export interface WorkspaceConfig {
+  id: string;
+  name: string;
+  description?: string;
+  tokenCollections: WorkspaceTokenCollection[];
+  tokenConventions: WorkspaceTokenConventions;
+  defaultFonts: WorkspaceFont[];
+  componentLibraries: WorkspaceComponentLibrary[];
+  // 블루프린트 질문을 묻지 않고 가정으로 진행
+  skipClarifyingQuestions?: boolean;
+  // 이 워크스페이스에서 사용할 LLM provider (없으면 LLM_PROVIDER 환경 변수)
+  llmProvider?: LlmProviderName;
+  source?: "builtin" | "file";
+  updatedAt?: number;
+}
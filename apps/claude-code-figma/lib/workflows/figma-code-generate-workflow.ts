@@ -1,18 +1,68 @@
-import { ChatAnthropic } from "@langchain/anthropic";
-import { HumanMessage, SystemMessage } from "@langchain/core/messages";
+import {
+  AIMessage,
+  AIMessageChunk,
+  BaseMessage,
+  HumanMessage,
+  SystemMessage,
+} from "@langchain/core/messages";
 import { END, StateGraph } from "@langchain/langgraph";
-import { FigmaContext } from "../figma/figma-client";
+import { getLlmProvider, isTruncatedResponse } from "../ai/llm-provider";
+import { getModelRoutingConfig, resolveModelRoute } from "../ai/model-routing";
+import { ContextNode, FigmaContext } from "../figma/figma-client";
 import { getComponentGuides } from "../guides/component-guide";
+import {
+  getDesignSystemCatalog,
+  summarizeDesignSystemCatalog,
+} from "../guides/design-system-catalog";
+import { createBlueprintPrompt } from "../prompts/blueprint-prompt";
 import {
   createGenerationPrompt,
   LearningPromptContext,
 } from "../prompts/generation-prompt";
 import { analyzePlanningPrompt } from "../prompts/planning-prompt";
-import { TypeScriptValidator } from "../services/typescript-validator";
+import { resolveContextImages } from "../services/context-image-cache";
+import {
+  compileDesignToCode,
+  compileDesignToOperations,
+  DesignCompileResult,
+  FALLBACK_TODOS_PLACEHOLDER,
+  getDesignTextStyleKeys,
+  insertFallbackCode,
+} from "../services/design-code-compiler";
+import {
+  extractApiTerms,
+  selectPluginApiExcerpts,
+} from "../services/plugin-api-index";
+import {
+  requestStructuredOutput,
+  StructuredOutputError,
+  StructuredOutputTool,
+} from "../services/structured-output";
+import {
+  FigmaApiUsageReport,
+  FigmaDocumentAccess,
+  getTodoLabel,
+  TypeScriptValidator,
+} from "../services/typescript-validator";
+import {
+  getWorkspaceConfig,
+  getWorkspaceFontRequirements,
+  getWorkspaceTokenSources,
+} from "../services/workspace-config-store";
+import {
+  DesignResultOutput,
+  designResultSchema,
+  planningResultSchema,
+  ProductBlueprintOutput,
+  productBlueprintSchema,
+} from "../types/workflow-schemas";
 import {
   BlueprintScreen,
+  ClarifyingQuestion,
+  DesignResult,
   ExecutionReport,
   FigmaCodeWorkflowState as NewWorkflowState,
+  GenerationResult,
   PlanningResult,
   ProductBlueprint,
   RequestedContext,
@@ -20,20 +70,35 @@ import {
   TodoDesign,
   TodoItem
 } from "../types/workflow-types";
+import { WorkspaceConfig } from "../types/workspace-types";
 
 // Export the new workflow state
 export type FigmaCodeWorkflowState = NewWorkflowState;
 
-// Claude API Setup
-const claude = new ChatAnthropic({
-  modelName: "claude-4-5-haiku",
-  temperature: 0.1,
-  maxTokens: 4000,
-  apiKey: process.env.NEXT_ANTHROPIC_API_KEY,
-});
+// 단계별 구조화 응답 도구 (tool_choice로 강제해 JSON만 받음)
+const BLUEPRINT_TOOL: StructuredOutputTool = {
+  name: "submit_product_blueprint",
+  description: "화면, 사용자 플로우, 데이터 계약과 확인 질문을 제출",
+  schema: productBlueprintSchema,
+};
+
+const PLANNING_TOOL: StructuredOutputTool = {
+  name: "submit_planning_result",
+  description: "작업 전략, 시나리오, 범위, TODO 리스트와 위험 요소를 제출",
+  schema: planningResultSchema,
+};
+
+const DESIGN_TOOL: StructuredOutputTool = {
+  name: "submit_design_result",
+  description: "TODO별 디자인 결정, 메타데이터, 실행 순서를 제출",
+  schema: designResultSchema,
+};
 
 const WORKFLOW_STATE_VERSION = "2025-01-step-alpha";
 
+// apps/figma-plugin/manifest.json의 documentAccess와 동일하게 유지
+const PLUGIN_DOCUMENT_ACCESS: FigmaDocumentAccess = "full";
+
 const EMPTY_REQUESTED_CONTEXT: RequestedContext = {
   nodeIds: [],
   assets: [],
@@ -51,7 +116,7 @@ interface StepExecutionOptions {
   autoAdvance?: boolean;
 }
 
-interface StepResult {
+export interface StepResult {
   state: FigmaCodeWorkflowState;
   completed: boolean;
   step: string;
@@ -65,6 +130,7 @@ export class FigmaCodeGenerateWorkflow {
     message: string,
     type: "thinking" | "complete" | "error",
   ) => void;
+  private onTokenCallback?: (delta: string, step: string) => void;
   private validator: TypeScriptValidator;
 
   constructor(
@@ -73,9 +139,11 @@ export class FigmaCodeGenerateWorkflow {
       message: string,
       type: "thinking" | "complete" | "error",
     ) => void,
+    onTokenCallback?: (delta: string, step: string) => void,
   ) {
     this.onThoughtCallback = onThoughtCallback;
     this.onProgressCallback = onProgressCallback;
+    this.onTokenCallback = onTokenCallback;
     this.validator = new TypeScriptValidator();
   }
 
@@ -84,10 +152,14 @@ export class FigmaCodeGenerateWorkflow {
     figmaContext?: FigmaContext,
     conversationHistory?: Array<any>,
     previousError?: string,
+    designSystemFileKey?: string,
+    workspaceId?: string,
   ): FigmaCodeWorkflowState {
     const initialState: FigmaCodeWorkflowState = {
       userPrompt,
       figmaContext,
+      designSystemFileKey,
+      workspaceId,
       conversationHistory,
       plan: undefined,
       analysis: undefined,
@@ -159,6 +231,7 @@ export class FigmaCodeGenerateWorkflow {
       case "verify":
         await this.verifyExecution(state);
         break;
+      case "error":
       case "handleError":
         await this.handleError(state);
         break;
@@ -192,6 +265,142 @@ export class FigmaCodeGenerateWorkflow {
     };
   }
 
+  /**
+   * 워크스페이스/환경에 설정된 LLM provider 호출 (토큰 콜백이 있으면 delta 전달)
+   * - 스텝별 모델/maxTokens/temperature/timeout은 model-routing 설정, 재시도가 쌓이면 승격 모델
+   * - maxTokens로 잘린 텍스트 응답은 이어쓰기를 요청해 합침 (도구 호출은 잘리면 실패)
+   * @param tool - 지정하면 해당 도구 호출만 허용 (tool input JSON도 delta로 전달)
+   */
+  private async invokeModel(
+    state: FigmaCodeWorkflowState,
+    step: string,
+    messages: BaseMessage[],
+    tool?: StructuredOutputTool,
+  ): Promise<AIMessageChunk> {
+    const provider = getLlmProvider(
+      getWorkspaceConfig(state.workspaceId).llmProvider,
+    );
+    const route = resolveModelRoute(step, state.retryCount, provider);
+    if (route.escalated) {
+      const escalationThought = `⬆️ ${state.retryCount}번째 재시도: ${route.step} 단계를 ${route.model} 모델로 승격합니다`;
+      state.thoughts.push(escalationThought);
+      this.onThoughtCallback?.(escalationThought);
+    }
+
+    const onTokenCallback = this.onTokenCallback;
+    const invoke = (conversation: BaseMessage[]) =>
+      provider.invoke({
+        step,
+        messages: conversation,
+        tool,
+        model: route.model,
+        maxTokens: route.maxTokens,
+        temperature: route.temperature,
+        timeoutMs: route.timeoutMs,
+        onToken: onTokenCallback
+          ? (delta) => onTokenCallback(delta, step)
+          : undefined,
+      });
+
+    let response = await invoke(messages);
+    if (!isTruncatedResponse(response)) {
+      return response;
+    }
+    if (tool) {
+      throw new Error(
+        `${step} 응답이 maxTokens(${route.maxTokens})에서 잘렸습니다`,
+      );
+    }
+
+    // 이어쓴 응답을 하나의 텍스트로 합쳐 다음 이어쓰기 요청에 사용
+    let content = String(response.content);
+    const { maxContinuations } = getModelRoutingConfig();
+    for (
+      let continuation = 1;
+      continuation <= maxContinuations && isTruncatedResponse(response);
+      continuation++
+    ) {
+      const continueThought = `✂️ ${step} 응답이 maxTokens(${route.maxTokens})에서 잘려 이어서 요청합니다 (${continuation}/${maxContinuations})`;
+      state.thoughts.push(continueThought);
+      this.onThoughtCallback?.(continueThought);
+
+      response = await invoke([
+        ...messages,
+        new AIMessage(content),
+        new HumanMessage(
+          "응답이 길이 제한으로 중간에 끊겼습니다. 끊긴 지점 바로 다음부터 이어서 작성하세요. 이미 작성한 부분을 반복하거나 코드 블록을 새로 열지 마세요.",
+        ),
+      ]);
+      content += String(response.content).replace(
+        /^\s*```(?:javascript|js|typescript|ts)?\n/,
+        "",
+      );
+    }
+
+    if (isTruncatedResponse(response)) {
+      throw new Error(
+        `${step} 응답이 ${maxContinuations}회 이어쓰기 후에도 maxTokens(${route.maxTokens})에서 잘렸습니다`,
+      );
+    }
+    return new AIMessageChunk({
+      content,
+      response_metadata: response.response_metadata,
+    });
+  }
+
+  /**
+   * 도구 호출로 구조화 응답을 받고, 스키마 위반 시 필드 오류를 돌려주어 한 번 더 요청
+   * @throws StructuredOutputError 재요청 후에도 스키마를 만족하지 못한 경우
+   */
+  private async invokeStructured<T>(
+    state: FigmaCodeWorkflowState,
+    step: string,
+    messages: BaseMessage[],
+    tool: StructuredOutputTool,
+  ): Promise<T> {
+    const { output, repairs } = await requestStructuredOutput<T>(
+      (conversation) => this.invokeModel(state, step, conversation, tool),
+      messages,
+      tool,
+    );
+    if (repairs > 0) {
+      const repairThought = `🩹 ${step} 응답의 스키마 오류를 ${repairs}회 재요청으로 수정했습니다`;
+      state.thoughts.push(repairThought);
+      this.onThoughtCallback?.(repairThought);
+    }
+    return output;
+  }
+
+  /**
+   * 단계 실패를 state.failure에 기록하고 handleError로 이동
+   */
+  private failStep(
+    state: FigmaCodeWorkflowState,
+    step: string,
+    label: string,
+    error: unknown,
+  ) {
+    const message = error instanceof Error ? error.message : String(error);
+    const issues = error instanceof StructuredOutputError ? error.issues : [];
+    state.failure = {
+      step,
+      kind:
+        error instanceof StructuredOutputError ? "structured_output" : "model",
+      message,
+      issues,
+      timestamp: Date.now(),
+    };
+    state.error = `${label}: ${message}${
+      issues.length > 0 ? `\n- ${issues.slice(0, 10).join("\n- ")}` : ""
+    }`;
+    state.currentStep = "error";
+    state.runLog?.push({
+      step: `${step}:failure`,
+      timestamp: Date.now(),
+      summary: JSON.stringify(state.failure, null, 2),
+    });
+  }
+
   private ensureStateDefaults(
     rawState: FigmaCodeWorkflowState | Partial<FigmaCodeWorkflowState>,
   ): FigmaCodeWorkflowState {
@@ -256,7 +465,9 @@ export class FigmaCodeGenerateWorkflow {
     return {
       nodeIds: [...(context?.nodeIds ?? [])],
       assets: [...(context?.assets ?? [])].map((asset) => ({ ...asset })),
-      questions: [...(context?.questions ?? [])],
+      questions: [...(context?.questions ?? [])].map((question) => ({
+        ...question,
+      })),
     };
   }
 
@@ -299,8 +510,155 @@ export class FigmaCodeGenerateWorkflow {
     this.onThoughtCallback?.(thought);
     this.onProgressCallback?.("제품 블루프린트 생성", "thinking");
 
-    const selectedNodes = state.figmaContext?.selectedNodes ?? [];
+    const { resolved: images } = resolveContextImages(
+      state.figmaContext?.selectedNodesImage,
+    );
 
+    let blueprint: ProductBlueprint;
+    try {
+      const output = await this.invokeStructured<ProductBlueprintOutput>(
+        state,
+        "product-blueprint",
+        [
+          new SystemMessage(createBlueprintPrompt(state)),
+          new HumanMessage({
+            content: this.createImageMessageContent(state.userPrompt, images),
+          }),
+        ],
+        BLUEPRINT_TOOL,
+      );
+      blueprint = this.normalizeBlueprint(
+        output,
+        state.figmaContext?.selectedNodes ?? [],
+      );
+    } catch (error) {
+      const message =
+        error instanceof StructuredOutputError
+          ? `${error.message}\n- ${error.issues.join("\n- ")}`
+          : error instanceof Error
+            ? error.message
+            : String(error);
+      const fallbackThought = `⚠️ 블루프린트 생성 실패로 선택 노드 기반 기본 블루프린트를 사용합니다: ${message}`;
+      state.thoughts.push(fallbackThought);
+      this.onThoughtCallback?.(fallbackThought);
+      blueprint = this.createFallbackBlueprint(state);
+    }
+
+    state.blueprint = blueprint;
+    const requestedContext = this.cloneRequestedContext(
+      blueprint.requiredContext,
+    );
+    // 이미 답한 질문은 다시 묻지 않음
+    requestedContext.questions = requestedContext.questions.filter(
+      (question) => state.collectedContext.answers[question.id] === undefined,
+    );
+
+    // 워크스페이스 설정에 따라 질문 없이 가정으로 진행
+    if (
+      requestedContext.questions.length > 0 &&
+      getWorkspaceConfig(state.workspaceId).skipClarifyingQuestions
+    ) {
+      requestedContext.questions.forEach(({ id, assumption }) => {
+        state.collectedContext.answers[id] = `(가정) ${assumption}`;
+      });
+      const assumptionThought = `💭 질문 ${requestedContext.questions.length}개를 건너뛰고 가정으로 진행합니다:\n- ${requestedContext.questions
+        .map(({ question, assumption }) => `${question} → ${assumption}`)
+        .join("\n- ")}`;
+      state.thoughts.push(assumptionThought);
+      this.onThoughtCallback?.(assumptionThought);
+      requestedContext.questions = [];
+    }
+
+    state.requestedContext = this.hasPendingRequests(requestedContext)
+      ? requestedContext
+      : { ...EMPTY_REQUESTED_CONTEXT };
+
+    const completeThought = `🧭 블루프린트 생성 완료: ${blueprint.summary}`;
+    state.thoughts.push(completeThought);
+    this.onThoughtCallback?.(completeThought);
+
+    state.currentStep = "planning";
+    return state;
+  }
+
+  /**
+   * 선택 컨텍스트에 없는 노드 ID와 정의되지 않은 화면 ID 참조를 제거
+   */
+  private normalizeBlueprint(
+    parsed: ProductBlueprintOutput,
+    selectedNodes: ContextNode[],
+  ): ProductBlueprint {
+    const knownNodeIds = new Set<string>();
+    const collectNodeIds = (node: ContextNode) => {
+      knownNodeIds.add(node.id);
+      node.repeatedNodeIds?.forEach((id) => knownNodeIds.add(id));
+      node.children?.forEach(collectNodeIds);
+    };
+    selectedNodes.forEach(collectNodeIds);
+
+    const screenIds = new Set<string>();
+    const screens = parsed.screens
+      .filter((screen) => {
+        if (screenIds.has(screen.id)) return false;
+        screenIds.add(screen.id);
+        return true;
+      })
+      .map(
+        (screen): BlueprintScreen => ({
+          ...screen,
+          relatedNodeIds: screen.relatedNodeIds.filter((id) =>
+            knownNodeIds.has(id),
+          ),
+        }),
+      );
+    const questionIds = new Set<string>();
+    const questions = (parsed.questions ?? []).map(
+      (question, index): ClarifyingQuestion => {
+        const id =
+          question.id && !questionIds.has(question.id)
+            ? question.id
+            : `question_${index + 1}`;
+        questionIds.add(id);
+        const options = (question.options ?? []).filter(Boolean);
+        // 선택지가 없는 choice는 자유 입력으로 받음
+        return {
+          ...question,
+          id,
+          kind:
+            question.kind === "choice" && options.length === 0
+              ? "text"
+              : question.kind,
+          options: options.length > 0 ? options : undefined,
+        };
+      },
+    );
+    const flows = parsed.flows.map((flow) => ({
+      ...flow,
+      primaryScreenIds: flow.primaryScreenIds.filter((id) => screenIds.has(id)),
+    }));
+
+    return {
+      screens,
+      flows,
+      dataContracts: parsed.dataContracts,
+      requiredContext: {
+        nodeIds: [
+          ...new Set(screens.flatMap((screen) => screen.relatedNodeIds)),
+        ],
+        assets: [],
+        questions,
+      },
+      summary: parsed.summary,
+    };
+  }
+
+  /**
+   * LLM 블루프린트를 만들 수 없을 때 선택 노드마다 화면 하나를 두는 기본 블루프린트
+   */
+  private createFallbackBlueprint(
+    state: FigmaCodeWorkflowState,
+  ): ProductBlueprint {
+    const selectedNodes = state.figmaContext?.selectedNodes ?? [];
     const screens: BlueprintScreen[] = selectedNodes.map(
       (node, index): BlueprintScreen => ({
         id: `existing_${node.id}`,
@@ -333,7 +691,7 @@ export class FigmaCodeGenerateWorkflow {
       },
     ];
 
-    const blueprint: ProductBlueprint = {
+    return {
       screens,
       flows,
       dataContracts: [],
@@ -345,25 +703,50 @@ export class FigmaCodeGenerateWorkflow {
         questions:
           screens.filter((screen) => screen.type === "new").length > 0
             ? [
-                "신규 화면의 핵심 사용자 목표가 무엇인가요?",
-                "필수로 노출되어야 하는 데이터나 콘텐츠가 있나요?",
+                {
+                  id: "primary_goal",
+                  question: "신규 화면의 핵심 사용자 목표가 무엇인가요?",
+                  kind: "text",
+                  assumption: state.userPrompt,
+                },
+                {
+                  id: "required_content",
+                  question: "필수로 노출되어야 하는 데이터나 콘텐츠가 있나요?",
+                  kind: "text",
+                  assumption: "요청에 언급된 콘텐츠만 표시",
+                },
               ]
             : [],
       },
       summary: `요청한 작업을 위한 화면 ${screens.length}개와 주요 플로우 1개를 정의했습니다.`,
     };
+  }
 
-    state.blueprint = blueprint;
-    state.requestedContext = this.hasPendingRequests(blueprint.requiredContext)
-      ? this.cloneRequestedContext(blueprint.requiredContext)
-      : { ...EMPTY_REQUESTED_CONTEXT };
-
-    const completeThought = "🧭 블루프린트 생성 완료";
-    state.thoughts.push(completeThought);
-    this.onThoughtCallback?.(completeThought);
+  /**
+   * 사용자 요청 뒤에 선택 노드 스크린샷을 라벨과 함께 붙인 메시지 content
+   */
+  private createImageMessageContent(
+    text: string,
+    images: ReturnType<typeof resolveContextImages>["resolved"],
+  ) {
+    if (images.length === 0) return text;
 
-    state.currentStep = "planning";
-    return state;
+    return [
+      { type: "text", text },
+      ...images.flatMap((image) => [
+        {
+          type: "text",
+          text: `[${image.kind === "root" ? "루트 프레임" : "선택 노드"}] ${image.nodeName} (${image.nodeId}, ${image.width}x${image.height}px)`,
+        },
+        {
+          type: "image_url",
+          image_url: {
+            url: `data:image/${image.format === "PNG" ? "png" : "jpeg"};base64,${image.nodeImage}`,
+            detail: "high" as const,
+          },
+        },
+      ]),
+    ];
   }
 
   // Node 1: Planning - Strategy and TODO Generation
@@ -375,57 +758,36 @@ export class FigmaCodeGenerateWorkflow {
     this.onThoughtCallback?.(thought);
     this.onProgressCallback?.("작업 전략을 수립하고 있습니다...", "thinking");
 
-    const prompt = analyzePlanningPrompt(state);
-
-    try {
-      const response = await claude.invoke([
-        new SystemMessage(prompt),
-        new HumanMessage({
-          content: !!state.figmaContext?.selectedNodesImage.length
-            ? [
-                {
-                  type: "text",
-                  text: state.userPrompt,
-                },
-                ...state.figmaContext?.selectedNodesImage!.map((image) => ({
-                  type: "image_url",
-                  image_url: {
-                    url: `data:image/jpeg;base64,${image.nodeImage}`,
-                    detail: "high" as const,
-                  },
-                })),
-              ]
-            : state.userPrompt,
-        }),
-      ]);
+    const prompt = analyzePlanningPrompt(
+      state,
+      this.getDesignSystemSummary(state),
+      getWorkspaceConfig(state.workspaceId),
+    );
 
-      const responseContent = response.content as string;
+    // 클라이언트가 cacheKey만 보낸 이미지는 서버 캐시에서 채움
+    const { resolved: images, missing: missingImages } = resolveContextImages(
+      state.figmaContext?.selectedNodesImage,
+    );
+    if (missingImages.length > 0) {
+      const imageThought = `⚠️ 캐시에 없는 선택 노드 이미지 ${missingImages.length}개는 제외하고 계획합니다: ${missingImages
+        .map((image) => image.nodeName)
+        .join(", ")}`;
+      state.thoughts.push(imageThought);
+      this.onThoughtCallback?.(imageThought);
+    }
 
-      // Parse planning result
-      let planningResult: PlanningResult;
-      try {
-        const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          planningResult = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error("Planning JSON not found");
-        }
-      } catch (parseError) {
-        // Fallback planning
-        planningResult = {
-          intent: state.userPrompt,
-          strategy: "create",
-          confidence: 0.5,
-          scope: {
-            targetNodes: [],
-            newComponents: [],
-            reusableNodes: [],
-          },
-          todoList: [],
-          risks: [],
-          rollbackStrategy: "Revert all changes",
-        };
-      }
+    try {
+      const planningResult = await this.invokeStructured<PlanningResult>(
+        state,
+        "planning",
+        [
+          new SystemMessage(prompt),
+          new HumanMessage({
+            content: this.createImageMessageContent(state.userPrompt, images),
+          }),
+        ],
+        PLANNING_TOOL,
+      );
 
       if (!planningResult.scenarioStrategy) {
         planningResult.scenarioStrategy = "variant";
@@ -497,8 +859,7 @@ export class FigmaCodeGenerateWorkflow {
       this.clearRequestedContext(state);
       return state;
     } catch (error) {
-      state.error = `전략 수립 실패: ${error instanceof Error ? error.message : String(error)}`;
-      state.currentStep = "error";
+      this.failStep(state, "planning", "전략 수립 실패", error);
       return state;
     }
   }
@@ -526,53 +887,51 @@ export class FigmaCodeGenerateWorkflow {
     // Design prompt 생성
     const prompt = ""
 
-    try {
-      const response = await claude.invoke([
-        new SystemMessage(prompt),
-        new HumanMessage(
-          `사용자 요청: ${state.userPrompt}\n\n위의 Planning 결과를 바탕으로 각 TODO별 구체적인 디자인 결정을 내려주세요.\n\n⚠️ 중요: Planning의 전략이 "${state.plan.strategy}"입니다.\n- modify 전략: 기존 노드의 특정 속성만 변경하므로 layout/styles는 필요한 경우만 포함하세요\n- create 전략: 새로운 요소 생성이므로 완전한 layout/styles를 포함할 수 있습니다\n\n대부분의 간단한 수정은 description으로만 처리 가능합니다.`,
-        ),
-        ...state.messages,
-      ]);
-
-      const responseContent = response.content as string;
-
-      console.log(responseContent, "responseContent==========");
-      // Design 결과 JSON 파싱
-      let designData;
-      try {
-        const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          designData = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error("Design JSON 형식을 찾을 수 없음");
-        }
-      } catch (parseError) {
-        console.error("Design JSON 파싱 실패:", parseError);
-      }
+    // 재시도 시 이전 디자인 결정을 참고 자료로 전달 (도구 호출 응답은 대화에 다시 넣지 않음)
+    const previousDesigns = state.messages.map((message) =>
+      String(message.content),
+    );
 
-      const normalizedTodoDesigns: TodoDesign[] = (
-        designData.todoDesigns || []
-      ).map((todo: TodoDesign, index: number) => {
-        const cloned: TodoDesign = {
-          ...todo,
-          todoId: todo.todoId || `todo_${index + 1}`,
-          scenarioId:
-            todo.scenarioId ||
-            state.plan?.todoList?.find((t) => t.id === todo.todoId)
-              ?.scenarioId ||
-            state.plan?.defaultScenarioId,
-          targetNodeId: todo.targetNodeId || todo.targetNode,
-          targetNode: todo.targetNode || todo.targetNodeId,
-          design: {
-            ...todo.design,
-            expectedVariantProps: todo.design?.expectedVariantProps,
-          },
-        };
-        return cloned;
-      });
+    try {
+      const designData = await this.invokeStructured<DesignResultOutput>(
+        state,
+        "figma-design",
+        [
+          new SystemMessage(prompt),
+          new HumanMessage(
+            `사용자 요청: ${state.userPrompt}\n\n위의 Planning 결과를 바탕으로 각 TODO별 구체적인 디자인 결정을 내려주세요.\n\n⚠️ 중요: Planning의 전략이 "${state.plan.strategy}"입니다.\n- modify 전략: 기존 노드의 특정 속성만 변경하므로 layout/styles는 필요한 경우만 포함하세요\n- create 전략: 새로운 요소 생성이므로 완전한 layout/styles를 포함할 수 있습니다\n\n대부분의 간단한 수정은 description으로만 처리 가능합니다.${
+              previousDesigns.length > 0
+                ? `\n\n이전 디자인 결정:\n${previousDesigns.join("\n\n")}`
+                : ""
+            }`,
+          ),
+        ],
+        DESIGN_TOOL,
+      );
+      const responseContent = JSON.stringify(designData);
+
+      const normalizedTodoDesigns: TodoDesign[] = designData.todoDesigns.map(
+        (todo, index) => {
+          const cloned: TodoDesign = {
+            ...todo,
+            todoId: todo.todoId || `todo_${index + 1}`,
+            scenarioId:
+              todo.scenarioId ||
+              state.plan?.todoList?.find((t) => t.id === todo.todoId)
+                ?.scenarioId ||
+              state.plan?.defaultScenarioId,
+            targetNodeId: todo.targetNodeId || todo.targetNode,
+            targetNode: todo.targetNode || todo.targetNodeId,
+            design: {
+              ...todo.design,
+              expectedVariantProps: todo.design?.expectedVariantProps,
+            },
+          };
+          return cloned;
+        },
+      );
 
-      const metadata = designData.metadata || {
+      const metadata: DesignResult["metadata"] = designData.metadata || {
         designSystemComponents: 0,
         customElements: state.plan.todoList.length,
         complexityScore: 5,
@@ -646,15 +1005,18 @@ export class FigmaCodeGenerateWorkflow {
         executionOrder: state.design.dependencies.executionOrder,
       });
 
-      state.messages.push(response);
-      const componentNames = new Set<string>();
+      state.messages.push(new AIMessage(responseContent));
+      // key가 있으면 key로, 없으면 이름으로 디자인 시스템 레지스트리 조회
+      const componentRefs = new Set<string>();
       state.design.todoDesigns.forEach((todoDesign) => {
-        if (todoDesign.design.component?.name) {
-          componentNames.add(todoDesign.design.component.name);
+        const component = todoDesign.design.component;
+        const ref = component?.key || component?.name;
+        if (ref) {
+          componentRefs.add(ref);
         }
       });
-      if (componentNames.size > 0) {
-        state.componentGuides = getComponentGuides([...componentNames]);
+      if (componentRefs.size > 0) {
+        state.componentGuides = getComponentGuides([...componentRefs]);
       }
       state.currentStep = "generate";
       this.clearRequestedContext(state);
@@ -662,8 +1024,7 @@ export class FigmaCodeGenerateWorkflow {
 
       return state;
     } catch (error) {
-      state.error = `디자인 결정 실패: ${error instanceof Error ? error.message : String(error)}`;
-      state.currentStep = "error";
+      this.failStep(state, "figma-design", "디자인 결정 실패", error);
       return state;
     }
   }
@@ -698,55 +1059,125 @@ export class FigmaCodeGenerateWorkflow {
       this.onThoughtCallback?.(learningThought);
     }
 
-    const fullPrompt = createGenerationPrompt(
-      state.userPrompt,
-      state.plan,
-      state.design,
-      learningGuidance,
-      state.figmaContext,
-      state.componentGuides,
-    );
+    const workspace = getWorkspaceConfig(state.workspaceId);
+
+    // 구조화된 TodoDesign은 결정적으로 컴파일하고 나머지 TODO만 LLM이 작성
+    // 컴파일 결과는 매번 같으므로 재시도 시에는 전체를 LLM이 다시 작성
+    const compiled =
+      state.retryCount === 0
+        ? compileDesignToCode(state.design, state.plan, workspace)
+        : null;
+    const compiledCount = compiled?.compiledTodoIds.length ?? 0;
+    if (compiled && compiledCount > 0) {
+      const compileThought = `🧱 TodoDesign 컴파일: ${compiledCount}개 TODO 코드 생성, ${compiled.fallbackTodos.length}개 TODO는 LLM 작성`;
+      state.thoughts.push(compileThought);
+      this.onThoughtCallback?.(compileThought);
+    }
 
     try {
-      const messages = [
-        new SystemMessage(fullPrompt),
-        new HumanMessage(
-          `사용자 요청: ${state.userPrompt}\n\n위의 Planning과 Design 결과를 바탕으로 각 TodoDesign을 순차적으로 구현하는 JavaScript 코드를 생성해주세요.`,
-        ),
-      ];
+      let rawCode: string;
+      if (compiled && compiled.fallbackTodos.length === 0) {
+        rawCode = insertFallbackCode(compiled.code);
+      } else {
+        // 전체 plugin-api.d.ts 대신 이번 DesignResult에 필요한 선언만 포함
+        const apiReference = selectPluginApiExcerpts(state.plan, state.design, {
+          terms: extractApiTerms(state.learning),
+        });
+        const apiThought = `📖 API 레퍼런스 발췌: ${apiReference.excerpts.length}개 선언, 약 ${apiReference.tokens}/${apiReference.budget} 토큰${apiReference.omitted.length > 0 ? ` (예산 초과로 ${apiReference.omitted.length}개 제외)` : ""}`;
+        state.thoughts.push(apiThought);
+        this.onThoughtCallback?.(apiThought);
+        state.runLog?.push({
+          step: "generate:api-excerpts",
+          timestamp: Date.now(),
+          summary: JSON.stringify(
+            {
+              tokens: apiReference.tokens,
+              budget: apiReference.budget,
+              excerpts: apiReference.excerpts,
+              omitted: apiReference.omitted,
+            },
+            null,
+            2,
+          ),
+        });
 
-      const response = await claude.invoke(messages);
+        const fullPrompt = createGenerationPrompt(
+          state.userPrompt,
+          state.plan,
+          state.design,
+          learningGuidance,
+          state.figmaContext,
+          state.componentGuides,
+          this.getDesignSystemSummary(state),
+          workspace,
+          apiReference,
+        );
+        const request =
+          compiled && compiledCount > 0
+            ? this.buildFallbackTodoRequest(state.userPrompt, compiled)
+            : `사용자 요청: ${state.userPrompt}\n\n위의 Planning과 Design 결과를 바탕으로 각 TodoDesign을 순차적으로 구현하는 JavaScript 코드를 생성해주세요.`;
+        const messages = [
+          new SystemMessage(fullPrompt),
+          new HumanMessage(request),
+        ];
+
+        const response = await this.invokeModel(state, "generate", messages);
+
+        let responseContent = "";
+        if (typeof response.content === "string") {
+          responseContent = response.content;
+        } else {
+          responseContent = String(response);
+        }
 
-      let responseContent = "";
-      if (typeof response.content === "string") {
-        responseContent = response.content;
-      } else {
-        responseContent = String(response);
+        rawCode =
+          compiled && compiledCount > 0
+            ? insertFallbackCode(
+                compiled.code,
+                this.extractCode(responseContent),
+              )
+            : this.extractCode(responseContent);
       }
 
-      const rawCode = this.extractCode(responseContent);
-      const figmaCode = this.applyCodeGuards(rawCode);
+      const figmaCode = this.applyCodeGuards(rawCode, workspace);
+
+      // 모든 TODO가 컴파일되면 생성 코드 대신 operation 목록으로 실행
+      const operations =
+        compiled && compiled.fallbackTodos.length === 0
+          ? compileDesignToOperations(state.design, state.plan, workspace)
+          : null;
+      if (operations) {
+        const operationThought = `🧾 operation plan 생성: ${operations.length}개 operation (플러그인 인터프리터로 실행)`;
+        state.thoughts.push(operationThought);
+        this.onThoughtCallback?.(operationThought);
+      }
 
       // GenerationResult 저장 (새로운 형식)
       state.generation = {
         code: figmaCode,
+        tokenSources: getWorkspaceTokenSources(workspace),
+        fontRequirements: getWorkspaceFontRequirements(
+          workspace,
+          getDesignTextStyleKeys(state.design),
+        ),
+        ...(operations ? { operations } : {}),
         metadata: {
           apiCalls: [],
           nodeOperations: [],
           estimatedExecutionTime: 1000,
           estimatedNodeCount: state.plan.todoList.length * 2,
-          codePatterns: ["todo-driven", "safe-node-access", "error-handling"],
+          codePatterns: [
+            "todo-driven",
+            "safe-node-access",
+            "error-handling",
+            ...(compiledCount > 0 ? ["compiled-todo-designs"] : []),
+            ...(operations ? ["operation-plan"] : []),
+          ],
           safetyChecks: ["null-check", "readonly-check", "promise-catch"],
         },
-        todoImplementation: new Map(
-          state.plan.todoList.map((todo: TodoItem) => [
-            todo.id,
-            {
-              todoId: todo.id,
-              codeLines: [0, 0], // 실제 구현 시 파싱하여 채움
-              implemented: true,
-            },
-          ]),
+        todoImplementation: this.analyzeTodoImplementation(
+          figmaCode,
+          state.plan.todoList,
         ),
       };
 
@@ -754,13 +1185,16 @@ export class FigmaCodeGenerateWorkflow {
       state.generatedCode = figmaCode;
 
       console.log(figmaCode, "figmaCode");
+      const implementedTodos = [
+        ...state.generation.todoImplementation.values(),
+      ].filter((todo) => todo.implemented).length;
       console.log("🎯 Generated Code Info:", {
         length: figmaCode.length,
         todos: state.plan.todoList.length,
-        implementedTodos: state.generation.todoImplementation.size,
+        implementedTodos,
       });
 
-      const codeGenThought = `✅ 코드 생성 완료: ${figmaCode.length} 문자, ${state.plan.todoList.length}개 TODO 구현`;
+      const codeGenThought = `✅ 코드 생성 완료: ${figmaCode.length} 문자, ${implementedTodos}/${state.plan.todoList.length}개 TODO 구현`;
       state.thoughts.push(codeGenThought);
       this.onThoughtCallback?.(codeGenThought);
 
@@ -768,8 +1202,7 @@ export class FigmaCodeGenerateWorkflow {
       this.clearRequestedContext(state);
       return state;
     } catch (error) {
-      state.error = `코드 생성 실패: ${error instanceof Error ? error.message : String(error)}`;
-      state.currentStep = "error";
+      this.failStep(state, "generation", "코드 생성 실패", error);
       return state;
     }
   }
@@ -800,24 +1233,36 @@ export class FigmaCodeGenerateWorkflow {
         state.generatedCode,
       );
 
-      // 2. Figma API Validation (코드 분석 기반)
-      const figmaApiValidation = this.validateFigmaApi(state.generatedCode);
+      // 2. Figma API Validation (plugin-api.d.ts 타입 체커 기반)
+      const figmaApiValidation = this.validator.analyzeFigmaApiUsage(
+        state.generatedCode,
+        { documentAccess: PLUGIN_DOCUMENT_ACCESS },
+      );
+      const figmaApiIssues = [
+        ...figmaApiValidation.invalidCalls,
+        ...figmaApiValidation.asyncMisuse,
+      ];
 
-      // 3. TODO Implementation Validation
-      const todoValidation = this.validateTodoImplementation(
+      // 3. TODO Implementation Validation (가드 적용 후 코드 기준으로 다시 분석)
+      state.generation.todoImplementation = this.analyzeTodoImplementation(
         state.generatedCode,
         state.plan?.todoList || [],
+      );
+      const todoValidation = this.validateTodoImplementation(
+        state.plan?.todoList || [],
         state.generation.todoImplementation,
       );
+      const todoComplete = todoValidation.missingImplementations.length === 0;
 
       // 4. Safety Validation
       const safetyValidation = this.validateSafety(state.generatedCode);
 
       // 간소화된 검증 판정
-      const isValid =
+      const codeValid =
         tsValidation.success &&
         figmaApiValidation.validCalls.length > 0 &&
-        figmaApiValidation.invalidCalls.length === 0;
+        figmaApiIssues.length === 0;
+      const isValid = codeValid && todoComplete;
 
       // ValidationResult 저장 (간소화된 형식)
       state.validation = {
@@ -848,6 +1293,9 @@ export class FigmaCodeGenerateWorkflow {
         typescript: tsValidation.success,
         figmaApiValid: figmaApiValidation.validCalls.length > 0,
         figmaApiInvalid: figmaApiValidation.invalidCalls.length,
+        figmaApiAsyncMisuse: figmaApiValidation.asyncMisuse.length,
+        figmaApiDeprecated: figmaApiValidation.deprecatedUsage.length,
+        todoCoverage: todoValidation.coverage,
         isValid,
         recommendation: state.validation.recommendation,
       });
@@ -866,10 +1314,37 @@ export class FigmaCodeGenerateWorkflow {
         this.recordValidationError(state, tsValidation);
 
         state.retryCount += 1;
-        state.learning = tsValidation.learningContext;
+        const codeLearning = this.createFigmaApiLearning(
+          tsValidation.success ? null : tsValidation.learningContext,
+          figmaApiValidation,
+        );
+        state.learning = todoComplete
+          ? (codeLearning ?? tsValidation.learningContext)
+          : JSON.stringify(
+              {
+                type: "missing_todos",
+                summary:
+                  "생성 코드에서 구현되지 않은 TODO 블록이 발견되었습니다. 각 TODO를 라벨 블록 안에 구현하세요.",
+                previous: codeLearning ?? state.learning ?? null,
+                todos: todoValidation.missingTodos,
+              },
+              null,
+              2,
+            );
         state.currentStep = "generate";
+      } else if (codeValid) {
+        // 재시도 한도 초과 시 TODO 누락은 실행 후 verify 단계에서 다시 확인
+        const todoThought = `⚠️ TODO 블록 누락 ${todoValidation.missingImplementations.length}개, 실행 후 검증으로 진행`;
+        state.thoughts.push(todoThought);
+        this.onThoughtCallback?.(todoThought);
+        state.currentStep = "execute";
       } else {
-        state.error = `검증 실패: ${tsValidation.errors.map((e) => `- ${e.message}`).join("\n")}`;
+        state.error = `검증 실패: ${[
+          ...tsValidation.errors.map((e) => e.message),
+          ...figmaApiIssues,
+        ]
+          .map((message) => `- ${message}`)
+          .join("\n")}`;
         state.currentStep = "error";
       }
     } catch (error) {
@@ -993,8 +1468,9 @@ export class FigmaCodeGenerateWorkflow {
 
     this.clearRequestedContext(state);
 
-    // Categorize error type
-    const errorType = this.categorizeError(state.error || "");
+    // Categorize error type (단계가 기록된 실패는 메시지 추측 대신 해당 단계 사용)
+    const errorType =
+      state.failure?.step ?? this.categorizeError(state.error || "");
 
     // Record error in history
     if (!state.errorHistory) {
@@ -1050,11 +1526,16 @@ export class FigmaCodeGenerateWorkflow {
 
           state.retryCount += 1;
           state.error = undefined;
+          state.failure = undefined;
 
           // Determine restart point based on error type
           if (errorType === "planning" || errorType === "figma-design") {
             state.currentStep = "planning";
-          } else if (errorType === "generation" || errorType === "validation") {
+          } else if (
+            errorType === "generation" ||
+            errorType === "validation" ||
+            errorType === "policy"
+          ) {
             state.currentStep = "generate";
           } else {
             state.currentStep = "planning";
@@ -1093,7 +1574,9 @@ export class FigmaCodeGenerateWorkflow {
 
   // Helper: Categorize error type
   private categorizeError(error: string): string {
-    if (error.includes("Planning") || error.includes("전략")) {
+    if (error.includes("정책 위반")) {
+      return "policy";
+    } else if (error.includes("Planning") || error.includes("전략")) {
       return "planning";
     } else if (error.includes("Design") || error.includes("디자인")) {
       return "figma-design";
@@ -1158,10 +1641,11 @@ export class FigmaCodeGenerateWorkflow {
   private generateLearningContext(errorType: string, error: string): string {
     const learningTemplates: Record<string, string> = {
       planning: `Planning 에러 발생: ${error}\n전략 수립 시 다음 사항 주의:\n- 사용자 요청 정확히 파악\n- CREATE/MODIFY/HYBRID 전략 올바르게 선택\n- TODO 리스트 구체적으로 작성`,
-      design: `Design 에러 발생: ${error}\n디자인 결정 시 다음 사항 주의:\n- TODO별 구체적인 디자인 결정\n- 적절한 컴포넌트 선택과 매핑\n- description으로 내부 수정사항 명시`,
+      "figma-design": `Design 에러 발생: ${error}\n디자인 결정 시 다음 사항 주의:\n- TODO별 구체적인 디자인 결정\n- 적절한 컴포넌트 선택과 매핑\n- description으로 내부 수정사항 명시`,
       generation: `Generation 에러 발생: ${error}\n코드 생성 시 다음 사항 주의:\n- 각 TODO 완전히 구현\n- 안전한 코드 패턴 사용\n- TypeScript 타입 정확히`,
       validation: `Validation 에러 발생: ${error}\n검증 실패 원인:\n- TypeScript 타입 에러 확인\n- Figma API 올바른 사용\n- TODO 구현 누락 확인`,
       execution: `Execution 에러 발생: ${error}\n실행 시 주의사항:\n- null 체크 필수\n- 읽기 전용 노드 체크\n- Promise 에러 처리`,
+      policy: `실행 샌드박스 정책 위반: ${error}\n코드 작성 시 다음 제약 준수:\n- figma.clientStorage, figma.ui, figma.closePlugin, fetch 등 허용되지 않은 API 사용 금지\n- Planning scope.targetNodes(및 하위)와 이번 실행에서 생성한 노드만 remove/이동/병합\n- 필요한 노드만 생성 (노드 생성 예산 초과 금지)\n- 무한 루프나 오래 걸리는 대기 금지`,
       unknown: `알 수 없는 에러: ${error}\n일반적인 주의사항 적용`,
     };
 
@@ -1317,7 +1801,7 @@ export class FigmaCodeGenerateWorkflow {
     };
   }
 
-  private applyCodeGuards(code: string): string {
+  private applyCodeGuards(code: string, workspace: WorkspaceConfig): string {
     if (!code) {
       return code;
     }
@@ -1331,7 +1815,15 @@ export class FigmaCodeGenerateWorkflow {
     if (hasInsertChild) {
       patched = patched.replace(
         insertChildPattern,
-        (_match, parent, index, node) => {
+        (match, parent, index, node) => {
+          // safeInsertChild 헬퍼 본문의 insertChild는 그대로 둠 (재귀 방지)
+          if (
+            parent === "parent" &&
+            index.trim() === "index" &&
+            node.trim() === "node"
+          ) {
+            return match;
+          }
           return `safeInsertChild(${parent.trim()}, ${node.trim()}, ${index.trim()})`;
         },
       );
@@ -1348,26 +1840,24 @@ export class FigmaCodeGenerateWorkflow {
       );
     }
 
-    const tokenConstants: Array<{ name: string; value: string }> = [
-      {
-        name: "THEME_COLLECTION_KEY",
-        value: "39e0c2b9cd40942595f053c590c74e1123f4e317",
-      },
-      {
-        name: "RADIUS_COLLECTION_KEY",
-        value: "8e172dafc41cff80fc32c6ef5b2519ea51091ff7",
-      },
-      {
-        name: "PRIMITIVE_COLLECTION_KEY",
-        value: "d6673925cad31c3f25349c1469ca4288495979e2",
-      },
-    ];
-
-    tokenConstants.forEach(({ name, value }) => {
-      const regex = new RegExp(`const\\s+${name}\\s*=\\s*"([^"]+)"`, "g");
-      patched = patched.replace(regex, `const ${name} = "${value}"`);
+    // 워크스페이스의 컬렉션 key로 상수 값을 교정하고, 선언 없이 참조한 상수는 선언을 추가
+    const missingConstants: string[] = [];
+    workspace.tokenCollections.forEach(({ constantName, key }) => {
+      const regex = new RegExp(
+        `const\\s+${constantName}\\s*=\\s*"([^"]+)"`,
+        "g",
+      );
+      if (regex.test(patched)) {
+        patched = patched.replace(regex, `const ${constantName} = "${key}"`);
+      } else if (new RegExp(`\\b${constantName}\\b`).test(patched)) {
+        missingConstants.push(`const ${constantName} = "${key}";`);
+      }
     });
 
+    if (missingConstants.length > 0) {
+      patched = `${missingConstants.join("\n")}\n\n${patched}`;
+    }
+
     return patched;
   }
 
@@ -1401,6 +1891,16 @@ export class FigmaCodeGenerateWorkflow {
     state.executionReport = executionReport;
     this.clearRequestedContext(state);
 
+    // 샌드박스 정책 위반은 TODO 검증 대신 handleError에서 학습 후 재생성
+    if (executionReport.policyViolations?.length) {
+      const violationSummary = executionReport.policyViolations
+        .map((violation) => `[${violation.policy}] ${violation.message}`)
+        .join("; ");
+      state.error = `실행 정책 위반: ${violationSummary}`;
+      state.currentStep = "error";
+      return state;
+    }
+
     if (!state.plan?.todoList) {
       state.currentStep = "complete";
       state.isComplete = true;
@@ -1451,6 +1951,7 @@ export class FigmaCodeGenerateWorkflow {
     const createdNodes = executionReport.createdNodes || [];
     const updatedNodes = executionReport.updatedNodes || [];
     const deletedNodeIds = executionReport.deletedNodeIds || [];
+    const operationResults = executionReport.operationResults || [];
 
     const todoPropertyHints: Record<string, string[]> = {
       style: ["fills", "text", "effects", "variables", "strokes"],
@@ -1589,6 +2090,35 @@ export class FigmaCodeGenerateWorkflow {
         reason = "matched";
       };
 
+      // operation plan으로 실행한 경우 이름 매칭 대신 TODO의 operation 결과로 판정
+      const todoOperations = operationResults.filter(
+        (result) => result.todoId === todo.id,
+      );
+      if (todoOperations.length > 0) {
+        const failedOperation = todoOperations.find(
+          (result) => result.status !== "success",
+        );
+        const operationNodeId = todoOperations.find(
+          (result) => result.nodeId,
+        )?.nodeId;
+        if (failedOperation) {
+          reason = `operation ${failedOperation.id}(${failedOperation.op}) ${failedOperation.status}: ${failedOperation.error ?? "알 수 없는 오류"}`;
+        } else if (operationNodeId) {
+          recordMatch(
+            operationNodeId,
+            todo.type === "create",
+            todo.type === "create" ||
+              todo.type === "modify" ||
+              todo.type === "style" ||
+              todo.type === "delete"
+              ? todo.type
+              : "unknown",
+          );
+        }
+        evaluations.push({ todo, matched, reason, matchedNodeId });
+        continue;
+      }
+
       switch (todo.type) {
         case "delete": {
           if (!targetNodeId) {
@@ -1849,6 +2379,48 @@ export class FigmaCodeGenerateWorkflow {
       state.executionResult.report = executionReport;
     }
 
+    // 토큰 미해결은 실행 실패로 보지 않고 경고와 학습 데이터로만 남김
+    const unresolvedTokens = executionReport.unresolvedTokens ?? [];
+    if (unresolvedTokens.length > 0) {
+      const tokenWarnings = unresolvedTokens.map(
+        (token) =>
+          `${token.token} → ${token.nodeName ?? token.nodeId ?? "?"}.${token.field} (${token.reason}${token.message ? `: ${token.message}` : ""})`,
+      );
+      state.executionResult.logs.warnings = [
+        ...(state.executionResult.logs.warnings ?? []),
+        ...tokenWarnings.map((warning) => `unresolved token: ${warning}`),
+      ];
+      const tokenThought = `⚠️ 바인딩하지 못한 토큰 ${unresolvedTokens.length}개:\n- ${tokenWarnings.join("\n- ")}`;
+      state.thoughts.push(tokenThought);
+      this.onThoughtCallback?.(tokenThought);
+      state.runLog?.push({
+        step: "verify:tokens",
+        timestamp: Date.now(),
+        summary: JSON.stringify(unresolvedTokens, null, 2),
+      });
+    }
+
+    // 폰트 대체도 실행 실패로 보지 않고 경고로만 남김
+    const fontSubstitutions = executionReport.fontSubstitutions ?? [];
+    if (fontSubstitutions.length > 0) {
+      const fontWarnings = fontSubstitutions.map(
+        ({ requested, substitute, reason }) =>
+          `${requested.family} ${requested.style} → ${substitute.family} ${substitute.style} (${reason})`,
+      );
+      state.executionResult.logs.warnings = [
+        ...(state.executionResult.logs.warnings ?? []),
+        ...fontWarnings.map((warning) => `font substitution: ${warning}`),
+      ];
+      const fontThought = `⚠️ 없는 폰트 ${fontSubstitutions.length}개를 대체:\n- ${fontWarnings.join("\n- ")}`;
+      state.thoughts.push(fontThought);
+      this.onThoughtCallback?.(fontThought);
+      state.runLog?.push({
+        step: "verify:fonts",
+        timestamp: Date.now(),
+        summary: JSON.stringify(fontSubstitutions, null, 2),
+      });
+    }
+
     // If completion rate is low, retry failed TODOs
     const missingEvaluations = evaluations.filter((ev) => !ev.matched);
     if (missingEvaluations.length > 0) {
@@ -1867,6 +2439,7 @@ export class FigmaCodeGenerateWorkflow {
           todoType: ev.todo.type,
           reason: ev.reason,
         })),
+        ...(unresolvedTokens.length > 0 ? { unresolvedTokens } : {}),
       };
       state.learning = JSON.stringify(learningPayload, null, 2);
       state.runLog?.push({
@@ -2205,74 +2778,133 @@ export class FigmaCodeGenerateWorkflow {
   // Validation Helper Methods
   // ============================================
 
-  // Helper: Validate Figma API usage
-  private validateFigmaApi(code: string) {
-    const validApiPatterns = [
-      /figma\.createFrame/g,
-      /figma\.createText/g,
-      /figma\.createRectangle/g,
-      /figma\.createComponent/g,
-      /figma\.createInstance/g,
-      /figma\.getNodeById/g,
-      /figma\.currentPage/g,
-    ];
+  // Helper: 컴파일되지 않은 TODO 블록만 작성하도록 요청하는 메시지
+  private buildFallbackTodoRequest(
+    userPrompt: string,
+    compiled: DesignCompileResult,
+  ): string {
+    const todoLines = compiled.fallbackTodos
+      .map(
+        ({ todoId, reason }) =>
+          `- ${getTodoLabel(todoId)} (todoId: ${todoId}): ${reason}`,
+      )
+      .join("\n");
 
-    const invalidApiPatterns = [
-      /figma\.deleteNode/g, // deprecated
-      /node\.remove\(\)/g, // should use node.remove() carefully
-    ];
+    return `사용자 요청: ${userPrompt}
 
-    const validCalls: string[] = [];
-    const invalidCalls: string[] = [];
-    const deprecatedUsage: string[] = [];
-    const performanceIssues: string[] = [];
+아래 TODO를 제외한 나머지 TodoDesign은 이미 코드로 컴파일되어 있습니다.
+다음 TODO의 라벨 블록만 작성해주세요:
+${todoLines}
 
-    validApiPatterns.forEach((pattern) => {
-      const matches = code.match(pattern);
-      if (matches) {
-        validCalls.push(...matches);
-      }
-    });
+작성 규칙:
+- 작성한 블록은 executeCode() 내부 ${FALLBACK_TODOS_PLACEHOLDER} 위치(컴파일된 블록 이후)에 그대로 삽입됩니다.
+- executeCode 함수, executeCode(); 호출, 헬퍼 함수를 다시 선언하지 마세요.
+- 컴파일된 TODO가 만든 노드는 nodes["todoId"]로 참조하고, 새로 만들거나 수정한 노드도 nodes["todoId"]에 저장하세요.
+- 결과는 \`TODO_X: { ... }\` 블록만 담은 javascript 코드 블록 하나로 반환하세요.
 
-    invalidApiPatterns.forEach((pattern) => {
-      const matches = code.match(pattern);
-      if (matches) {
-        invalidCalls.push(...matches);
-      }
-    });
+컴파일된 코드:
+\`\`\`javascript
+${compiled.code}
+\`\`\``;
+  }
 
-    // Check for performance issues
-    if (code.match(/for\s*\(.*\)\s*{[\s\S]*?figma\.create/)) {
-      performanceIssues.push(
-        "Creating nodes in loop - consider batch creation",
-      );
+  // Helper: 파일별로 캐시된 디자인 시스템 카탈로그 요약 (없으면 undefined)
+  private getDesignSystemSummary(
+    state: FigmaCodeWorkflowState,
+  ): string | undefined {
+    const catalog = getDesignSystemCatalog(state.designSystemFileKey);
+    return catalog ? summarizeDesignSystemCatalog(catalog) : undefined;
+  }
+
+  // Helper: Figma API 검증 결과를 재생성용 learning 텍스트로 변환
+  private createFigmaApiLearning(
+    typescriptLearning: string | null,
+    figmaApi: FigmaApiUsageReport,
+  ): string | null {
+    if (
+      figmaApi.invalidCalls.length === 0 &&
+      figmaApi.asyncMisuse.length === 0
+    ) {
+      return typescriptLearning;
     }
 
-    return {
-      validCalls,
-      invalidCalls,
-      deprecatedUsage,
-      performanceIssues,
-    };
+    const sections = [
+      ["❌ Plugin API에 없는 멤버", figmaApi.invalidCalls],
+      ["❌ 동기/비동기 API 오용", figmaApi.asyncMisuse],
+      ["⚠️ deprecated API (대체 API 사용 권장)", figmaApi.deprecatedUsage],
+    ] as const;
+    const apiLines = sections
+      .filter(([, issues]) => issues.length > 0)
+      .map(
+        ([title, issues]) =>
+          `${title}:\n${issues.map((issue) => `- ${issue}`).join("\n")}`,
+      );
+
+    return [
+      typescriptLearning,
+      `=== Figma API 검증 결과 ===\n\n${apiLines.join("\n\n")}`,
+    ]
+      .filter(Boolean)
+      .join("\n\n");
+  }
+
+  // Helper: Analyze labeled TODO blocks in generated code
+  private analyzeTodoImplementation(
+    code: string,
+    todoList: TodoItem[],
+  ): GenerationResult["todoImplementation"] {
+    const blocks = this.validator.analyzeTodoBlocks(
+      code,
+      todoList.map((todo) => todo.id),
+    );
+    return new Map(
+      [...blocks.values()].map((block) => [
+        block.todoId,
+        {
+          todoId: block.todoId,
+          codeLines: block.codeLines,
+          implemented: block.implemented,
+          status: block.status,
+        },
+      ]),
+    );
   }
 
   // Helper: Validate TODO implementation
   private validateTodoImplementation(
-    code: string,
     todoList: TodoItem[],
-    todoImplementation: Map<string, any>,
+    todoImplementation: GenerationResult["todoImplementation"],
   ) {
+    const statusReasons: Record<string, string> = {
+      missing: "라벨 블록이 없습니다",
+      empty: "블록이 비어 있습니다",
+      comment_only: "블록에 주석만 있습니다",
+    };
     let implementedCount = 0;
     const missingImplementations: string[] = [];
+    const missingTodos: Array<{
+      id: string;
+      task: string;
+      todoType: string;
+      reason: string;
+    }> = [];
 
     todoList.forEach((todo) => {
-      // Check if TODO is mentioned in code
-      const todoPattern = new RegExp(`TODO_${todo.id.split("_")[1]}`, "g");
-      if (code.match(todoPattern)) {
+      const block = todoImplementation.get(todo.id);
+      if (block?.implemented) {
         implementedCount++;
-      } else {
-        missingImplementations.push(todo.task);
+        return;
       }
+
+      const label = getTodoLabel(todo.id);
+      const reason = `${label}: ${statusReasons[block?.status ?? "missing"]}`;
+      missingImplementations.push(`[${todo.id}] ${todo.task} — ${reason}`);
+      missingTodos.push({
+        id: todo.id,
+        task: todo.task,
+        todoType: todo.type,
+        reason,
+      });
     });
 
     const coverage =
@@ -2285,6 +2917,7 @@ export class FigmaCodeGenerateWorkflow {
       implementedTodos: implementedCount,
       coverage,
       missingImplementations,
+      missingTodos,
     };
   }
 
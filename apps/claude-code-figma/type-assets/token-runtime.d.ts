@@ -0,0 +1,40 @@
+// 플러그인이 생성 코드에 주입하는 디자인 토큰 런타임 (apps/figma-plugin create-token-runtime.ts)
+
+declare global {
+  const tokens: TokenRuntime;
+
+  // "space/200", "semantic/color/primary/500" 같은 토큰 경로
+  type TokenPath = string;
+
+  interface TokenRuntime {
+    /**
+     * 토큰 경로로 변수를 찾음 (로컬 → 워크스페이스 컬렉션 → 라이브러리, 없으면 null)
+     */
+    resolve(path: TokenPath): Promise<Variable | null>;
+    /**
+     * 숫자 필드에 FLOAT 변수를 바인딩
+     * field: itemSpacing, counterAxisSpacing, padding*, width, height, min/max*, strokeWeight, opacity, cornerRadius, *Radius
+     * @returns 바인딩 성공 여부 (실패한 토큰은 ExecutionReport.unresolvedTokens에 기록)
+     */
+    bind(node: SceneNode, field: string, path: TokenPath): Promise<boolean>;
+    /**
+     * fills/strokes를 COLOR 변수가 바인딩된 SolidPaint로 교체
+     */
+    bindPaint(
+      node: SceneNode,
+      path: TokenPath,
+      field?: "fills" | "strokes",
+    ): Promise<boolean>;
+    /**
+     * TodoDesign의 design.layout / design.styles 객체를 그대로 적용
+     * 문자열은 토큰으로 바인딩하고 숫자는 직접 설정
+     * @returns 바인딩에 성공한 토큰 수
+     */
+    apply(
+      node: SceneNode,
+      values: { [field: string]: unknown },
+    ): Promise<number>;
+  }
+}
+
+export {};
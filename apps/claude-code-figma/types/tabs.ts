@@ -4,6 +4,7 @@ export interface ConversationTab {
   createdAt: Date;
   messages?: Message[];
   lastFigmaContext?: any;
+  workspaceId?: string; // 워크스페이스 설정 id (없으면 기본 워크스페이스)
 }
 
 export interface Message {
@@ -1,17 +1,32 @@
 /// <reference types="@figma/plugin-typings" />
 
-import { getNodeSummarize } from "./functions/get-node-summarize";
+import {
+  captureContextImages,
+  postContextImageChunks,
+  trackContextImageVersions,
+} from "./functions/capture-context-images";
+import { createChangeSet } from "./functions/create-change-set";
+import { createExecutionTracker } from "./functions/create-execution-tracker";
+import { createFontResolver } from "./functions/create-font-resolver";
+import {
+  SandboxPolicyViolation,
+  createFigmaSandbox,
+} from "./functions/create-figma-sandbox";
+import { getContextTree } from "./functions/get-context-tree";
+import { getNodeDetail } from "./functions/get-node-detail";
 import { getRootFrame } from "./functions/get-root-frame";
-import { preloadPretendardFonts } from "./functions/preload-pretendard-fonts";
+import { captureSubtreeSnapshots } from "./functions/node-snapshot";
+import { revertChangeSet } from "./functions/revert-change-set";
+import { rollbackExecution } from "./functions/rollback-execution";
+import { runDryExecution } from "./functions/run-dry-execution";
+import { scanDesignSystem } from "./functions/scan-design-system";
 
 figma.showUI(__html__, { visible: true, width: 600, height: 640 });
 
-// Initialize fonts and text styles on startup
-async function initializePlugin() {
-  await preloadPretendardFonts();
-}
+trackContextImageVersions();
 
-initializePlugin();
+// 마지막 EXECUTE_CODE 실행 결과 (REPORT_EXECUTION 응답용)
+let lastExecutionReport: ExecutionReport | null = null;
 
 figma.on("selectionchange", () => {
   const selection = figma.currentPage.selection.map((node) => ({
@@ -35,18 +50,30 @@ figma.ui.onmessage = async (msg) => {
   console.log("🔽 [Plugin] Received message:", msg);
   const pluginMessage = msg.pluginMessage || msg;
   const { type, requestId } = pluginMessage;
-  let executedCodeLength = 0;
 
   try {
     switch (type) {
       case "GET_CONTEXT":
-        handleGET_CONTEXT();
+        await handleGET_CONTEXT(pluginMessage);
+        break;
+
+      case "GET_CONTEXT_DETAIL":
+        await handleGET_CONTEXT_DETAIL(pluginMessage);
         break;
 
       case "EXECUTE_CODE":
-        const { code } = pluginMessage;
+      case "EXECUTE_OPERATIONS":
+        // EXECUTE_OPERATIONS: 생성 코드 대신 JSON operation 목록을 인터프리터로 실행
+        const program: ExecutionProgram | null =
+          type === "EXECUTE_OPERATIONS"
+            ? Array.isArray(pluginMessage.operations)
+              ? pluginMessage.operations
+              : null
+            : typeof pluginMessage.code === "string" && pluginMessage.code
+              ? pluginMessage.code
+              : null;
 
-        if (!code || typeof code !== "string") {
+        if (!program) {
           figma.ui.postMessage({
             type: "CODE_EXECUTION_ERROR",
             requestId,
@@ -56,34 +83,121 @@ figma.ui.onmessage = async (msg) => {
           break;
         }
 
-        const startedAt = Date.now();
+        // 대상 노드/텍스트 스타일/코드에 쓰인 폰트를 미리 로드 (없는 폰트는 대체)
+        // 스타일을 import하지 않으므로 추적/dry run 이전에 호출해도 문서는 변경되지 않음
+        const fontResolver = await createFontResolver({
+          program,
+          nodes: await getSnapshotRoots([
+            ...(pluginMessage.nodeIds ?? []),
+            ...(pluginMessage.scopeNodeIds ?? []),
+          ]),
+          requirements: pluginMessage.fontRequirements,
+        });
+
+        // dryRun 모드: 복제본에서 실행 후 미리보기만 반환 (원본 변경 없음)
+        if (pluginMessage.dryRun) {
+          const preview = await runDryExecution(
+            program,
+            pluginMessage.scopeNodeIds,
+            pluginMessage.tokenSources,
+            fontResolver,
+          );
+          console.log("🧪 [Plugin] Dry run completed:", preview.report);
+
+          figma.ui.postMessage({
+            type: "DRY_RUN_RESULT",
+            requestId,
+            success: true,
+            from: "figma-plugin",
+            data: preview,
+          });
+          break;
+        }
+
+        // transactional 모드: 실패 시 생성 노드 제거 + 수정 노드 복원
+        // recordChangeSet: 나중에 되돌릴 수 있도록 변경 세트 반환
+        const snapshots =
+          pluginMessage.transactional || pluginMessage.recordChangeSet
+            ? await captureSubtreeSnapshots(
+                await getSnapshotRoots(pluginMessage.nodeIds),
+              )
+            : null;
+        const tracker = createExecutionTracker();
+        const sandbox = createFigmaSandbox({
+          scopeNodeIds: pluginMessage.scopeNodeIds,
+          tokenSources: pluginMessage.tokenSources,
+          fontResolver,
+        });
         let executionError: unknown = null;
 
+        // executedCodeLength와 에러 응답의 originalCode 기준
+        const source =
+          typeof program === "string" ? program : JSON.stringify(program);
+
+        tracker.start();
         try {
-          const aiFunction = new Function(code);
-          await Promise.resolve(aiFunction());
+          await sandbox.run(program);
         } catch (error) {
           executionError = error;
+        } finally {
+          // 기다리지 않은 비동기 코드가 리포트/롤백/변경 세트 이후에 문서를 수정하지 못하게 차단
+          sandbox.revoke();
         }
 
-        const durationMs = Date.now() - startedAt;
+        const errorMessage = executionError
+          ? executionError instanceof Error
+            ? executionError.message
+            : String(executionError)
+          : undefined;
+        const executionReport = await tracker.stop(source, errorMessage);
+        if (sandbox.violations.length > 0) {
+          executionReport.policyViolations = [...sandbox.violations];
+        }
+        if (sandbox.unresolvedTokens.length > 0) {
+          executionReport.unresolvedTokens = [...sandbox.unresolvedTokens];
+        }
+        if (sandbox.operationResults.length > 0) {
+          executionReport.operationResults = [...sandbox.operationResults];
+        }
+        if (fontResolver.substitutions().length > 0) {
+          executionReport.fontSubstitutions = fontResolver.substitutions();
+        }
+        lastExecutionReport = executionReport;
 
         if (executionError) {
-          const errorMessage =
-            executionError instanceof Error
-              ? executionError.message
-              : String(executionError);
           const errorStack =
             executionError instanceof Error ? executionError.stack || "" : "";
 
+          if (snapshots && pluginMessage.transactional) {
+            executionReport.rollback = await rollbackExecution(
+              executionReport,
+              snapshots,
+            );
+            console.log(
+              "↩️ [Plugin] Rolled back failed execution:",
+              executionReport.rollback,
+            );
+          }
+
           figma.ui.postMessage({
             type: "CODE_EXECUTION_ERROR",
             requestId,
             success: false,
             from: "figma-plugin",
             data: {
-              originalCode: code,
+              originalCode: source,
               errorMessage,
+              errorStack,
+              errorType:
+                executionError instanceof SandboxPolicyViolation
+                  ? "POLICY_VIOLATION"
+                  : "RUNTIME",
+              createdNodeIds: executionReport.createdNodeIds,
+              executionReport,
+              changeSet:
+                snapshots && !executionReport.rollback
+                  ? await createChangeSet(executionReport, snapshots)
+                  : undefined,
             },
           });
         } else {
@@ -93,8 +207,13 @@ figma.ui.onmessage = async (msg) => {
             success: true,
             from: "figma-plugin",
             data: {
-              executedCodeLength,
-              executionTime: durationMs,
+              executedCodeLength: executionReport.executedCodeLength,
+              executionTime: executionReport.durationMs,
+              createdNodeIds: executionReport.createdNodeIds,
+              executionReport,
+              changeSet: snapshots
+                ? await createChangeSet(executionReport, snapshots)
+                : undefined,
               result: "Code executed successfully",
             },
           });
@@ -103,6 +222,55 @@ figma.ui.onmessage = async (msg) => {
         }
         break;
 
+      case "REPORT_EXECUTION":
+        figma.ui.postMessage({
+          type: "EXECUTION_REPORT",
+          requestId,
+          success: true,
+          from: "figma-plugin",
+          data: lastExecutionReport,
+        });
+        break;
+
+      case "REVERT_RUN":
+        if (!pluginMessage.changeSet) {
+          figma.ui.postMessage({
+            type: "RUN_REVERTED",
+            requestId,
+            success: false,
+            from: "figma-plugin",
+            error: "changeSet is required",
+          });
+          break;
+        }
+
+        const revertResult = await revertChangeSet(pluginMessage.changeSet);
+        console.log("↩️ [Plugin] Reverted run:", revertResult);
+
+        figma.ui.postMessage({
+          type: "RUN_REVERTED",
+          requestId,
+          success: true,
+          from: "figma-plugin",
+          data: revertResult,
+        });
+        break;
+
+      case "SCAN_DESIGN_SYSTEM":
+        const catalog = await scanDesignSystem();
+        console.log(
+          `🧩 [Plugin] Scanned design system: ${catalog.components.length} components, ${catalog.variableCollections.length} variable collections`,
+        );
+
+        figma.ui.postMessage({
+          type: "DESIGN_SYSTEM_SCANNED",
+          requestId,
+          success: true,
+          from: "figma-plugin",
+          data: catalog,
+        });
+        break;
+
       default:
         console.warn(`⚠️ [Plugin] Unknown command type: ${type}`);
         figma.ui.postMessage({
@@ -135,43 +303,36 @@ figma.ui.onmessage = async (msg) => {
   }
 };
 
-const handleGET_CONTEXT = async () => {
-  const selectedNodesInfo = await Promise.all(
-    figma.currentPage.selection.map((node: SceneNode) =>
-      getNodeSummarize(node),
-    ),
+const handleGET_CONTEXT = async (pluginMessage: {
+  requestId?: string;
+  contextOptions?: ContextSerializeOptions;
+  imageOptions?: ContextImageOptions;
+}) => {
+  const { requestId } = pluginMessage;
+  const selectedNodesInfo = await getContextTree(
+    figma.currentPage.selection,
+    pluginMessage.contextOptions,
   );
 
-  // 웹 디자인 파악용 최적화된 이미지 export
-  const selectedNodesImage = await Promise.all(
-    figma.currentPage.selection.map(async (node) => {
-      const rootFrame = getRootFrame(node);
-
-      let nodeImage = await rootFrame.exportAsync({
-        format: "JPG" as const,
-        constraint: {
-          type: "SCALE",
-          value: 0.5,
-        },
-      });
-
-      return {
-        nodeId: node.id,
-        nodeName: node.name,
-        nodeImage: Array.from(nodeImage),
-      };
-    }),
+  // 이미지 바이트는 청크로 먼저 보내고 응답에는 메타데이터만 포함
+  const captures = await captureContextImages(
+    figma.currentPage.selection,
+    pluginMessage.imageOptions,
   );
+  captures.forEach(({ image, bytes }) => {
+    if (bytes) postContextImageChunks(requestId, image, bytes);
+  });
 
   const contextData = {
     selectedNodes: selectedNodesInfo,
-    selectedNodesImage,
+    selectedNodesImage: captures.map(({ image }) => image),
   };
 
   console.log("📎 [Plugin] GET_CONTEXT response:", contextData);
 
   const response = {
     type: "CONTEXT",
+    requestId,
     success: true,
     data: contextData,
     from: "figma-plugin",
@@ -179,3 +340,54 @@ const handleGET_CONTEXT = async () => {
 
   figma.ui.postMessage(response);
 };
+
+const handleGET_CONTEXT_DETAIL = async (pluginMessage: {
+  requestId?: string;
+  nodeId?: string;
+  depth?: number;
+}) => {
+  const { requestId, nodeId, depth } = pluginMessage;
+  const node = nodeId ? await figma.getNodeByIdAsync(nodeId) : null;
+
+  if (!node || node.type === "DOCUMENT" || node.type === "PAGE") {
+    figma.ui.postMessage({
+      type: "CONTEXT_DETAIL",
+      requestId,
+      success: false,
+      from: "figma-plugin",
+      error: `Node not found: ${nodeId}`,
+    });
+    return;
+  }
+
+  const detail = await getNodeDetail(
+    node as SceneNode,
+    typeof depth === "number" && depth >= 0 ? depth : 1,
+  );
+
+  console.log("📎 [Plugin] GET_CONTEXT_DETAIL response:", detail);
+
+  figma.ui.postMessage({
+    type: "CONTEXT_DETAIL",
+    requestId,
+    success: true,
+    data: detail,
+    from: "figma-plugin",
+  });
+};
+
+// 스냅샷 대상: 현재 선택 노드의 루트 프레임 + 요청에 명시된 노드
+const getSnapshotRoots = async (nodeIds: string[] = []) => {
+  const roots = new Map<string, SceneNode>();
+  figma.currentPage.selection.forEach((node) => {
+    const rootFrame = getRootFrame(node);
+    roots.set(rootFrame.id, rootFrame);
+  });
+  for (const id of nodeIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (node && "visible" in node) {
+      roots.set(node.id, node);
+    }
+  }
+  return [...roots.values()];
+};
@@ -0,0 +1,153 @@
+import { getRootFrame } from "./get-root-frame";
+
+const DEFAULT_IMAGE_OPTIONS: Required<
+  Omit<ContextImageOptions, "cachedImageKeys">
+> = {
+  format: "JPG",
+  scale: 1,
+  maxPixelSize: 1600,
+  includeCrops: true,
+};
+
+// postMessage 한 번에 보내는 이미지 바이트 수
+const IMAGE_CHUNK_SIZE = 256 * 1024;
+
+// 플러그인을 다시 실행해도 이전 실행의 버전과 겹치지 않도록 구분
+const sessionId = Date.now().toString(36);
+const nodeVersions = new Map<string, number>();
+// 삭제, 스타일, 메인 컴포넌트 변경처럼 영향 범위를 알 수 없는 변경 횟수
+let globalVersion = 0;
+
+// 변경된 노드와 조상 노드의 이미지는 모두 달라짐
+const bumpNodeVersions = (node: BaseNode) => {
+  let current: BaseNode | null = node;
+  let changesComponent = false;
+  while (current && current.type !== "PAGE" && current.type !== "DOCUMENT") {
+    if (current.type === "COMPONENT" || current.type === "COMPONENT_SET") {
+      changesComponent = true;
+    }
+    nodeVersions.set(current.id, (nodeVersions.get(current.id) ?? 0) + 1);
+    current = current.parent;
+  }
+  // 다른 위치의 인스턴스도 바뀌므로 전체 버전 갱신
+  if (changesComponent) globalVersion++;
+};
+
+const getNodeVersion = (node: SceneNode) =>
+  `${sessionId}.${globalVersion}.${nodeVersions.get(node.id) ?? 0}`;
+
+/**
+ * 문서 변경을 추적해 노드별 이미지 버전을 갱신 (플러그인 시작 시 한 번 등록)
+ */
+export const trackContextImageVersions = () => {
+  figma.on("documentchange", ({ documentChanges }) => {
+    documentChanges.forEach((change) => {
+      if (
+        (change.type === "CREATE" || change.type === "PROPERTY_CHANGE") &&
+        !change.node.removed
+      ) {
+        bumpNodeVersions(change.node);
+      } else {
+        globalVersion++;
+      }
+    });
+  });
+};
+
+/**
+ * 선택 노드의 루트 프레임 전체와 선택 노드별 crop을 export
+ * - 배율은 긴 변이 maxPixelSize를 넘지 않도록 낮춤
+ * - cachedImageKeys에 있는 이미지는 export하지 않고 메타데이터만 반환
+ */
+export const captureContextImages = async (
+  selection: readonly SceneNode[],
+  options: ContextImageOptions = {},
+): Promise<{ image: ContextImage; bytes: Uint8Array | null }[]> => {
+  const { format, scale, maxPixelSize, includeCrops } = {
+    ...DEFAULT_IMAGE_OPTIONS,
+    ...options,
+  };
+  const cachedImageKeys = new Set(options.cachedImageKeys ?? []);
+
+  const targets = new Map<
+    string,
+    { node: SceneNode; kind: ContextImage["kind"] }
+  >();
+  selection.forEach((node) => {
+    const rootFrame = getRootFrame(node);
+    if (!targets.has(rootFrame.id)) {
+      targets.set(rootFrame.id, { node: rootFrame, kind: "root" });
+    }
+  });
+  if (includeCrops) {
+    selection.forEach((node) => {
+      if (!targets.has(node.id)) targets.set(node.id, { node, kind: "crop" });
+    });
+  }
+
+  const captures: { image: ContextImage; bytes: Uint8Array | null }[] = [];
+  for (const { node, kind } of targets.values()) {
+    const exportScale = Math.min(
+      scale,
+      maxPixelSize / Math.max(node.width, node.height, 1),
+    );
+    const version = getNodeVersion(node);
+    const image: ContextImage = {
+      nodeId: node.id,
+      nodeName: node.name,
+      kind,
+      format,
+      scale: exportScale,
+      width: Math.round(node.width * exportScale),
+      height: Math.round(node.height * exportScale),
+      version,
+      cacheKey: `${node.id}@${version}:${format}@${exportScale.toFixed(3)}`,
+      chunkCount: 0,
+    };
+
+    if (cachedImageKeys.has(image.cacheKey)) {
+      captures.push({ image, bytes: null });
+      continue;
+    }
+
+    try {
+      const bytes = await node.exportAsync({
+        format,
+        constraint: { type: "SCALE", value: exportScale },
+      });
+      image.chunkCount = Math.max(
+        Math.ceil(bytes.length / IMAGE_CHUNK_SIZE),
+        1,
+      );
+      captures.push({ image, bytes });
+    } catch (error) {
+      console.warn(`⚠️ [Plugin] Cannot export ${node.name}`, error);
+    }
+  }
+
+  return captures;
+};
+
+/**
+ * 이미지 바이트를 CONTEXT_IMAGE_CHUNK 메시지로 나눠 전송 (CONTEXT 응답보다 먼저)
+ */
+export const postContextImageChunks = (
+  requestId: string | undefined,
+  image: ContextImage,
+  bytes: Uint8Array,
+) => {
+  for (let index = 0; index < image.chunkCount; index++) {
+    figma.ui.postMessage({
+      type: "CONTEXT_IMAGE_CHUNK",
+      requestId,
+      cacheKey: image.cacheKey,
+      index,
+      total: image.chunkCount,
+      bytes: bytes.slice(
+        index * IMAGE_CHUNK_SIZE,
+        (index + 1) * IMAGE_CHUNK_SIZE,
+      ),
+      from: "figma-plugin",
+    });
+  }
+};
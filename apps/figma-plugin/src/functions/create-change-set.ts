@@ -0,0 +1,67 @@
+import { captureNodeSnapshot } from "./node-snapshot";
+
+// 삭제된 노드와 그 하위 노드의 실행 전 스냅샷 수집
+const collectDeletedSnapshots = (
+  deletedNodeIds: string[],
+  snapshots: Map<string, NodeSnapshot>,
+): NodeSnapshot[] => {
+  const deletedIds = new Set(deletedNodeIds);
+  const result: NodeSnapshot[] = [];
+
+  // 스냅샷은 BFS 순서이므로 부모가 항상 자식보다 먼저 등장
+  snapshots.forEach((snapshot) => {
+    if (
+      deletedIds.has(snapshot.id) ||
+      (snapshot.parentId && deletedIds.has(snapshot.parentId))
+    ) {
+      deletedIds.add(snapshot.id);
+      result.push(snapshot);
+    }
+  });
+
+  return result;
+};
+
+/**
+ * 실행 리포트와 실행 전 스냅샷으로 되돌리기용 변경 세트 생성
+ */
+export const createChangeSet = async (
+  report: ExecutionReport,
+  snapshots: Map<string, NodeSnapshot>,
+): Promise<ExecutionChangeSet> => {
+  const changeSet: ExecutionChangeSet = {
+    createdNodes: [],
+    updatedNodes: [],
+    deletedNodes: collectDeletedSnapshots(report.deletedNodeIds, snapshots),
+    untrackedNodeIds: [],
+  };
+
+  for (const id of report.createdNodeIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (node && "visible" in node) {
+      changeSet.createdNodes.push(await captureNodeSnapshot(node));
+    }
+  }
+
+  for (const updated of report.updatedNodes) {
+    const before = snapshots.get(updated.id);
+    const node = await figma.getNodeByIdAsync(updated.id);
+    if (!before || !node || !("visible" in node)) {
+      changeSet.untrackedNodeIds.push(updated.id);
+      continue;
+    }
+    changeSet.updatedNodes.push({
+      before,
+      after: await captureNodeSnapshot(node),
+    });
+  }
+
+  const trackedDeletedIds = new Set(
+    changeSet.deletedNodes.map((snapshot) => snapshot.id),
+  );
+  report.deletedNodeIds.forEach((id) => {
+    if (!trackedDeletedIds.has(id)) changeSet.untrackedNodeIds.push(id);
+  });
+
+  return changeSet;
+};
@@ -0,0 +1,197 @@
+import { getNodeDetail, getNodeSummary } from "./get-node-detail";
+
+// documentchange는 비동기로 묶여서 전달되므로 실행 직후 잠시 대기 후 수집 종료
+const FLUSH_DELAY_MS = 50;
+
+// NodeChangeProperty → 워크플로우 verify 단계에서 사용하는 속성 카테고리
+const propertyCategories: Record<string, string> = {
+  name: "name",
+  width: "size",
+  height: "size",
+  minWidth: "size",
+  maxWidth: "size",
+  minHeight: "size",
+  maxHeight: "size",
+  x: "position",
+  y: "position",
+  rotation: "position",
+  relativeTransform: "position",
+  parent: "hierarchy",
+  constraints: "constraints",
+  layoutMode: "layout",
+  layoutWrap: "layout",
+  paddingLeft: "layout",
+  paddingTop: "layout",
+  paddingRight: "layout",
+  paddingBottom: "layout",
+  itemSpacing: "layout",
+  counterAxisSpacing: "layout",
+  layoutAlign: "layout",
+  counterAxisSizingMode: "layout",
+  primaryAxisSizingMode: "layout",
+  primaryAxisAlignItems: "layout",
+  counterAxisAlignItems: "layout",
+  counterAxisAlignContent: "layout",
+  layoutGrow: "layout",
+  layoutPositioning: "layout",
+  itemReverseZIndex: "layout",
+  characters: "text",
+  fontName: "text",
+  fontSize: "text",
+  lineHeight: "text",
+  letterSpacing: "text",
+  textAlignHorizontal: "text",
+  textAlignVertical: "text",
+  textCase: "text",
+  textDecoration: "text",
+  textAutoResize: "text",
+  textTruncation: "text",
+  maxLines: "text",
+  paragraphIndent: "text",
+  paragraphSpacing: "text",
+  styledTextSegments: "text",
+  textStyleId: "text",
+  fills: "fills",
+  fillStyleId: "fills",
+  backgrounds: "fills",
+  backgroundStyleId: "fills",
+  strokes: "strokes",
+  strokeWeight: "strokes",
+  strokeAlign: "strokes",
+  strokeStyleId: "strokes",
+  dashPattern: "strokes",
+  effects: "effects",
+  effectStyleId: "effects",
+  componentProperties: "component",
+  componentPropertyReferences: "component",
+  componentPropertyDefinitions: "component",
+};
+
+const getChangedProperties = (
+  node: SceneNode,
+  properties: Set<string>,
+): string[] => {
+  const changed = new Set<string>();
+  properties.forEach((property) => {
+    changed.add(propertyCategories[property] || property);
+  });
+
+  // 변경된 속성 중 variable이 바인딩된 것이 있으면 variables로 표시
+  const boundVariables =
+    "boundVariables" in node ? node.boundVariables : undefined;
+  if (
+    boundVariables &&
+    [...properties].some((property) => property in boundVariables)
+  ) {
+    changed.add("variables");
+  }
+
+  return [...changed];
+};
+
+const getUpdatedNodeSummary = async (
+  node: SceneNode,
+  properties: Set<string>,
+): Promise<UpdatedNodeSummary> => {
+  const summary: UpdatedNodeSummary = {
+    ...getNodeSummary(node),
+    changedProperties: getChangedProperties(node, properties),
+  };
+
+  if (node.type === "INSTANCE") {
+    const mainComponent = await node.getMainComponentAsync();
+    summary.componentKey = mainComponent?.key ?? null;
+    summary.componentName =
+      mainComponent?.parent?.type === "COMPONENT_SET"
+        ? mainComponent.parent.name
+        : (mainComponent?.name ?? null);
+    summary.variantProps = node.variantProperties ?? undefined;
+  }
+
+  return summary;
+};
+
+/**
+ * 코드 실행 중 발생한 노드 생성/수정/삭제를 documentchange 이벤트로 추적
+ */
+export const createExecutionTracker = () => {
+  const createdNodeIds = new Set<string>();
+  const updatedProperties = new Map<string, Set<string>>();
+  const deletedNodeIds = new Set<string>();
+  let startedAt = 0;
+
+  const handleDocumentChange = (event: DocumentChangeEvent) => {
+    event.documentChanges.forEach((change) => {
+      if (change.origin !== "LOCAL") return;
+
+      switch (change.type) {
+        case "CREATE":
+          createdNodeIds.add(change.id);
+          break;
+
+        case "DELETE":
+          // 이번 실행에서 생성 후 삭제된 노드는 리포트에서 제외
+          if (createdNodeIds.has(change.id)) {
+            createdNodeIds.delete(change.id);
+          } else {
+            deletedNodeIds.add(change.id);
+          }
+          updatedProperties.delete(change.id);
+          break;
+
+        case "PROPERTY_CHANGE": {
+          if (createdNodeIds.has(change.id)) break;
+          const properties = updatedProperties.get(change.id) ?? new Set();
+          change.properties.forEach((property) => properties.add(property));
+          updatedProperties.set(change.id, properties);
+          break;
+        }
+      }
+    });
+  };
+
+  const start = () => {
+    startedAt = Date.now();
+    figma.on("documentchange", handleDocumentChange);
+  };
+
+  const stop = async (
+    code: string,
+    error?: string,
+  ): Promise<ExecutionReport> => {
+    const durationMs = Date.now() - startedAt;
+
+    await new Promise((resolve) => setTimeout(resolve, FLUSH_DELAY_MS));
+    figma.off("documentchange", handleDocumentChange);
+
+    const createdNodes: NodeDetail[] = [];
+    for (const id of createdNodeIds) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (node && "visible" in node) {
+        createdNodes.push(await getNodeDetail(node, 0));
+      }
+    }
+
+    const updatedNodes: UpdatedNodeSummary[] = [];
+    for (const [id, properties] of updatedProperties) {
+      const node = await figma.getNodeByIdAsync(id);
+      if (node && "visible" in node) {
+        updatedNodes.push(await getUpdatedNodeSummary(node, properties));
+      }
+    }
+
+    return {
+      timestamp: Date.now(),
+      durationMs,
+      executedCodeLength: code.length,
+      createdNodes,
+      updatedNodes,
+      deletedNodeIds: [...deletedNodeIds],
+      selection: figma.currentPage.selection.map(getNodeSummary),
+      createdNodeIds: createdNodes.map((node) => node.id),
+      ...(error ? { error } : { message: "Code executed successfully" }),
+    };
+  };
+
+  return { start, stop };
+};
@@ -0,0 +1,556 @@
+import { FontResolver } from "./create-font-resolver";
+import { createTokenRuntime } from "./create-token-runtime";
+import { runDesignOperations } from "./run-design-operations";
+
+// 생성 코드 실행 제한 시간 (웹 클라이언트 요청 타임아웃 30초보다 짧게)
+const EXECUTION_TIMEOUT_MS = 20000;
+
+// 한 번의 실행에서 생성 가능한 최대 노드 수
+const MAX_CREATED_NODES = 500;
+
+// 생성 코드에 노출하는 figma API (clientStorage, ui, closePlugin 등은 차단)
+const allowedFigmaApis = new Set([
+  "mixed",
+  "root",
+  "currentPage",
+  "getNodeById",
+  "getNodeByIdAsync",
+  "createFrame",
+  "createRectangle",
+  "createEllipse",
+  "createLine",
+  "createPolygon",
+  "createStar",
+  "createVector",
+  "createText",
+  "createComponent",
+  "createNodeFromSvg",
+  "createImage",
+  "group",
+  "flatten",
+  "union",
+  "subtract",
+  "intersect",
+  "exclude",
+  "ungroup",
+  "loadFontAsync",
+  "listAvailableFontsAsync",
+  "importComponentByKeyAsync",
+  "importComponentSetByKeyAsync",
+  "importStyleByKeyAsync",
+  "getStyleByIdAsync",
+  "getLocalPaintStylesAsync",
+  "getLocalTextStylesAsync",
+  "getLocalEffectStylesAsync",
+  "variables",
+  "teamLibrary",
+  "util",
+  "viewport",
+  "notify",
+]);
+
+// 노드를 생성하는 API (생성 예산 차감)
+const nodeCreatingApis = new Set([
+  "createFrame",
+  "createRectangle",
+  "createEllipse",
+  "createLine",
+  "createPolygon",
+  "createStar",
+  "createVector",
+  "createText",
+  "createComponent",
+  "createNodeFromSvg",
+  "group",
+  "flatten",
+  "union",
+  "subtract",
+  "intersect",
+  "exclude",
+  "createInstance",
+  "clone",
+]);
+
+// 인자로 받은 기존 노드를 제거/병합하는 figma API
+const nodeConsumingApis = new Set([
+  "group",
+  "flatten",
+  "union",
+  "subtract",
+  "intersect",
+  "exclude",
+  "ungroup",
+]);
+
+// 읽기 전용 노드에서도 호출 가능한 메서드 (조회, export, 복제/인스턴스 생성)
+const readOnlyNodeMethods = new Set(["clone", "createInstance"]);
+const READ_ONLY_METHOD_PATTERN = /^(get|find|export)/;
+
+const isReadOnlyMethod = (method: string) =>
+  readOnlyNodeMethods.has(method) || READ_ONLY_METHOD_PATTERN.test(method);
+
+export class SandboxPolicyViolation extends Error {
+  policy: SandboxPolicy;
+
+  constructor(policy: SandboxPolicy, message: string) {
+    super(message);
+    this.name = "SandboxPolicyViolation";
+    this.policy = policy;
+  }
+}
+
+// 생성 코드 관례: 마지막 줄의 `executeCode();`는 호출만 하고 반환하지 않음
+const ENTRY_CALL_PATTERN =
+  /(^|[;}\n])\s*(?:await\s+)?executeCode\(\s*\)\s*;?\s*$/;
+
+/**
+ * 마지막 executeCode() 호출을 return으로 바꿔 실행 완료(및 비동기 에러)를 기다릴 수 있게 함
+ */
+const returnEntryCall = (code: string) =>
+  ENTRY_CALL_PATTERN.test(code)
+    ? code.replace(ENTRY_CALL_PATTERN, "$1\nreturn executeCode();")
+    : code;
+
+const isSceneNode = (value: any): value is BaseNode =>
+  !!value &&
+  typeof value === "object" &&
+  typeof value.id === "string" &&
+  typeof value.type === "string" &&
+  "parent" in value;
+
+/**
+ * 생성 코드 실행용 샌드박스
+ * - allowlist에 있는 figma API만 노출
+ * - 실행 범위(scope) 밖 기존 노드의 삭제/이동/병합 차단
+ * - 노드 생성 예산과 실행 시간 제한
+ * @param scopeNodeIds - Planning의 scope.targetNodes (하위 노드 포함 허용)
+ * @param page - figma.currentPage 대신 노출할 페이지 (dry run용 scratch 페이지)
+ * @param nodeIdMap - 원본 노드 ID → 대체 노드 ID (dry run용 복제본)
+ * @param tokenSources - 생성 코드의 tokens 런타임이 먼저 검색할 변수 컬렉션
+ * @param fontResolver - 사용할 수 없는 폰트를 대체 폰트로 바꿔 로드/설정
+ * @param writableRootIds - 지정하면 이 노드의 하위와 이번 실행에서 생성한 노드만 수정 허용 (dry run용)
+ */
+export const createFigmaSandbox = ({
+  scopeNodeIds = [],
+  maxCreatedNodes = MAX_CREATED_NODES,
+  timeoutMs = EXECUTION_TIMEOUT_MS,
+  page,
+  nodeIdMap,
+  tokenSources,
+  fontResolver,
+  writableRootIds,
+}: {
+  scopeNodeIds?: string[];
+  maxCreatedNodes?: number;
+  timeoutMs?: number;
+  page?: PageNode;
+  nodeIdMap?: Map<string, string>;
+  tokenSources?: TokenSource[];
+  fontResolver?: FontResolver;
+  writableRootIds?: string[];
+} = {}) => {
+  const scopeIds = new Set(scopeNodeIds.map((id) => nodeIdMap?.get(id) ?? id));
+  const createdNodeIds = new Set<string>();
+  const violations: SandboxViolation[] = [];
+  const proxyTargets = new WeakMap<object, any>();
+  const nodeProxies = new Map<string, any>();
+  const writableIds = writableRootIds && new Set(writableRootIds);
+  let revoked = false;
+
+  const violate = (policy: SandboxPolicy, message: string): never => {
+    const violation = new SandboxPolicyViolation(policy, message);
+    violations.push({ policy, message });
+    throw violation;
+  };
+
+  const assertActive = () => {
+    if (revoked) {
+      violate("timeout", "Execution has already been stopped");
+    }
+  };
+
+  // 이번 실행에서 생성했거나 scope 노드의 하위인 경우만 허용
+  const isInScope = (node: BaseNode) => {
+    let current: BaseNode | null = node;
+    while (current) {
+      if (createdNodeIds.has(current.id) || scopeIds.has(current.id)) {
+        return true;
+      }
+      current = current.parent;
+    }
+    return false;
+  };
+
+  const assertInScope = (node: BaseNode, action: string) => {
+    if (!isInScope(node)) {
+      violate(
+        "out_of_scope",
+        `${action} is not allowed on "${node.name}" (${node.id}) outside the plan scope`,
+      );
+    }
+  };
+
+  const isWritable = (node: BaseNode) => {
+    if (!writableIds) return true;
+    let current: BaseNode | null = node;
+    while (current) {
+      if (createdNodeIds.has(current.id) || writableIds.has(current.id)) {
+        return true;
+      }
+      current = current.parent;
+    }
+    return false;
+  };
+
+  // dry run에서 복제본으로 매핑되지 않은 원본 노드는 읽기 전용
+  const assertWritable = (node: BaseNode, action: string) => {
+    if (!isWritable(node)) {
+      violate(
+        "out_of_scope",
+        `${action} is not allowed on "${node.name}" (${node.id}): the node is read-only in dry run`,
+      );
+    }
+  };
+
+  const unwrap = (value: any): any => {
+    if (Array.isArray(value)) return value.map(unwrap);
+    if (value && typeof value === "object" && proxyTargets.has(value)) {
+      return proxyTargets.get(value);
+    }
+    return value;
+  };
+
+  const wrap = (value: any): any => {
+    if (Array.isArray(value)) {
+      return value.some(isSceneNode) ? value.map(wrap) : value;
+    }
+    return isSceneNode(value) ? wrapNode(value) : value;
+  };
+
+  const wrapResult = (result: any) =>
+    result instanceof Promise ? result.then(wrap) : wrap(result);
+
+  const trackCreated = (result: any) => {
+    const track = (node: any) => {
+      if (!isSceneNode(node)) return;
+      createdNodeIds.add(node.id);
+      // 대체 페이지 사용 시 현재 페이지(또는 읽기 전용 노드 아래)에 생성된 노드를 옮김
+      if (
+        page &&
+        (node.parent === figma.currentPage ||
+          (node.parent && !isWritable(node.parent)))
+      ) {
+        page.appendChild(node as SceneNode);
+      }
+    };
+    if (result instanceof Promise) {
+      return result.then((node) => {
+        track(node);
+        return node;
+      });
+    }
+    track(result);
+    return result;
+  };
+
+  const assertBudget = (api: string) => {
+    if (createdNodeIds.size >= maxCreatedNodes) {
+      violate(
+        "node_budget",
+        `${api} exceeded the node creation budget (${maxCreatedNodes})`,
+      );
+    }
+  };
+
+  const guardNodeMethod = (node: BaseNode, method: string, args: any[]) => {
+    if (!isReadOnlyMethod(method)) {
+      assertWritable(node, `${method}()`);
+    }
+    switch (method) {
+      case "remove":
+        assertInScope(node, "remove()");
+        break;
+      case "appendChild":
+      case "insertChild": {
+        // 기존 노드를 scope 밖에서 옮겨오는 것은 원래 위치에서 삭제와 같음
+        const child = unwrap(method === "appendChild" ? args[0] : args[1]);
+        if (isSceneNode(child)) {
+          assertInScope(child, `${method}()`);
+          assertWritable(child, `${method}()`);
+        }
+        break;
+      }
+    }
+    if (nodeCreatingApis.has(method)) {
+      assertBudget(`${node.type}.${method}()`);
+    }
+  };
+
+  // 폰트 인자를 대체 폰트로 변환 (fontName 설정, setRangeFontName, loadFontAsync)
+  const resolveFont = (font: any) =>
+    fontResolver && font && typeof font === "object" && font !== figma.mixed
+      ? fontResolver.resolve(font as FontName)
+      : font;
+
+  // 기존 텍스트 노드는 처음 수정할 때 없는 폰트를 대체 폰트로 교체 (실행 추적 범위 안에서)
+  const preparedTextNodeIds = new Set<string>();
+  const prepareTextNode = (node: BaseNode) => {
+    if (
+      !fontResolver ||
+      node.type !== "TEXT" ||
+      createdNodeIds.has(node.id) ||
+      preparedTextNodeIds.has(node.id)
+    ) {
+      return;
+    }
+    preparedTextNodeIds.add(node.id);
+    fontResolver.applyToTextNode(node);
+  };
+
+  const wrapNode = (node: BaseNode): any => {
+    const cached = nodeProxies.get(node.id);
+    if (cached && proxyTargets.get(cached) === node) return cached;
+
+    const proxy = new Proxy(node, {
+      get(target, property) {
+        const value = Reflect.get(target, property, target);
+        if (typeof value !== "function") return wrap(value);
+
+        return (...args: any[]) => {
+          assertActive();
+          const method = String(property);
+          guardNodeMethod(target, method, args);
+          if (!isReadOnlyMethod(method)) prepareTextNode(target);
+          if (method === "setRangeFontName") {
+            args = [args[0], args[1], resolveFont(args[2])];
+          }
+          const result = value.apply(target, args.map(unwrap));
+          return wrapResult(
+            nodeCreatingApis.has(method) ? trackCreated(result) : result,
+          );
+        };
+      },
+      set(target, property, value) {
+        assertActive();
+        assertWritable(target, `Setting ${String(property)}`);
+        prepareTextNode(target);
+        const next = property === "fontName" ? resolveFont(value) : value;
+        return Reflect.set(target, property, unwrap(next), target);
+      },
+    });
+
+    proxyTargets.set(proxy, node);
+    nodeProxies.set(node.id, proxy);
+    return proxy;
+  };
+
+  // variables, viewport 등 하위 네임스페이스: 인자 unwrap + 결과 wrap
+  const wrapNamespace = (namespace: object): any =>
+    new Proxy(namespace, {
+      get(target, property) {
+        const value = Reflect.get(target, property, target);
+        if (typeof value !== "function") return wrap(value);
+        return (...args: any[]) => {
+          assertActive();
+          return wrapResult(value.apply(target, args.map(unwrap)));
+        };
+      },
+      set(target, property, value) {
+        assertActive();
+        return Reflect.set(target, property, unwrap(value), target);
+      },
+    });
+
+  const figmaProxy = new Proxy(figma, {
+    get(target, property) {
+      // await figma, console.log(figma), String(figma) 등이 조회하는 키는 위반이 아님
+      if (
+        typeof property === "symbol" ||
+        property === "then" ||
+        property === "toJSON"
+      ) {
+        return undefined;
+      }
+      if (property === "toString" || property === "valueOf") {
+        return () => "[object figma]";
+      }
+      const api = String(property);
+      if (!allowedFigmaApis.has(api)) {
+        violate(
+          "blocked_api",
+          `figma.${api} is not available in generated code`,
+        );
+      }
+
+      if (api === "currentPage" && page) {
+        return wrapNode(page);
+      }
+
+      const value = Reflect.get(target, property, target);
+      if (typeof value === "function") {
+        return (...args: any[]) => {
+          assertActive();
+          if (
+            (api === "getNodeById" || api === "getNodeByIdAsync") &&
+            nodeIdMap?.has(args[0])
+          ) {
+            args = [nodeIdMap.get(args[0]), ...args.slice(1)];
+          }
+          if (api === "loadFontAsync") {
+            args = [resolveFont(args[0])];
+          }
+          if (nodeConsumingApis.has(api)) {
+            const nodes = unwrap(args[0]);
+            (Array.isArray(nodes) ? nodes : [nodes]).forEach((node: any) => {
+              if (isSceneNode(node)) {
+                assertInScope(node, `figma.${api}()`);
+                assertWritable(node, `figma.${api}()`);
+              }
+            });
+            // group(nodes, parent) 등의 대상 부모
+            const parent = unwrap(args[1]);
+            if (isSceneNode(parent)) assertWritable(parent, `figma.${api}()`);
+          }
+          if (nodeCreatingApis.has(api)) {
+            assertBudget(`figma.${api}()`);
+          }
+          const result = value.apply(target, args.map(unwrap));
+          return wrapResult(
+            nodeCreatingApis.has(api) ? trackCreated(result) : result,
+          );
+        };
+      }
+      if (isSceneNode(value)) return wrapNode(value);
+      if (value && typeof value === "object") {
+        return wrapNamespace(value);
+      }
+      return value;
+    },
+    set(_target, property) {
+      return violate(
+        "blocked_api",
+        `figma.${String(property)} cannot be assigned in generated code`,
+      );
+    },
+  });
+
+  // 토큰 바인딩은 실제 노드를 직접 수정하므로 읽기 전용 여부를 먼저 확인
+  const unwrapWritable = (value: any) => {
+    const node = unwrap(value);
+    if (isSceneNode(node)) {
+      assertWritable(node, "Token binding");
+      prepareTextNode(node);
+    }
+    return node;
+  };
+
+  const tokenRuntime = createTokenRuntime({
+    sources: tokenSources,
+    unwrap: unwrapWritable,
+  });
+  const tokens = Object.freeze({
+    resolve: tokenRuntime.resolve,
+    bind: tokenRuntime.bind,
+    bindPaint: tokenRuntime.bindPaint,
+    apply: tokenRuntime.apply,
+  });
+
+  const blockedFetch = () =>
+    violate("network", "Network access is not allowed in generated code");
+
+  const operationResults: OperationResult[] = [];
+
+  const execute = (program: ExecutionProgram) => {
+    if (typeof program !== "string") {
+      return runDesignOperations(program, {
+        figma: figmaProxy,
+        tokens: tokenRuntime,
+        results: operationResults,
+      });
+    }
+    // strict mode + this 없음 + globalThis/self 가림: 프록시를 거치지 않는 전역 figma/fetch 접근 차단
+    // async 본문으로 실행하고 진입 promise를 반환해 executeCode 안의 await까지 기다림
+    const aiFunction = new Function(
+      "figma",
+      "fetch",
+      "tokens",
+      "globalThis",
+      "self",
+      `"use strict";\nreturn (async () => {\n${returnEntryCall(program)}\n})();`,
+    );
+    return aiFunction.call(
+      undefined,
+      figmaProxy,
+      blockedFetch,
+      tokens,
+      undefined,
+      undefined,
+    ) as Promise<unknown>;
+  };
+
+  /**
+   * 생성 코드 또는 operation 목록을 샌드박스 figma로 실행
+   * 코드가 try/catch로 정책 위반을 삼켜도 위반이 있으면 실패로 처리
+   * operation은 하나라도 실패하면 실패로 처리 (operation별 결과는 operationResults)
+   */
+  const run = async (program: ExecutionProgram) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        // 동기 무한 루프는 중단할 수 없으므로 이후의 비동기 API 호출만 차단
+        revoked = true;
+        violations.push({
+          policy: "timeout",
+          message: `Execution exceeded ${timeoutMs}ms`,
+        });
+        reject(
+          new SandboxPolicyViolation(
+            "timeout",
+            `Execution exceeded ${timeoutMs}ms`,
+          ),
+        );
+      }, timeoutMs);
+    });
+
+    try {
+      await Promise.race([execute(program), timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    if (violations.length > 0) {
+      throw new SandboxPolicyViolation(
+        violations[0].policy,
+        violations[0].message,
+      );
+    }
+
+    const failed = operationResults.filter(
+      (result) => result.status !== "success",
+    );
+    if (failed.length > 0) {
+      throw new Error(
+        `${failed.length} of ${operationResults.length} operations did not succeed: ` +
+          failed
+            .map((result) => `${result.id} (${result.status}: ${result.error})`)
+            .join("; "),
+      );
+    }
+  };
+
+  /**
+   * 이후의 figma API 호출 차단 (실행이 끝난 뒤에도 남아 있는 비동기 코드 대비)
+   */
+  const revoke = () => {
+    revoked = true;
+  };
+
+  return {
+    run,
+    revoke,
+    violations,
+    unresolvedTokens: tokenRuntime.unresolved,
+    operationResults,
+  };
+};
@@ -0,0 +1,209 @@
+// 설정된 대체 폰트도 없을 때 사용하는 Figma 기본 폰트
+const DEFAULT_FALLBACK_FONT: FontName = { family: "Inter", style: "Regular" };
+
+// 생성 코드의 { family: "...", style: "..." } 리터럴
+const FONT_LITERAL_PATTERN =
+  /family\s*:\s*["'`]([^"'`]+)["'`]\s*,\s*style\s*:\s*["'`]([^"'`]+)["'`]/g;
+
+const toFontKey = ({ family, style }: FontName) => `${family}\u0000${style}`;
+
+// "SemiBold", "Semi Bold", "semi-bold"를 같은 스타일로 취급
+const normalizeStyle = (style: string) =>
+  style.replace(/[\s_-]/g, "").toLowerCase();
+
+let availableFonts: Promise<FontName[]> | null = null;
+
+// 사용 가능한 폰트 목록 (플러그인 실행 동안 캐시)
+const getAvailableFonts = () => {
+  if (!availableFonts) {
+    availableFonts = figma
+      .listAvailableFontsAsync()
+      .then((fonts) => fonts.map(({ fontName }) => fontName))
+      .catch((error) => {
+        console.warn("⚠️ [Plugin] Cannot list available fonts", error);
+        availableFonts = null;
+        return [];
+      });
+  }
+  return availableFonts;
+};
+
+const collectProgramFonts = (program: ExecutionProgram): FontName[] => {
+  if (typeof program !== "string") {
+    return program.flatMap((operation) =>
+      operation.op === "setText" && operation.fontName
+        ? [operation.fontName]
+        : [],
+    );
+  }
+  return [...program.matchAll(FONT_LITERAL_PATTERN)].map(
+    ([, family, style]) => ({ family, style }),
+  );
+};
+
+// 대상 노드 하위 텍스트의 폰트와 텍스트 스타일 ID
+const collectNodeFonts = (nodes: SceneNode[]) => {
+  const fonts: FontName[] = [];
+  const textStyleIds = new Set<string>();
+
+  nodes.forEach((node) => {
+    const textNodes: TextNode[] =
+      node.type === "TEXT"
+        ? [node]
+        : "findAllWithCriteria" in node
+          ? node.findAllWithCriteria({ types: ["TEXT"] })
+          : [];
+    textNodes.forEach((text) => {
+      if (text.characters.length > 0) {
+        fonts.push(...text.getRangeAllFontNames(0, text.characters.length));
+      } else if (text.fontName !== figma.mixed) {
+        fonts.push(text.fontName);
+      }
+      if (typeof text.textStyleId === "string" && text.textStyleId) {
+        textStyleIds.add(text.textStyleId);
+      }
+    });
+  });
+
+  return { fonts, textStyleIds: [...textStyleIds] };
+};
+
+// 텍스트 스타일 폰트 (importStyleByKeyAsync는 문서에 스타일을 추가하므로 호출하지 않음)
+// 파일에 없는 key의 스타일은 생성 코드가 import 후 loadFontAsync로 로드
+const collectTextStyleFonts = async (
+  textStyleIds: string[],
+  textStyleKeys: string[],
+): Promise<FontName[]> => {
+  const keys = new Set(textStyleKeys);
+  const [usedStyles, localStyles] = await Promise.all([
+    Promise.all(
+      textStyleIds.map((id) => figma.getStyleByIdAsync(id).catch(() => null)),
+    ),
+    keys.size > 0
+      ? figma.getLocalTextStylesAsync().catch(() => [])
+      : Promise.resolve([]),
+  ]);
+  return [
+    ...usedStyles,
+    ...localStyles.filter((style) => keys.has(style.key)),
+  ].flatMap((style) =>
+    style?.type === "TEXT" ? [(style as TextStyle).fontName] : [],
+  );
+};
+
+/**
+ * 실행 전에 필요한 폰트를 수집해 미리 로드하고, 없는 폰트는 대체 폰트로 매핑
+ * - 수집 대상: 대상 노드 하위 텍스트, 그 텍스트 스타일, 파일에 있는 요청 텍스트 스타일,
+ *   요청 폰트, 생성 코드/operation에 적힌 폰트
+ * - 폰트 목록 조회와 로드만 하고 문서는 변경하지 않음 (실행 추적/dry run 이전에 호출)
+ * - 대체 순서: 같은 패밀리의 표기만 다른 스타일 → 설정된 대체 폰트 → Inter Regular
+ * @returns resolve: 실행 중 loadFontAsync/fontName 설정에 사용할 폰트로 변환
+ *   applyToTextNode: 수정하기 전의 기존 텍스트 노드에 대체 폰트 적용
+ */
+export const createFontResolver = async ({
+  program,
+  nodes = [],
+  requirements = {},
+}: {
+  program: ExecutionProgram;
+  nodes?: SceneNode[];
+  requirements?: FontRequirements;
+}) => {
+  const available = await getAvailableFonts();
+  const availableKeys = new Set(available.map(toFontKey));
+  const substitutions = new Map<string, FontSubstitution>();
+  const fallbackFont =
+    requirements.fallbackFont &&
+    availableKeys.has(toFontKey(requirements.fallbackFont))
+      ? requirements.fallbackFont
+      : DEFAULT_FALLBACK_FONT;
+
+  const resolve = (font: FontName): FontName => {
+    // 목록 조회에 실패한 경우 요청 폰트를 그대로 로드 시도
+    if (availableKeys.size === 0 || availableKeys.has(toFontKey(font))) {
+      return font;
+    }
+
+    const key = toFontKey(font);
+    const existing = substitutions.get(key);
+    if (existing) return existing.substitute;
+
+    const sameFamily = available.find(
+      (candidate) =>
+        candidate.family === font.family &&
+        normalizeStyle(candidate.style) === normalizeStyle(font.style),
+    );
+    const substitution: FontSubstitution = sameFamily
+      ? { requested: font, substitute: sameFamily, reason: "same_family" }
+      : { requested: font, substitute: fallbackFont, reason: "fallback" };
+    substitutions.set(key, substitution);
+    console.warn(
+      `⚠️ [Plugin] Font ${font.family} ${font.style} is unavailable, using ${substitution.substitute.family} ${substitution.substitute.style}`,
+    );
+    return substitution.substitute;
+  };
+
+  const nodeFonts = collectNodeFonts(nodes);
+  const requested = [
+    ...(requirements.fonts ?? []),
+    ...collectProgramFonts(program),
+    ...nodeFonts.fonts,
+    ...(await collectTextStyleFonts(
+      nodeFonts.textStyleIds,
+      requirements.textStyleKeys ?? [],
+    )),
+  ];
+
+  const fonts = new Map<string, FontName>();
+  requested.forEach((font) => {
+    const resolved = resolve(font);
+    fonts.set(toFontKey(resolved), resolved);
+  });
+  await Promise.all(
+    [...fonts.values()].map((font) =>
+      figma.loadFontAsync(font).catch((error) => {
+        console.warn(
+          `⚠️ [Plugin] Cannot preload font ${font.family} ${font.style}`,
+          error,
+        );
+      }),
+    ),
+  );
+
+  /**
+   * 기존 텍스트 노드에서 사용할 수 없는 폰트 범위를 대체 폰트로 교체
+   * 없는 폰트는 로드할 수 없어 그대로 두면 characters 등 수정 시 "unloaded font" 에러
+   */
+  const applyToTextNode = (node: TextNode) => {
+    const segments =
+      node.characters.length > 0
+        ? node.getStyledTextSegments(["fontName"])
+        : node.fontName !== figma.mixed
+          ? [{ start: 0, end: 0, fontName: node.fontName }]
+          : [];
+    segments.forEach(({ start, end, fontName }) => {
+      const resolved = resolve(fontName);
+      if (toFontKey(resolved) === toFontKey(fontName)) return;
+      try {
+        if (start === end) {
+          node.fontName = resolved;
+        } else {
+          node.setRangeFontName(start, end, resolved);
+        }
+      } catch (error) {
+        console.warn(
+          `⚠️ [Plugin] Cannot substitute font of ${node.name} (${node.id})`,
+          error,
+        );
+      }
+    });
+  };
+
+  return {
+    resolve,
+    applyToTextNode,
+    substitutions: () => [...substitutions.values()],
+  };
+};
+
+export type FontResolver = Awaited<ReturnType<typeof createFontResolver>>;
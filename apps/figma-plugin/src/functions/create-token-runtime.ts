@@ -0,0 +1,275 @@
+// cornerRadius 토큰은 네 모서리 필드에 각각 바인딩
+const RADIUS_FIELDS: VariableBindableNodeField[] = [
+  "topLeftRadius",
+  "topRightRadius",
+  "bottomLeftRadius",
+  "bottomRightRadius",
+];
+
+// 숫자(FLOAT) 변수를 바인딩할 수 있는 노드 필드
+export const numericTokenFields = new Set<string>([
+  "width",
+  "height",
+  "minWidth",
+  "maxWidth",
+  "minHeight",
+  "maxHeight",
+  "itemSpacing",
+  "counterAxisSpacing",
+  "paddingLeft",
+  "paddingRight",
+  "paddingTop",
+  "paddingBottom",
+  "strokeWeight",
+  "opacity",
+  "cornerRadius",
+  ...RADIUS_FIELDS,
+]);
+
+// 색상(COLOR) 변수를 SolidPaint로 바인딩하는 필드
+const paintTokenFields = new Set<string>(["fills", "strokes"]);
+
+/**
+ * 생성 코드에 `tokens`로 노출하는 디자인 토큰 런타임
+ * "space/200", "semantic/color/primary/500" 같은 토큰 경로를 변수로 찾아 노드에 바인딩
+ * - 로컬 변수 → 토큰 접두사에 맞는 라이브러리 컬렉션 → 사용 가능한 모든 라이브러리 순으로 검색
+ * - 찾지 못하거나 바인딩에 실패한 토큰은 unresolved에 기록 (ExecutionReport.unresolvedTokens)
+ * @param sources - 워크스페이스의 토큰 접두사별 라이브러리 컬렉션 key
+ * @param unwrap - 샌드박스 노드 프록시 → 실제 노드
+ */
+export const createTokenRuntime = ({
+  sources = [],
+  unwrap = (value) => value,
+}: {
+  sources?: TokenSource[];
+  unwrap?: (value: any) => any;
+} = {}) => {
+  const unresolved: UnresolvedToken[] = [];
+  const variables = new Map<string, Promise<Variable | null>>();
+  const libraryVariables = new Map<string, Promise<LibraryVariable[]>>();
+  let localVariables: Promise<Variable[]> | null = null;
+  let libraryCollectionKeys: Promise<string[]> | null = null;
+
+  const report = (
+    token: string,
+    node: SceneNode | null,
+    field: string,
+    reason: UnresolvedToken["reason"],
+    message?: string,
+  ) => {
+    unresolved.push({
+      token,
+      nodeId: node?.id ?? null,
+      nodeName: node?.name ?? null,
+      field,
+      reason,
+      ...(message ? { message } : {}),
+    });
+  };
+
+  const getLibraryVariables = (collectionKey: string) => {
+    if (!libraryVariables.has(collectionKey)) {
+      libraryVariables.set(
+        collectionKey,
+        figma.teamLibrary
+          .getVariablesInLibraryCollectionAsync(collectionKey)
+          .catch(() => []),
+      );
+    }
+    return libraryVariables.get(collectionKey)!;
+  };
+
+  // 접두사가 일치하는 워크스페이스 컬렉션을 먼저, 나머지 라이브러리 컬렉션은 그 다음에 검색
+  const getCandidateCollectionKeys = async (path: string) => {
+    const preferred = sources
+      .filter(({ prefix }) => path.startsWith(prefix))
+      .map(({ collectionKey }) => collectionKey);
+
+    if (!libraryCollectionKeys) {
+      libraryCollectionKeys = figma.teamLibrary
+        .getAvailableLibraryVariableCollectionsAsync()
+        .then((collections) => collections.map(({ key }) => key))
+        .catch(() => []);
+    }
+    const available = await libraryCollectionKeys;
+    return [...new Set([...preferred, ...available])];
+  };
+
+  const findVariable = async (path: string): Promise<Variable | null> => {
+    if (!localVariables) {
+      localVariables = figma.variables.getLocalVariablesAsync();
+    }
+    const local = (await localVariables).find(
+      (variable) => variable.name === path,
+    );
+    if (local) return local;
+
+    for (const collectionKey of await getCandidateCollectionKeys(path)) {
+      const match = (await getLibraryVariables(collectionKey)).find(
+        (variable) => variable.name === path,
+      );
+      if (match) {
+        return figma.variables.importVariableByKeyAsync(match.key);
+      }
+    }
+    return null;
+  };
+
+  /**
+   * 토큰 경로 → Variable (실행 중 캐시, 없으면 null)
+   */
+  const resolve = (path: string): Promise<Variable | null> => {
+    if (!variables.has(path)) {
+      variables.set(
+        path,
+        findVariable(path).catch((error) => {
+          console.warn(`⚠️ [Plugin] Cannot resolve token ${path}`, error);
+          return null;
+        }),
+      );
+    }
+    return variables.get(path)!;
+  };
+
+  const resolveTyped = async (
+    node: SceneNode,
+    field: string,
+    path: string,
+    type: VariableResolvedDataType,
+  ) => {
+    const variable = await resolve(path);
+    if (!variable) {
+      report(path, node, field, "not_found");
+      return null;
+    }
+    if (variable.resolvedType !== type) {
+      report(
+        path,
+        node,
+        field,
+        "type_mismatch",
+        `Expected ${type} variable but got ${variable.resolvedType}`,
+      );
+      return null;
+    }
+    return variable;
+  };
+
+  /**
+   * 숫자 필드(padding, itemSpacing, cornerRadius 등)에 FLOAT 변수 바인딩
+   */
+  const bind = async (
+    target: SceneNode,
+    field: string,
+    path: string,
+  ): Promise<boolean> => {
+    const node: SceneNode = unwrap(target);
+    if (!numericTokenFields.has(field)) {
+      report(path, node, field, "unsupported_field");
+      return false;
+    }
+
+    const variable = await resolveTyped(node, field, path, "FLOAT");
+    if (!variable) return false;
+
+    try {
+      const fields =
+        field === "cornerRadius"
+          ? RADIUS_FIELDS
+          : [field as VariableBindableNodeField];
+      fields.forEach((bindableField) =>
+        (node as FrameNode).setBoundVariable(bindableField, variable),
+      );
+      return true;
+    } catch (error) {
+      report(
+        path,
+        node,
+        field,
+        "bind_failed",
+        error instanceof Error ? error.message : String(error),
+      );
+      return false;
+    }
+  };
+
+  /**
+   * fills/strokes를 COLOR 변수가 바인딩된 SolidPaint로 교체
+   */
+  const bindPaint = async (
+    target: SceneNode,
+    path: string,
+    field: "fills" | "strokes" = "fills",
+  ): Promise<boolean> => {
+    const node: SceneNode = unwrap(target);
+    if (!(field in node)) {
+      report(path, node, field, "unsupported_field");
+      return false;
+    }
+
+    const variable = await resolveTyped(node, field, path, "COLOR");
+    if (!variable) return false;
+
+    try {
+      const paints = (node as GeometryMixin)[field];
+      const base: SolidPaint =
+        Array.isArray(paints) && paints[0]?.type === "SOLID"
+          ? paints[0]
+          : { type: "SOLID", color: { r: 0, g: 0, b: 0 } };
+      (node as GeometryMixin)[field] = [
+        figma.variables.setBoundVariableForPaint(base, "color", variable),
+      ];
+      return true;
+    } catch (error) {
+      report(
+        path,
+        node,
+        field,
+        "bind_failed",
+        error instanceof Error ? error.message : String(error),
+      );
+      return false;
+    }
+  };
+
+  /**
+   * TodoDesign의 layout/styles 값을 그대로 적용
+   * 문자열 값은 토큰으로 바인딩하고 숫자 값은 직접 설정
+   * @returns 바인딩에 성공한 토큰 수
+   */
+  const apply = async (
+    target: SceneNode,
+    values: Record<string, unknown> = {},
+  ): Promise<number> => {
+    const node: SceneNode = unwrap(target);
+    let bound = 0;
+
+    for (const [field, value] of Object.entries(values)) {
+      if (typeof value === "string") {
+        if (paintTokenFields.has(field)) {
+          if (await bindPaint(node, value, field as "fills" | "strokes")) {
+            bound += 1;
+          }
+        } else if (numericTokenFields.has(field)) {
+          if (await bind(node, field, value)) bound += 1;
+        }
+      } else if (typeof value === "number" && numericTokenFields.has(field)) {
+        // width/height는 읽기 전용이므로 resize로 설정
+        if ((field === "width" || field === "height") && "resize" in node) {
+          node.resize(
+            field === "width" ? value : node.width,
+            field === "height" ? value : node.height,
+          );
+        } else {
+          (node as any)[field] = value;
+        }
+      }
+    }
+
+    return bound;
+  };
+
+  return { resolve, bind, bindPaint, apply, unresolved };
+};
+
+export type TokenRuntime = ReturnType<typeof createTokenRuntime>;
@@ -0,0 +1,301 @@
+import { getBoundVariables } from "./get-node-detail";
+
+const DEFAULT_CONTEXT_OPTIONS: Required<ContextSerializeOptions> = {
+  maxDepth: 4,
+  maxNodes: 150,
+  maxTextLength: 80,
+};
+
+// auto layout 컨테이너에서만 의미 있는 필드
+const containerLayoutFields = [
+  "layoutMode",
+  "layoutWrap",
+  "primaryAxisAlignItems",
+  "counterAxisAlignItems",
+  "primaryAxisSizingMode",
+  "counterAxisSizingMode",
+  "itemSpacing",
+  "counterAxisSpacing",
+  "paddingTop",
+  "paddingRight",
+  "paddingBottom",
+  "paddingLeft",
+];
+
+// auto layout 자식(또는 컨테이너 자신)의 크기 규칙
+const childLayoutFields = [
+  "layoutSizingHorizontal",
+  "layoutSizingVertical",
+  "layoutPositioning",
+];
+
+// 기본값과 같은 필드는 프롬프트에서 생략
+const layoutDefaults: Record<string, unknown> = {
+  layoutWrap: "NO_WRAP",
+  primaryAxisAlignItems: "MIN",
+  counterAxisAlignItems: "MIN",
+  itemSpacing: 0,
+  counterAxisSpacing: 0,
+  paddingTop: 0,
+  paddingRight: 0,
+  paddingBottom: 0,
+  paddingLeft: 0,
+  layoutPositioning: "AUTO",
+};
+
+const styleFields = {
+  fill: "fillStyleId",
+  stroke: "strokeStyleId",
+  effect: "effectStyleId",
+  text: "textStyleId",
+} as const;
+
+const isAutoLayout = (node: BaseNode | null) =>
+  !!node && "layoutMode" in node && node.layoutMode !== "NONE";
+
+const getLayout = (node: SceneNode): ContextInfo["layout"] => {
+  const fields = [
+    ...(isAutoLayout(node) ? containerLayoutFields : []),
+    ...(isAutoLayout(node) || isAutoLayout(node.parent)
+      ? childLayoutFields
+      : []),
+  ];
+
+  const layout: Record<string, string | number> = {};
+  fields.forEach((field) => {
+    const value = (node as any)[field];
+    if (value === undefined || value === null || value === figma.mixed) return;
+    if (layoutDefaults[field] === value) return;
+    layout[field] = value;
+  });
+
+  return Object.keys(layout).length > 0 ? layout : undefined;
+};
+
+const getText = (
+  node: TextNode,
+  maxTextLength: number,
+): ContextInfo["text"] => {
+  const text: ContextInfo["text"] =
+    node.characters.length > maxTextLength
+      ? {
+          characters: node.characters.slice(0, maxTextLength),
+          truncated: true,
+        }
+      : { characters: node.characters };
+
+  if (node.fontSize !== figma.mixed) {
+    text.fontSize = node.fontSize;
+  }
+  if (node.fontName !== figma.mixed) {
+    text.fontName = { ...node.fontName };
+  }
+  return text;
+};
+
+// 같은 스타일/변수가 여러 노드에 반복되므로 이름 조회 결과를 캐시
+const createNameResolver = () => {
+  const styleNames = new Map<string, Promise<string | null>>();
+  const variableNames = new Map<string, Promise<string | null>>();
+
+  return {
+    style: (id: string) => {
+      if (!styleNames.has(id)) {
+        styleNames.set(
+          id,
+          figma
+            .getStyleByIdAsync(id)
+            .then((style) => style?.name ?? null)
+            .catch(() => null),
+        );
+      }
+      return styleNames.get(id)!;
+    },
+    variable: (id: string) => {
+      if (!variableNames.has(id)) {
+        variableNames.set(
+          id,
+          figma.variables
+            .getVariableByIdAsync(id)
+            .then((variable) => variable?.name ?? null)
+            .catch(() => null),
+        );
+      }
+      return variableNames.get(id)!;
+    },
+  };
+};
+
+type NameResolver = ReturnType<typeof createNameResolver>;
+
+const getStyles = async (
+  node: SceneNode,
+  names: NameResolver,
+): Promise<ContextInfo["styles"]> => {
+  const styles: NonNullable<ContextInfo["styles"]> = {};
+  for (const [kind, field] of Object.entries(styleFields)) {
+    const id = (node as any)[field];
+    if (typeof id !== "string" || !id) continue;
+    styles[kind as keyof typeof styleFields] = (await names.style(id)) ?? id;
+  }
+  return Object.keys(styles).length > 0 ? styles : undefined;
+};
+
+const getVariables = async (
+  node: SceneNode,
+  names: NameResolver,
+): Promise<ContextInfo["variables"]> => {
+  const boundVariables = getBoundVariables(node);
+  if (!boundVariables) return undefined;
+
+  const variables: Record<string, string> = {};
+  for (const [field, id] of Object.entries(boundVariables)) {
+    variables[field] = (await names.variable(id)) ?? id;
+  }
+  return variables;
+};
+
+const getComponentInfo = async (
+  node: SceneNode,
+): Promise<
+  Pick<ContextInfo, "componentKey" | "componentName" | "componentProperties">
+> => {
+  if (node.type !== "INSTANCE") return {};
+
+  const mainComponent = await node.getMainComponentAsync();
+  const componentProperties: Record<string, string | boolean> = {};
+  Object.entries(node.componentProperties).forEach(([name, { value }]) => {
+    componentProperties[name] = value;
+  });
+
+  return {
+    ...(mainComponent && {
+      componentKey: mainComponent.key,
+      componentName:
+        mainComponent.parent?.type === "COMPONENT_SET"
+          ? mainComponent.parent.name
+          : mainComponent.name,
+    }),
+    ...(Object.keys(componentProperties).length > 0 && {
+      componentProperties,
+    }),
+  };
+};
+
+// 같은 컴포넌트/variant의 형제 인스턴스는 첫 번째만 펼침
+const groupRepeatedInstances = async (children: readonly SceneNode[]) => {
+  const groups = new Map<string, { node: SceneNode; repeatedIds: string[] }>();
+  const kept: { node: SceneNode; repeatedIds: string[] }[] = [];
+
+  for (const child of children) {
+    const mainComponent =
+      child.type === "INSTANCE" ? await child.getMainComponentAsync() : null;
+    if (!mainComponent) {
+      kept.push({ node: child, repeatedIds: [] });
+      continue;
+    }
+
+    const key = mainComponent.key;
+    const group = groups.get(key);
+    if (group) {
+      group.repeatedIds.push(child.id);
+    } else {
+      const entry = { node: child, repeatedIds: [] as string[] };
+      groups.set(key, entry);
+      kept.push(entry);
+    }
+  }
+
+  return kept;
+};
+
+/**
+ * 선택 노드 트리를 planning 프롬프트용 ContextInfo로 직렬화
+ * - 얕은 깊이부터 채우므로 노드 예산을 넘으면 깊은 노드부터 생략
+ * - 생략한 자식은 omittedChildren, 반복 인스턴스는 repeatedNodeIds로 표기
+ */
+export const getContextTree = async (
+  nodes: readonly SceneNode[],
+  options: ContextSerializeOptions = {},
+): Promise<ContextInfo[]> => {
+  const { maxDepth, maxNodes, maxTextLength } = {
+    ...DEFAULT_CONTEXT_OPTIONS,
+    ...options,
+  };
+  const names = createNameResolver();
+
+  const serializeNode = async (node: SceneNode): Promise<ContextInfo> => {
+    const info: ContextInfo = {
+      id: node.id,
+      name: node.name,
+      type: node.type,
+      ...(!node.visible && { visible: false }),
+      x: Math.round(node.x),
+      y: Math.round(node.y),
+      width: Math.round(node.width),
+      height: Math.round(node.height),
+      ...(await getComponentInfo(node)),
+    };
+
+    const layout = getLayout(node);
+    if (layout) info.layout = layout;
+    if (node.type === "TEXT") info.text = getText(node, maxTextLength);
+    const styles = await getStyles(node, names);
+    if (styles) info.styles = styles;
+    const variables = await getVariables(node, names);
+    if (variables) info.variables = variables;
+
+    return info;
+  };
+
+  const roots: ContextInfo[] = [];
+  const queue: {
+    node: SceneNode;
+    depth: number;
+    parent: ContextInfo | null;
+    repeatedIds: string[];
+  }[] = nodes.map((node) => ({
+    node,
+    depth: 0,
+    parent: null,
+    repeatedIds: [],
+  }));
+  let count = 0;
+
+  for (let index = 0; index < queue.length; index++) {
+    const { node, depth, parent, repeatedIds } = queue[index];
+
+    // 선택 노드 자체는 예산과 관계없이 포함
+    if (parent && count >= maxNodes) {
+      parent.omittedChildren = (parent.omittedChildren ?? 0) + 1;
+      continue;
+    }
+
+    const info = await serializeNode(node);
+    if (repeatedIds.length > 0) info.repeatedNodeIds = repeatedIds;
+    count++;
+    if (parent) {
+      if (!parent.children) parent.children = [];
+      parent.children.push(info);
+    } else {
+      roots.push(info);
+    }
+
+    if (!("children" in node) || node.children.length === 0) continue;
+    if (depth >= maxDepth) {
+      info.omittedChildren = node.children.length;
+      continue;
+    }
+
+    (await groupRepeatedInstances(node.children)).forEach((child) =>
+      queue.push({
+        node: child.node,
+        depth: depth + 1,
+        parent: info,
+        repeatedIds: child.repeatedIds,
+      }),
+    );
+  }
+
+  return roots;
+};
@@ -0,0 +1,200 @@
+export const layoutFields = [
+  "layoutMode",
+  "primaryAxisAlignItems",
+  "counterAxisAlignItems",
+  "primaryAxisSizingMode",
+  "counterAxisSizingMode",
+  "itemSpacing",
+  "paddingTop",
+  "paddingBottom",
+  "paddingLeft",
+  "paddingRight",
+  "layoutWrap",
+  "primaryAxisAlignContent",
+  "counterAxisSpacing",
+  "layoutGrow",
+  "layoutAlign",
+  "layoutPositioning",
+  "layoutSizingHorizontal",
+  "layoutSizingVertical",
+  "minWidth",
+  "maxWidth",
+  "minHeight",
+  "maxHeight",
+];
+
+// postMessage로 전달 가능한 plain object로 변환 (figma.mixed는 "MIXED"로 표기)
+const toSerializable = (value: unknown): any => {
+  if (value === figma.mixed) {
+    return "MIXED";
+  }
+  if (value === undefined) {
+    return undefined;
+  }
+  return JSON.parse(JSON.stringify(value));
+};
+
+export const getNodeSummary = (node: BaseNode): NodeSummary => ({
+  id: node.id,
+  name: node.name,
+  type: node.type,
+  parentId: node.parent?.id ?? null,
+});
+
+const getLayout = (node: SceneNode): NodeDetail["layout"] => {
+  if (!("layoutMode" in node) && !("layoutSizingHorizontal" in node)) {
+    return undefined;
+  }
+
+  const layout: Record<string, string | number | null> = {};
+  layoutFields.forEach((field) => {
+    if (!(field in node)) return;
+    const value = (node as any)[field];
+    if (value === undefined || value === figma.mixed) return;
+    layout[field] = value;
+  });
+
+  return Object.keys(layout).length > 0 ? layout : undefined;
+};
+
+const getTextInfo = (node: TextNode): NodeDetail["text"] => {
+  const text: NodeDetail["text"] = {
+    characters: node.characters,
+  };
+
+  if (typeof node.textStyleId === "string" && node.textStyleId) {
+    text.textStyleId = node.textStyleId;
+  }
+  if (node.fontSize !== figma.mixed) {
+    text.fontSize = node.fontSize;
+  }
+  if (node.fontName !== figma.mixed) {
+    text.fontName = { ...node.fontName };
+  } else if (node.characters.length > 0) {
+    text.fontNames = node
+      .getRangeAllFontNames(0, node.characters.length)
+      .map((font) => ({ family: font.family, style: font.style }));
+  }
+
+  return text;
+};
+
+// boundVariables를 "필드(인덱스)" → variable ID 형태로 평탄화
+export const getBoundVariables = (
+  node: SceneNode,
+): Record<string, string> | undefined => {
+  if (!("boundVariables" in node) || !node.boundVariables) {
+    return undefined;
+  }
+
+  const result: Record<string, string> = {};
+  Object.entries(node.boundVariables).forEach(([field, binding]) => {
+    if (Array.isArray(binding)) {
+      binding.forEach((alias, index) => {
+        if (alias?.id) result[`${field}[${index}]`] = alias.id;
+      });
+    } else if (binding && typeof binding === "object") {
+      if ("id" in binding && typeof binding.id === "string") {
+        result[field] = binding.id;
+      } else {
+        // componentProperties처럼 한 단계 더 중첩된 바인딩
+        Object.entries(binding).forEach(([subField, alias]) => {
+          if ((alias as VariableAlias)?.id) {
+            result[`${field}.${subField}`] = (alias as VariableAlias).id;
+          }
+        });
+      }
+    }
+  });
+
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+const getComponentInfo = async (
+  node: SceneNode,
+): Promise<
+  Pick<NodeDetail, "componentKey" | "componentName" | "variantProperties">
+> => {
+  if (node.type === "INSTANCE") {
+    const mainComponent = await node.getMainComponentAsync();
+    return {
+      componentKey: mainComponent?.key ?? null,
+      componentName:
+        mainComponent?.parent?.type === "COMPONENT_SET"
+          ? mainComponent.parent.name
+          : (mainComponent?.name ?? null),
+      variantProperties: node.variantProperties ?? undefined,
+    };
+  }
+
+  if (node.type === "COMPONENT") {
+    return {
+      componentKey: node.key,
+      componentName: node.name,
+      variantProperties: node.variantProperties ?? undefined,
+    };
+  }
+
+  if (node.type === "COMPONENT_SET") {
+    return {
+      componentKey: node.key,
+      componentName: node.name,
+    };
+  }
+
+  return {};
+};
+
+/**
+ * 노드의 상세 속성을 NodeDetail 형태로 직렬화
+ * @param depth - 자식을 상세 정보로 포함할 깊이 (0: 자식 없음, 1: 직계 자식 요약)
+ */
+export const getNodeDetail = async (
+  node: SceneNode,
+  depth = 1,
+): Promise<NodeDetail> => {
+  const detail: NodeDetail = {
+    ...getNodeSummary(node),
+    visible: node.visible,
+    size: { width: node.width, height: node.height },
+    ...(await getComponentInfo(node)),
+  };
+
+  const layout = getLayout(node);
+  if (layout) {
+    detail.layout = layout;
+  }
+
+  if ("constraints" in node) {
+    detail.constraints = { ...node.constraints };
+  }
+
+  if (node.type === "TEXT") {
+    detail.text = getTextInfo(node);
+  }
+
+  if ("fills" in node) {
+    detail.fills = toSerializable(node.fills);
+  }
+  if ("strokes" in node) {
+    detail.strokes = toSerializable(node.strokes);
+  }
+  if ("effects" in node) {
+    detail.effects = toSerializable(node.effects);
+  }
+
+  const boundVariables = getBoundVariables(node);
+  if (boundVariables) {
+    detail.boundVariables = boundVariables;
+  }
+
+  if (depth > 0 && "children" in node) {
+    detail.children = await Promise.all(
+      node.children.map((child) =>
+        depth > 1 ? getNodeDetail(child, depth - 1) : getNodeSummary(child),
+      ),
+    );
+  }
+
+  return detail;
+};
@@ -0,0 +1,203 @@
+import { layoutFields } from "./get-node-detail";
+
+// 롤백 시 복원 대상 속성 (layoutMode가 padding/spacing보다 먼저 적용되도록 순서 유지)
+const snapshotFields = [
+  "name",
+  "visible",
+  "locked",
+  "opacity",
+  "blendMode",
+  "clipsContent",
+  "constraints",
+  ...layoutFields,
+  "x",
+  "y",
+  "rotation",
+  "fills",
+  "strokes",
+  "strokeWeight",
+  "strokeAlign",
+  "effects",
+  "cornerRadius",
+  "topLeftRadius",
+  "topRightRadius",
+  "bottomLeftRadius",
+  "bottomRightRadius",
+  "fontName",
+  "fontSize",
+  "characters",
+  "textAlignHorizontal",
+  "textAlignVertical",
+  "textAutoResize",
+];
+
+// 실행 전 스냅샷을 수집할 최대 노드 수 (큰 프레임에서 메모리 폭증 방지)
+const MAX_SNAPSHOT_NODES = 3000;
+
+const cloneValue = (value: unknown) =>
+  value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+
+export const captureNodeSnapshot = async (
+  node: SceneNode,
+): Promise<NodeSnapshot> => {
+  const properties: Record<string, any> = {};
+  snapshotFields.forEach((field) => {
+    if (!(field in node)) return;
+    const value = (node as any)[field];
+    if (value === undefined || value === figma.mixed) return;
+    properties[field] = cloneValue(value);
+  });
+
+  const parent = node.parent;
+  const snapshot: NodeSnapshot = {
+    id: node.id,
+    type: node.type,
+    parentId: parent?.id ?? null,
+    index: parent ? parent.children.indexOf(node) : -1,
+    width: node.width,
+    height: node.height,
+    properties,
+  };
+
+  if (node.type === "INSTANCE") {
+    const mainComponent = await node.getMainComponentAsync();
+    snapshot.mainComponentId = mainComponent?.id;
+    snapshot.mainComponentKey = mainComponent?.key;
+    snapshot.componentProperties = {};
+    Object.entries(node.componentProperties).forEach(([name, property]) => {
+      snapshot.componentProperties![name] = property.value;
+    });
+  }
+
+  return snapshot;
+};
+
+/**
+ * 루트 노드들의 하위 트리 전체 스냅샷 수집
+ */
+export const captureSubtreeSnapshots = async (
+  roots: SceneNode[],
+): Promise<Map<string, NodeSnapshot>> => {
+  const snapshots = new Map<string, NodeSnapshot>();
+  const queue = [...roots];
+
+  while (queue.length > 0 && snapshots.size < MAX_SNAPSHOT_NODES) {
+    const node = queue.shift()!;
+    if (snapshots.has(node.id)) continue;
+    snapshots.set(node.id, await captureNodeSnapshot(node));
+    if ("children" in node) {
+      queue.push(...node.children);
+    }
+  }
+
+  return snapshots;
+};
+
+const loadNodeFonts = async (node: TextNode, snapshot: NodeSnapshot) => {
+  const fonts: FontName[] = [];
+  if (snapshot.properties.fontName) {
+    fonts.push(snapshot.properties.fontName);
+  }
+  if (node.characters.length > 0) {
+    fonts.push(...node.getRangeAllFontNames(0, node.characters.length));
+  }
+  await Promise.all(fonts.map((font) => figma.loadFontAsync(font)));
+};
+
+/**
+ * 스냅샷 시점의 속성으로 노드를 되돌림
+ * @returns 복원에 실패한 속성 목록
+ */
+export const restoreNodeSnapshot = async (
+  node: SceneNode,
+  snapshot: NodeSnapshot,
+): Promise<string[]> => {
+  const failed: string[] = [];
+
+  if (snapshot.parentId && node.parent?.id !== snapshot.parentId) {
+    const parent = await figma.getNodeByIdAsync(snapshot.parentId);
+    try {
+      if (!parent || parent.removed || !("insertChild" in parent)) {
+        throw new Error(`Parent ${snapshot.parentId} is not available`);
+      }
+      const index = Math.min(snapshot.index, parent.children.length);
+      (parent as ChildrenMixin).insertChild(index, node);
+    } catch (error) {
+      failed.push("parent");
+    }
+  }
+
+  if (node.type === "TEXT") {
+    await loadNodeFonts(node, snapshot);
+  }
+
+  // resize는 layoutSizing을 FIXED로 바꾸므로 속성 복원 전에 수행
+  if (
+    "resize" in node &&
+    (node.width !== snapshot.width || node.height !== snapshot.height)
+  ) {
+    try {
+      node.resize(snapshot.width, snapshot.height);
+    } catch (error) {
+      failed.push("size");
+    }
+  }
+
+  Object.entries(snapshot.properties).forEach(([field, value]) => {
+    const current = (node as any)[field];
+    if (JSON.stringify(current) === JSON.stringify(value)) return;
+    try {
+      (node as any)[field] = value;
+    } catch (error) {
+      failed.push(field);
+    }
+  });
+
+  if (node.type === "INSTANCE" && snapshot.componentProperties) {
+    const changedProperties: Record<string, string | boolean> = {};
+    Object.entries(snapshot.componentProperties).forEach(([name, value]) => {
+      if (node.componentProperties[name]?.value !== value) {
+        changedProperties[name] = value;
+      }
+    });
+    try {
+      if (Object.keys(changedProperties).length > 0) {
+        node.setProperties(changedProperties);
+      }
+    } catch (error) {
+      failed.push("componentProperties");
+    }
+  }
+
+  return failed;
+};
+
+/**
+ * 노드 하위에 있는 ids 노드 (생성 노드를 제거하기 전 안에 남은 기존 노드 확인용)
+ */
+export const findDescendantIds = (
+  node: SceneNode,
+  ids: Set<string>,
+): string[] =>
+  "findAll" in node
+    ? node.findAll((child) => ids.has(child.id)).map((child) => child.id)
+    : [];
+
+/**
+ * 현재 노드 상태가 스냅샷과 달라졌는지 확인 (형제 순서는 비교하지 않음)
+ */
+export const isSnapshotModified = async (
+  node: SceneNode,
+  snapshot: NodeSnapshot,
+): Promise<boolean> => {
+  const current = await captureNodeSnapshot(node);
+  return (
+    current.parentId !== snapshot.parentId ||
+    current.width !== snapshot.width ||
+    current.height !== snapshot.height ||
+    JSON.stringify(current.properties) !==
+      JSON.stringify(snapshot.properties) ||
+    JSON.stringify(current.componentProperties) !==
+      JSON.stringify(snapshot.componentProperties)
+  );
+};
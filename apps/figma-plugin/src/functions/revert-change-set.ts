@@ -0,0 +1,226 @@
+import {
+  findDescendantIds,
+  isSnapshotModified,
+  restoreNodeSnapshot,
+} from "./node-snapshot";
+
+const createNodeByType = async (
+  snapshot: NodeSnapshot,
+): Promise<SceneNode | null> => {
+  switch (snapshot.type) {
+    case "FRAME":
+      return figma.createFrame();
+    case "RECTANGLE":
+      return figma.createRectangle();
+    case "ELLIPSE":
+      return figma.createEllipse();
+    case "LINE":
+      return figma.createLine();
+    case "TEXT":
+      return figma.createText();
+    case "INSTANCE": {
+      const mainComponent = snapshot.mainComponentId
+        ? await figma.getNodeByIdAsync(snapshot.mainComponentId)
+        : null;
+      if (mainComponent?.type === "COMPONENT") {
+        return mainComponent.createInstance();
+      }
+      if (snapshot.mainComponentKey) {
+        const imported = await figma.importComponentByKeyAsync(
+          snapshot.mainComponentKey,
+        );
+        return imported.createInstance();
+      }
+      return null;
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * 삭제된 노드를 스냅샷으로 다시 생성 (인스턴스 하위는 컴포넌트가 생성)
+ * @returns 다시 생성된 노드 ID 목록
+ */
+const recreateDeletedNode = async (
+  snapshot: NodeSnapshot,
+  parent: BaseNode & ChildrenMixin,
+  deletedNodes: NodeSnapshot[],
+  failedNodeIds: string[],
+): Promise<string[]> => {
+  let node: SceneNode | null = null;
+  try {
+    node = await createNodeByType(snapshot);
+  } catch (error) {
+    node = null;
+  }
+  if (!node) {
+    failedNodeIds.push(snapshot.id);
+    return [];
+  }
+
+  const failedFields = await restoreNodeSnapshot(node, {
+    ...snapshot,
+    parentId: parent.id,
+  });
+  if (failedFields.length > 0) {
+    console.warn(
+      `⚠️ [Plugin] Recreate partially failed for ${snapshot.id}:`,
+      failedFields,
+    );
+  }
+
+  const recreatedIds = [node.id];
+  if (snapshot.type !== "INSTANCE" && "children" in node) {
+    const children = deletedNodes
+      .filter((child) => child.parentId === snapshot.id)
+      .sort((a, b) => a.index - b.index);
+    for (const child of children) {
+      recreatedIds.push(
+        ...(await recreateDeletedNode(
+          child,
+          node as FrameNode,
+          deletedNodes,
+          failedNodeIds,
+        )),
+      );
+    }
+  }
+
+  return recreatedIds;
+};
+
+/**
+ * 이전 실행의 변경 세트를 되돌림
+ * - 실행 이후 사용자가 수정/삭제한 노드는 건드리지 않고 충돌로 보고
+ * - 수정된 노드 복원 → 생성된 노드 제거 → 삭제된 노드 재생성 (노드별 실패는 기록하고 계속 진행)
+ */
+export const revertChangeSet = async (
+  changeSet: ExecutionChangeSet,
+): Promise<RevertResult> => {
+  const result: RevertResult = {
+    removedNodeIds: [],
+    restoredNodeIds: [],
+    recreatedNodeIds: [],
+    failedNodeIds: [...changeSet.untrackedNodeIds],
+    conflicts: [],
+  };
+
+  // 노드 제거가 부모 크기 등에 영향을 주므로 충돌 검사를 먼저 모두 수행
+  const removable: SceneNode[] = [];
+  for (const after of changeSet.createdNodes) {
+    const node = await figma.getNodeByIdAsync(after.id);
+    if (!node || node.removed || !("visible" in node)) {
+      // 이미 제거된 생성 노드는 되돌릴 것이 없음
+      continue;
+    }
+    if (await isSnapshotModified(node, after)) {
+      result.conflicts.push({
+        nodeId: after.id,
+        name: node.name,
+        reason: "modified",
+      });
+      continue;
+    }
+    removable.push(node);
+  }
+
+  const restorable: Array<{ node: SceneNode; before: NodeSnapshot }> = [];
+  for (const { before, after } of changeSet.updatedNodes) {
+    const node = await figma.getNodeByIdAsync(after.id);
+    if (!node || node.removed || !("visible" in node)) {
+      result.conflicts.push({
+        nodeId: after.id,
+        name: after.properties.name,
+        reason: "missing",
+      });
+      continue;
+    }
+    if (await isSnapshotModified(node, after)) {
+      result.conflicts.push({
+        nodeId: after.id,
+        name: node.name,
+        reason: "modified",
+      });
+      continue;
+    }
+    restorable.push({ node, before });
+  }
+
+  // 생성 프레임으로 옮겨진 기존 노드가 함께 삭제되지 않도록 복원(원래 부모로 이동)을 먼저 수행
+  for (const { node, before } of restorable) {
+    let failedFields: string[];
+    try {
+      failedFields = await restoreNodeSnapshot(node, before);
+    } catch (error) {
+      failedFields = [error instanceof Error ? error.message : String(error)];
+    }
+    if (failedFields.length > 0) {
+      console.warn(
+        `⚠️ [Plugin] Revert partially failed for ${node.id}:`,
+        failedFields,
+      );
+      result.failedNodeIds.push(node.id);
+    } else {
+      result.restoredNodeIds.push(node.id);
+    }
+  }
+
+  const existingIds = new Set(
+    changeSet.updatedNodes.map(({ after }) => after.id),
+  );
+  for (const node of removable) {
+    // 부모가 먼저 제거되면 자식도 함께 제거됨
+    if (node.removed) {
+      result.removedNodeIds.push(node.id);
+      continue;
+    }
+    // 충돌 등으로 꺼내지 못한 기존 노드가 남아 있으면 제거하지 않음
+    if (findDescendantIds(node, existingIds).length > 0) {
+      result.conflicts.push({
+        nodeId: node.id,
+        name: node.name,
+        reason: "modified",
+      });
+      continue;
+    }
+    try {
+      node.remove();
+      result.removedNodeIds.push(node.id);
+    } catch (error) {
+      result.failedNodeIds.push(node.id);
+    }
+  }
+
+  const deletedIds = new Set(changeSet.deletedNodes.map((node) => node.id));
+  const deletedRoots = changeSet.deletedNodes
+    .filter((node) => !node.parentId || !deletedIds.has(node.parentId))
+    .sort((a, b) => a.index - b.index);
+  for (const snapshot of deletedRoots) {
+    const parent = snapshot.parentId
+      ? await figma.getNodeByIdAsync(snapshot.parentId)
+      : null;
+    if (!parent || !("insertChild" in parent)) {
+      result.conflicts.push({
+        nodeId: snapshot.id,
+        name: snapshot.properties.name,
+        reason: "missing",
+      });
+      continue;
+    }
+    try {
+      result.recreatedNodeIds.push(
+        ...(await recreateDeletedNode(
+          snapshot,
+          parent as BaseNode & ChildrenMixin,
+          changeSet.deletedNodes,
+          result.failedNodeIds,
+        )),
+      );
+    } catch (error) {
+      result.failedNodeIds.push(snapshot.id);
+    }
+  }
+
+  return result;
+};
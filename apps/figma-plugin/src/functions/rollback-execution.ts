@@ -0,0 +1,80 @@
+import { findDescendantIds, restoreNodeSnapshot } from "./node-snapshot";
+
+/**
+ * 실패한 실행의 변경사항 되돌리기
+ * - 수정된 노드는 실행 전 스냅샷으로 복원 (원래 부모로 이동 포함)
+ * - 이번 실행에서 생성된 노드 제거 (기존 노드를 먼저 꺼낸 뒤 제거)
+ * - 삭제된 노드와 스냅샷이 없는 노드는 복원 불가로 보고
+ */
+export const rollbackExecution = async (
+  report: ExecutionReport,
+  snapshots: Map<string, NodeSnapshot>,
+): Promise<ExecutionRollback> => {
+  const rollback: ExecutionRollback = {
+    removedNodeIds: [],
+    restoredNodeIds: [],
+    failedNodeIds: [],
+  };
+  const handledIds = new Set<string>();
+
+  const restore = async (id: string) => {
+    handledIds.add(id);
+    const snapshot = snapshots.get(id);
+    const node = await figma.getNodeByIdAsync(id);
+    if (!snapshot || !node || node.removed || !("visible" in node)) {
+      rollback.failedNodeIds.push(id);
+      return;
+    }
+
+    let failedFields: string[];
+    try {
+      failedFields = await restoreNodeSnapshot(node, snapshot);
+    } catch (error) {
+      failedFields = [error instanceof Error ? error.message : String(error)];
+    }
+    if (failedFields.length > 0) {
+      console.warn(
+        `⚠️ [Plugin] Rollback partially failed for ${id}:`,
+        failedFields,
+      );
+      rollback.failedNodeIds.push(id);
+    } else {
+      rollback.restoredNodeIds.push(id);
+    }
+  };
+
+  for (const updated of report.updatedNodes) {
+    await restore(updated.id);
+  }
+
+  const snapshotIds = new Set(snapshots.keys());
+  for (const id of report.createdNodeIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    // 부모가 먼저 제거되면 자식도 함께 제거됨
+    if (!node || node.removed || !("visible" in node)) {
+      rollback.removedNodeIds.push(id);
+      continue;
+    }
+
+    // 수정 이벤트 없이 생성 노드 안으로 옮겨진 기존 노드도 원래 부모로 되돌림
+    for (const existingId of findDescendantIds(node, snapshotIds)) {
+      if (!handledIds.has(existingId)) await restore(existingId);
+    }
+    // 꺼내지 못한 기존 노드가 남아 있으면 함께 삭제되지 않도록 제거하지 않음
+    if (findDescendantIds(node, snapshotIds).length > 0) {
+      rollback.failedNodeIds.push(id);
+      continue;
+    }
+
+    try {
+      node.remove();
+      rollback.removedNodeIds.push(id);
+    } catch (error) {
+      rollback.failedNodeIds.push(id);
+    }
+  }
+
+  rollback.failedNodeIds.push(...report.deletedNodeIds);
+
+  return rollback;
+};
@@ -0,0 +1,306 @@
+import { numericTokenFields, TokenRuntime } from "./create-token-runtime";
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3}|[0-9a-f]{6}|[0-9a-f]{8})$/i;
+
+const layoutSizingFields = new Set([
+  "layoutSizingHorizontal",
+  "layoutSizingVertical",
+]);
+
+class OperationSkipped extends Error {}
+
+const isNodeRef = (target: unknown): target is OperationNodeRef =>
+  !!target &&
+  typeof target === "object" &&
+  typeof (target as OperationNodeRef).ref === "string";
+
+const toErrorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// FILL은 auto layout 부모의 자식에만 설정 가능
+const isInAutoLayout = (node: SceneNode) => {
+  const parent = node.parent;
+  return !!parent && "layoutMode" in parent && parent.layoutMode !== "NONE";
+};
+
+const importComponentByAnyKey = async (api: PluginAPI, key: string) => {
+  try {
+    return await api.importComponentByKeyAsync(key);
+  } catch (error) {
+    const componentSet = await api.importComponentSetByKeyAsync(key);
+    return componentSet.defaultVariant;
+  }
+};
+
+/**
+ * operation 목록을 순서대로 실행하고 operation별 결과를 기록
+ * - 실패한 operation을 참조하는 operation은 skipped로 기록하고 나머지는 계속 실행
+ * - figma는 샌드박스 프록시를 받아 scope/노드 예산/dry run ID 매핑을 그대로 적용
+ * @param results - 실행 중 결과를 채울 배열 (타임아웃으로 중단돼도 완료분 유지)
+ */
+export const runDesignOperations = async (
+  operations: DesignOperation[],
+  {
+    figma: api,
+    tokens,
+    results = [],
+  }: {
+    figma: PluginAPI;
+    tokens: TokenRuntime;
+    results?: OperationResult[];
+  },
+): Promise<OperationResult[]> => {
+  // operation id → 결과 노드 (생성한 노드 또는 대상 노드)
+  const nodes = new Map<string, SceneNode>();
+  const statuses = new Map<string, OperationResult["status"]>();
+
+  const resolveTarget = async (target: OperationTarget | undefined) => {
+    if (isNodeRef(target)) {
+      const status = statuses.get(target.ref);
+      if (status !== "success") {
+        throw new OperationSkipped(
+          status
+            ? `Referenced operation "${target.ref}" was ${status}`
+            : `Referenced operation "${target.ref}" has not run`,
+        );
+      }
+      return nodes.get(target.ref)!;
+    }
+
+    if (typeof target !== "string") {
+      throw new Error("Operation target is missing");
+    }
+    const node = await api.getNodeByIdAsync(target);
+    if (!node || !("visible" in node)) {
+      throw new Error(`Node not found: ${target}`);
+    }
+    return node as SceneNode;
+  };
+
+  const resolveParent = async (parent: OperationTarget | undefined) => {
+    const node =
+      parent === undefined ? api.currentPage : await resolveTarget(parent);
+    if (!("children" in node)) {
+      throw new Error(`"${node.name}" cannot have children`);
+    }
+    return node as BaseNode & ChildrenMixin;
+  };
+
+  const place = (
+    parent: BaseNode & ChildrenMixin,
+    node: SceneNode,
+    index?: number,
+  ) => {
+    if (
+      typeof index === "number" &&
+      index >= 0 &&
+      index <= parent.children.length
+    ) {
+      parent.insertChild(index, node);
+    } else {
+      parent.appendChild(node);
+    }
+  };
+
+  const setProps = async (node: SceneNode, props: Record<string, unknown>) => {
+    const { width, height, effectStyleKey, ...rest } = props;
+
+    if (typeof width === "number" || typeof height === "number") {
+      if (!("resize" in node)) {
+        throw new Error(`"${node.name}" cannot be resized`);
+      }
+      node.resize(
+        typeof width === "number" ? width : node.width,
+        typeof height === "number" ? height : node.height,
+      );
+    }
+
+    for (const [field, value] of Object.entries(rest)) {
+      if (value === undefined) continue;
+
+      if (field === "fills" || field === "strokes") {
+        if (typeof value === "string" && HEX_COLOR_PATTERN.test(value)) {
+          (node as GeometryMixin)[field] = [api.util.solidPaint(value)];
+        } else if (typeof value === "string") {
+          await tokens.bindPaint(node, value, field);
+        } else {
+          (node as any)[field] = value;
+        }
+      } else if (typeof value === "string" && numericTokenFields.has(field)) {
+        await tokens.bind(node, field, value);
+      } else if (layoutSizingFields.has(field)) {
+        if (value === "FILL" && !isInAutoLayout(node)) continue;
+        (node as any)[field] = value;
+      } else {
+        (node as any)[field] = value;
+      }
+    }
+
+    if (typeof effectStyleKey === "string") {
+      const style = await api.importStyleByKeyAsync(effectStyleKey);
+      await (node as BlendMixin).setEffectStyleIdAsync(style.id);
+    }
+  };
+
+  const setVariant = (
+    node: SceneNode,
+    properties: Record<string, string | boolean>,
+  ) => {
+    if (node.type !== "INSTANCE") {
+      throw new Error(`"${node.name}" is not an instance`);
+    }
+    const definitions = Object.keys(node.componentProperties);
+    const resolved: Record<string, string | boolean> = {};
+    Object.entries(properties).forEach(([name, value]) => {
+      const match = definitions.find(
+        (definition) =>
+          definition === name || definition.split("#")[0] === name,
+      );
+      if (!match) {
+        throw new Error(`Unknown component property "${name}"`);
+      }
+      resolved[match] = value;
+    });
+    node.setProperties(resolved);
+  };
+
+  const setText = async (node: SceneNode, operation: SetTextOperation) => {
+    if (node.type !== "TEXT") {
+      throw new Error(`"${node.name}" is not a text node`);
+    }
+
+    if (operation.textStyleKey) {
+      const style = (await api.importStyleByKeyAsync(
+        operation.textStyleKey,
+      )) as TextStyle;
+      await api.loadFontAsync(style.fontName);
+      await node.setTextStyleIdAsync(style.id);
+    } else if (operation.fontName) {
+      await api.loadFontAsync(operation.fontName);
+      node.fontName = operation.fontName;
+    }
+
+    if (operation.characters !== undefined) {
+      const fonts =
+        node.characters.length > 0
+          ? node.getRangeAllFontNames(0, node.characters.length)
+          : [node.fontName as FontName];
+      for (const font of fonts) {
+        await api.loadFontAsync(font);
+      }
+      node.characters = operation.characters;
+    }
+  };
+
+  const execute = async (operation: DesignOperation): Promise<SceneNode> => {
+    switch (operation.op) {
+      case "createNode": {
+        switch (operation.nodeType) {
+          case "FRAME": {
+            const frame = api.createFrame();
+            // 기본 흰색 배경 대신 setProps로 지정한 fills만 사용
+            frame.fills = [];
+            if (operation.name) frame.name = operation.name;
+            return frame;
+          }
+          case "TEXT": {
+            const text = api.createText();
+            if (operation.name) text.name = operation.name;
+            return text;
+          }
+          case "INSTANCE": {
+            if (!operation.componentKey) {
+              throw new Error("componentKey is required for INSTANCE");
+            }
+            const component = await importComponentByAnyKey(
+              api,
+              operation.componentKey,
+            );
+            const instance = component.createInstance();
+            if (operation.name) instance.name = operation.name;
+            return instance;
+          }
+          default:
+            throw new Error(
+              `Unsupported node type: ${(operation as CreateNodeOperation).nodeType}`,
+            );
+        }
+      }
+      case "setProps": {
+        const node = await resolveTarget(operation.target);
+        await setProps(node, operation.props ?? {});
+        return node;
+      }
+      case "setVariant": {
+        const node = await resolveTarget(operation.target);
+        setVariant(node, operation.properties ?? {});
+        return node;
+      }
+      case "bindVariable": {
+        const node = await resolveTarget(operation.target);
+        if (operation.field === "fills" || operation.field === "strokes") {
+          await tokens.bindPaint(node, operation.token, operation.field);
+        } else {
+          await tokens.bind(node, operation.field, operation.token);
+        }
+        return node;
+      }
+      case "insert":
+      case "move": {
+        const node = await resolveTarget(operation.target);
+        const parent =
+          operation.op === "move" && operation.parent === undefined
+            ? node.parent
+            : await resolveParent(operation.parent);
+        if (!parent || !("children" in parent)) {
+          throw new Error(`"${node.name}" has no parent to move within`);
+        }
+        place(parent, node, operation.index);
+        return node;
+      }
+      case "delete": {
+        const node = await resolveTarget(operation.target);
+        node.remove();
+        return node;
+      }
+      case "setText": {
+        const node = await resolveTarget(operation.target);
+        await setText(node, operation);
+        return node;
+      }
+      default:
+        throw new Error(
+          `Unknown operation: ${(operation as DesignOperation).op}`,
+        );
+    }
+  };
+
+  for (const operation of operations) {
+    const result: OperationResult = {
+      id: operation.id,
+      op: operation.op,
+      ...(operation.todoId ? { todoId: operation.todoId } : {}),
+      status: "success",
+      nodeId: null,
+    };
+
+    try {
+      if (statuses.has(operation.id)) {
+        throw new Error(`Duplicate operation id "${operation.id}"`);
+      }
+      const node = await execute(operation);
+      nodes.set(operation.id, node);
+      result.nodeId = node.id;
+    } catch (error) {
+      result.status = error instanceof OperationSkipped ? "skipped" : "failed";
+      result.error = toErrorMessage(error);
+    }
+
+    if (!statuses.has(operation.id)) {
+      statuses.set(operation.id, result.status);
+    }
+    results.push(result);
+  }
+
+  return results;
+};
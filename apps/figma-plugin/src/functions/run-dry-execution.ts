@@ -0,0 +1,267 @@
+import { createExecutionTracker } from "./create-execution-tracker";
+import { FontResolver } from "./create-font-resolver";
+import { createFigmaSandbox } from "./create-figma-sandbox";
+import { getRootFrame } from "./get-root-frame";
+import { captureNodeSnapshot, captureSubtreeSnapshots } from "./node-snapshot";
+
+const SCRATCH_PAGE_NAME = "🧪 AI Preview";
+const SCRATCH_PAGE_KEY = "aiScratchPage";
+
+// 미리보기 PNG의 긴 변 최대 픽셀 수 (postMessage로 전송하는 바이트 제한)
+const MAX_PREVIEW_PIXEL_SIZE = 1600;
+
+const getScratchPage = (): PageNode => {
+  const existing = figma.root.children.find(
+    (page) => page.getPluginData(SCRATCH_PAGE_KEY) === "true",
+  );
+  if (existing) {
+    return existing;
+  }
+
+  const page = figma.createPage();
+  page.name = SCRATCH_PAGE_NAME;
+  page.setPluginData(SCRATCH_PAGE_KEY, "true");
+  return page;
+};
+
+// 실행 대상 루트 프레임: 현재 선택 + scope 노드의 루트 프레임
+const getTargetRootFrames = async (scopeNodeIds: string[]) => {
+  const nodes: SceneNode[] = [...figma.currentPage.selection];
+  for (const id of scopeNodeIds) {
+    const node = await figma.getNodeByIdAsync(id);
+    if (node && "visible" in node) {
+      nodes.push(node);
+    }
+  }
+
+  const rootFrames = new Map<string, FrameNode>();
+  nodes.forEach((node) => {
+    if (!node.parent) return;
+    const rootFrame = getRootFrame(node);
+    rootFrames.set(rootFrame.id, rootFrame);
+  });
+  return [...rootFrames.values()];
+};
+
+// 원본과 복제본을 같은 구조로 순회해 ID 매핑 생성
+const mapClonedIds = (
+  original: SceneNode,
+  clone: SceneNode,
+  nodeIdMap: Map<string, string>,
+) => {
+  nodeIdMap.set(original.id, clone.id);
+  if ("children" in original && "children" in clone) {
+    original.children.forEach((child, index) => {
+      const clonedChild = clone.children[index];
+      if (clonedChild) mapClonedIds(child, clonedChild, nodeIdMap);
+    });
+  }
+};
+
+// 복제본 기준 리포트를 원본 노드 ID 기준으로 변환
+const toOriginalReport = (
+  report: ExecutionReport,
+  originalIds: Map<string, string>,
+): ExecutionReport => {
+  const toOriginalId = (id: string) => originalIds.get(id) ?? id;
+  const toOriginalParent = (parentId?: string | null) =>
+    parentId ? toOriginalId(parentId) : parentId;
+
+  return {
+    ...report,
+    createdNodes: report.createdNodes.map((node) => ({
+      ...node,
+      parentId: toOriginalParent(node.parentId),
+    })),
+    updatedNodes: report.updatedNodes.map((node) => ({
+      ...node,
+      id: toOriginalId(node.id),
+      parentId: toOriginalParent(node.parentId),
+    })),
+    deletedNodeIds: report.deletedNodeIds.map(toOriginalId),
+    selection: report.selection.map((node) => ({
+      ...node,
+      id: toOriginalId(node.id),
+      parentId: toOriginalParent(node.parentId),
+    })),
+    unresolvedTokens: report.unresolvedTokens?.map((token) => ({
+      ...token,
+      nodeId: token.nodeId && toOriginalId(token.nodeId),
+    })),
+    operationResults: report.operationResults?.map((result) => ({
+      ...result,
+      nodeId: result.nodeId && toOriginalId(result.nodeId),
+    })),
+  };
+};
+
+const diffSnapshots = (
+  before: NodeSnapshot,
+  after: NodeSnapshot,
+): DryRunNodeDiff["changes"] => {
+  const changes: DryRunNodeDiff["changes"] = [];
+  if (before.width !== after.width || before.height !== after.height) {
+    changes.push({
+      field: "size",
+      before: { width: before.width, height: before.height },
+      after: { width: after.width, height: after.height },
+    });
+  }
+
+  const fields = new Set([
+    ...Object.keys(before.properties),
+    ...Object.keys(after.properties),
+  ]);
+  fields.forEach((field) => {
+    const beforeValue = before.properties[field];
+    const afterValue = after.properties[field];
+    if (JSON.stringify(beforeValue) !== JSON.stringify(afterValue)) {
+      changes.push({ field, before: beforeValue, after: afterValue });
+    }
+  });
+
+  if (
+    JSON.stringify(before.componentProperties) !==
+    JSON.stringify(after.componentProperties)
+  ) {
+    changes.push({
+      field: "componentProperties",
+      before: before.componentProperties,
+      after: after.componentProperties,
+    });
+  }
+
+  return changes;
+};
+
+/**
+ * 대상 루트 프레임 복제본에 코드(또는 operation 목록)를 실행해 미리보기 생성
+ * - 복제본은 scratch 페이지에서 실행 후 제거 (원본 문서는 변경 없음)
+ * - 코드의 노드 ID 참조와 scope는 복제본 ID로 매핑
+ * - 복제본으로 매핑되지 않은 원본 노드는 읽기 전용
+ */
+export const runDryExecution = async (
+  program: ExecutionProgram,
+  scopeNodeIds: string[] = [],
+  tokenSources: TokenSource[] = [],
+  fontResolver?: FontResolver,
+): Promise<DryRunPreview> => {
+  const rootFrames = await getTargetRootFrames(scopeNodeIds);
+  const scratchPage = getScratchPage();
+  let sandbox: ReturnType<typeof createFigmaSandbox> | undefined;
+
+  try {
+    const nodeIdMap = new Map<string, string>();
+    const clones: SceneNode[] = [];
+
+    rootFrames.forEach((rootFrame) => {
+      const clone = rootFrame.clone();
+      scratchPage.appendChild(clone);
+      mapClonedIds(rootFrame, clone, nodeIdMap);
+      clones.push(clone);
+    });
+
+    const originalIds = new Map<string, string>();
+    nodeIdMap.forEach((cloneId, originalId) =>
+      originalIds.set(cloneId, originalId),
+    );
+
+    const clonedSelection: SceneNode[] = [];
+    for (const node of figma.currentPage.selection) {
+      const cloneId = nodeIdMap.get(node.id);
+      const clone = cloneId ? await figma.getNodeByIdAsync(cloneId) : null;
+      if (clone && "visible" in clone) clonedSelection.push(clone);
+    }
+    scratchPage.selection = clonedSelection;
+
+    const beforeSnapshots = await captureSubtreeSnapshots(clones);
+    const tracker = createExecutionTracker();
+    sandbox = createFigmaSandbox({
+      scopeNodeIds,
+      page: scratchPage,
+      nodeIdMap,
+      tokenSources,
+      fontResolver,
+      writableRootIds: [scratchPage.id],
+    });
+    let errorMessage: string | undefined;
+
+    tracker.start();
+    try {
+      await sandbox.run(program);
+    } catch (error) {
+      errorMessage = error instanceof Error ? error.message : String(error);
+    }
+
+    const report = await tracker.stop(
+      typeof program === "string" ? program : JSON.stringify(program),
+      errorMessage,
+    );
+    if (sandbox.violations.length > 0) {
+      report.policyViolations = [...sandbox.violations];
+    }
+    if (sandbox.unresolvedTokens.length > 0) {
+      report.unresolvedTokens = [...sandbox.unresolvedTokens];
+    }
+    if (sandbox.operationResults.length > 0) {
+      report.operationResults = [...sandbox.operationResults];
+    }
+    if (fontResolver && fontResolver.substitutions().length > 0) {
+      report.fontSubstitutions = fontResolver.substitutions();
+    }
+
+    const diff: DryRunNodeDiff[] = [];
+    for (const updated of report.updatedNodes) {
+      const before = beforeSnapshots.get(updated.id);
+      const node = await figma.getNodeByIdAsync(updated.id);
+      if (!before || !node || !("visible" in node)) continue;
+      const changes = diffSnapshots(before, await captureNodeSnapshot(node));
+      if (changes.length > 0) {
+        diff.push({
+          nodeId: originalIds.get(updated.id) ?? updated.id,
+          name: node.name,
+          changes,
+        });
+      }
+    }
+
+    // 복제본과 페이지 최상위에 새로 생성된 노드를 미리보기로 export
+    // 큰 프레임은 긴 변이 MAX_PREVIEW_PIXEL_SIZE를 넘지 않도록 배율을 낮춤
+    const images: DryRunPreview["images"] = [];
+    for (const node of scratchPage.children) {
+      const image = await node.exportAsync({
+        format: "PNG",
+        constraint: {
+          type: "SCALE",
+          value: Math.min(
+            1,
+            MAX_PREVIEW_PIXEL_SIZE / Math.max(node.width, node.height, 1),
+          ),
+        },
+      });
+      images.push({
+        nodeId: originalIds.get(node.id) ?? node.id,
+        nodeName: node.name,
+        image: Array.from(image),
+      });
+    }
+
+    return {
+      rootFrameIds: rootFrames.map((rootFrame) => rootFrame.id),
+      images,
+      report: toOriginalReport(report, originalIds),
+      diff,
+      ...(errorMessage ? { error: errorMessage } : {}),
+    };
+  } finally {
+    // 남은 비동기 생성 코드가 정리 중/이후에 노드를 수정하지 못하게 먼저 차단
+    sandbox?.revoke();
+
+    // scratch 페이지 정리 (생성된 노드 포함, 실패해도 항상 실행)
+    if (figma.currentPage !== scratchPage) {
+      scratchPage.remove();
+    } else {
+      scratchPage.children.forEach((child) => child.remove());
+    }
+  }
+};
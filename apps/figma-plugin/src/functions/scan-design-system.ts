@@ -0,0 +1,136 @@
+import { scanLibraryComponents } from "./scan-library-components";
+
+// 컬렉션별로 카탈로그에 담을 최대 변수 수
+const MAX_VARIABLES_PER_COLLECTION = 500;
+
+const toCatalogStyle = (style: BaseStyle): CatalogStyle => ({
+  id: style.id,
+  key: style.key,
+  name: style.name,
+  description: style.description,
+  remote: style.remote,
+});
+
+const toCatalogTextStyle = (style: TextStyle): CatalogStyle => ({
+  ...toCatalogStyle(style),
+  fontName: style.fontName,
+  fontSize: style.fontSize,
+});
+
+const toCatalogVariable = (variable: {
+  key: string;
+  name: string;
+  resolvedType: VariableResolvedDataType;
+}): CatalogVariable => ({
+  key: variable.key,
+  name: variable.name,
+  resolvedType: variable.resolvedType,
+});
+
+const scanLocalVariableCollections = async (): Promise<
+  CatalogVariableCollection[]
+> => {
+  const collections = await figma.variables.getLocalVariableCollectionsAsync();
+  const result: CatalogVariableCollection[] = [];
+
+  for (const collection of collections) {
+    const variables: CatalogVariable[] = [];
+    for (const id of collection.variableIds.slice(
+      0,
+      MAX_VARIABLES_PER_COLLECTION,
+    )) {
+      const variable = await figma.variables.getVariableByIdAsync(id);
+      if (variable) variables.push(toCatalogVariable(variable));
+    }
+
+    result.push({
+      key: collection.key,
+      name: collection.name,
+      remote: false,
+      modes: collection.modes.map(({ modeId, name }) => ({ modeId, name })),
+      defaultModeId: collection.defaultModeId,
+      variables,
+    });
+  }
+
+  return result;
+};
+
+/**
+ * 팀 라이브러리 변수 컬렉션
+ * teamLibrary API는 모드를 제공하지 않고, 모드를 알려면 변수를 import해야 함
+ * 카탈로그 스캔이 문서를 바꾸지 않도록 라이브러리 컬렉션의 modes는 비워 둠
+ */
+const scanLibraryVariableCollections = async (): Promise<
+  CatalogVariableCollection[]
+> => {
+  const collections =
+    await figma.teamLibrary.getAvailableLibraryVariableCollectionsAsync();
+  const result: CatalogVariableCollection[] = [];
+
+  for (const collection of collections) {
+    const libraryVariables =
+      await figma.teamLibrary.getVariablesInLibraryCollectionAsync(
+        collection.key,
+      );
+
+    result.push({
+      key: collection.key,
+      name: collection.name,
+      libraryName: collection.libraryName,
+      remote: true,
+      modes: [],
+      variables: libraryVariables
+        .slice(0, MAX_VARIABLES_PER_COLLECTION)
+        .map(toCatalogVariable),
+    });
+  }
+
+  return result;
+};
+
+/**
+ * 현재 파일에서 사용 가능한 디자인 시스템 카탈로그 수집
+ * - 컴포넌트 세트/컴포넌트 (variant 정의 포함)
+ * - 로컬 paint/text/effect 스타일
+ * - 로컬 및 팀 라이브러리 변수 컬렉션 (모드는 로컬 컬렉션만)
+ */
+export const scanDesignSystem = async (): Promise<DesignSystemCatalog> => {
+  const [components, paintStyles, textStyles, effectStyles] = await Promise.all(
+    [
+      scanLibraryComponents(),
+      figma.getLocalPaintStylesAsync(),
+      figma.getLocalTextStylesAsync(),
+      figma.getLocalEffectStylesAsync(),
+    ],
+  );
+
+  const localCollections = await scanLocalVariableCollections();
+  let libraryCollections: CatalogVariableCollection[] = [];
+  try {
+    libraryCollections = await scanLibraryVariableCollections();
+  } catch (error) {
+    // teamlibrary 권한이 없거나 라이브러리가 활성화되지 않은 경우
+    console.warn("⚠️ [Plugin] Cannot scan library variables", error);
+  }
+
+  // 같은 라이브러리 컬렉션이 로컬 목록에 remote로 나타날 수 있으므로 key로 중복 제거
+  const libraryKeys = new Set(libraryCollections.map(({ key }) => key));
+
+  return {
+    // fileKey는 비공개 플러그인에서만 제공되므로 없으면 파일 이름으로 구분
+    fileKey: figma.fileKey ?? `name:${figma.root.name}`,
+    fileName: figma.root.name,
+    scannedAt: Date.now(),
+    components,
+    styles: {
+      paint: paintStyles.map(toCatalogStyle),
+      text: textStyles.map(toCatalogTextStyle),
+      effect: effectStyles.map(toCatalogStyle),
+    },
+    variableCollections: [
+      ...localCollections.filter(({ key }) => !libraryKeys.has(key)),
+      ...libraryCollections,
+    ],
+  };
+};
@@ -0,0 +1,94 @@
+// 라이브러리 컴포넌트 탐색을 위해 확인할 최대 인스턴스 수
+const MAX_SCANNED_INSTANCES = 2000;
+
+const getComponentProperties = (
+  definitions: ComponentPropertyDefinitions,
+): Record<string, ScannedComponentProperty> => {
+  const properties: Record<string, ScannedComponentProperty> = {};
+  Object.entries(definitions).forEach(([name, definition]) => {
+    properties[name] = {
+      type: definition.type,
+      defaultValue: definition.defaultValue,
+      values: definition.variantOptions ?? null,
+    };
+  });
+  return properties;
+};
+
+// INSTANCE_SWAP 프로퍼티를 교체 가능한 슬롯으로 기록
+const getComponentSlots = (
+  definitions: ComponentPropertyDefinitions,
+): ScannedComponentSlot[] =>
+  Object.entries(definitions)
+    .filter(([, definition]) => definition.type === "INSTANCE_SWAP")
+    .map(([propertyName, definition]) => ({
+      name: propertyName.split("#")[0],
+      propertyName,
+      preferredComponentKeys: (definition.preferredValues ?? [])
+        .filter((value) => value.type === "COMPONENT")
+        .map((value) => value.key),
+    }));
+
+const toScannedComponent = (
+  node: ComponentNode | ComponentSetNode,
+): ScannedComponent => {
+  let definitions: ComponentPropertyDefinitions = {};
+  try {
+    definitions = node.componentPropertyDefinitions;
+  } catch (error) {
+    // 깨진 variant 세트는 프로퍼티 정의를 읽을 수 없음
+    console.warn(`⚠️ [Plugin] Cannot read properties of ${node.name}`, error);
+  }
+
+  return {
+    key: node.key,
+    name: node.name,
+    type: node.type,
+    description: node.description,
+    remote: node.remote,
+    properties: getComponentProperties(definitions),
+    slots: getComponentSlots(definitions),
+  };
+};
+
+// variant는 소속 컴포넌트 세트 단위로 기록
+const getCatalogTarget = (component: ComponentNode) =>
+  component.parent?.type === "COMPONENT_SET" ? component.parent : component;
+
+/**
+ * 파일에서 사용 가능한 컴포넌트 목록 수집
+ * - 로컬 컴포넌트/컴포넌트 세트
+ * - teamLibrary API는 컴포넌트 목록을 제공하지 않으므로,
+ *   파일에 배치된 인스턴스의 원격 메인 컴포넌트로 라이브러리 컴포넌트를 수집
+ */
+export const scanLibraryComponents = async (): Promise<ScannedComponent[]> => {
+  await figma.loadAllPagesAsync();
+  const catalog = new Map<string, ScannedComponent>();
+
+  const add = (node: ComponentNode | ComponentSetNode) => {
+    if (!node.key || catalog.has(node.key)) return;
+    catalog.set(node.key, toScannedComponent(node));
+  };
+
+  figma.root
+    .findAllWithCriteria({ types: ["COMPONENT_SET", "COMPONENT"] })
+    .forEach((node) => {
+      add(node.type === "COMPONENT" ? getCatalogTarget(node) : node);
+    });
+
+  const instances = figma.root
+    .findAllWithCriteria({ types: ["INSTANCE"] })
+    .slice(0, MAX_SCANNED_INSTANCES);
+  const visitedMainComponents = new Set<string>();
+
+  for (const instance of instances) {
+    const mainComponent = await instance.getMainComponentAsync();
+    if (!mainComponent || visitedMainComponents.has(mainComponent.id)) {
+      continue;
+    }
+    visitedMainComponents.add(mainComponent.id);
+    add(getCatalogTarget(mainComponent));
+  }
+
+  return [...catalog.values()];
+};
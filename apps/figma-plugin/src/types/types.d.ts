@@ -1,7 +1,395 @@
+// GET_CONTEXT 선택 노드 트리 (planning 프롬프트용, 기본값인 필드는 생략)
 interface ContextInfo {
   id: string;
   name: string;
   type: string;
+  // 숨김 노드만 false로 표기
+  visible?: boolean;
+  x?: number;
+  y?: number;
+  width?: number;
+  height?: number;
   componentName?: string;
+  componentKey?: string;
+  componentProperties?: Record<string, string | boolean>;
+  layout?: Record<string, string | number>;
+  text?: {
+    characters: string;
+    // maxTextLength를 넘어 잘린 경우
+    truncated?: boolean;
+    fontSize?: number;
+    fontName?: FontName;
+  };
+  // 적용된 스타일 이름
+  styles?: {
+    fill?: string;
+    stroke?: string;
+    effect?: string;
+    text?: string;
+  };
+  // 필드 → 바인딩된 변수 이름
+  variables?: Record<string, string>;
+  // 같은 컴포넌트/variant라 생략한 형제 인스턴스 ID
+  repeatedNodeIds?: string[];
+  // depth/노드 예산 초과로 생략한 자식 수
+  omittedChildren?: number;
   children?: ContextInfo[];
 }
+
+interface ContextSerializeOptions {
+  // 선택 노드 아래로 펼칠 깊이 (0: 선택 노드만)
+  maxDepth?: number;
+  // 직렬화할 전체 노드 수 (가까운 깊이부터 채움)
+  maxNodes?: number;
+  maxTextLength?: number;
+}
+
+interface ContextImageOptions {
+  format?: "JPG" | "PNG";
+  // 요청 배율 (maxPixelSize를 넘지 않도록 줄어들 수 있음)
+  scale?: number;
+  // 긴 변의 최대 픽셀 수
+  maxPixelSize?: number;
+  // 루트 프레임 외에 선택 노드별 crop도 포함
+  includeCrops?: boolean;
+  // 웹에 이미 있는 이미지 cacheKey (다시 export하지 않음)
+  cachedImageKeys?: string[];
+}
+
+// GET_CONTEXT 이미지 메타데이터 (바이트는 CONTEXT_IMAGE_CHUNK로 먼저 전송)
+interface ContextImage {
+  nodeId: string;
+  nodeName: string;
+  kind: "root" | "crop";
+  format: "JPG" | "PNG";
+  scale: number;
+  width: number;
+  height: number;
+  // 노드(하위 포함)가 바뀔 때마다 달라지는 버전
+  version: string;
+  cacheKey: string;
+  // cachedImageKeys에 있어 전송을 생략한 경우 0
+  chunkCount: number;
+}
+
+interface NodeSummary {
+  id: string;
+  name: string;
+  type: string;
+  parentId?: string | null;
+}
+
+interface NodeDetail extends NodeSummary {
+  visible?: boolean;
+  componentKey?: string | null;
+  componentName?: string | null;
+  variantProperties?: Record<string, string>;
+  size?: {
+    width: number;
+    height: number;
+  };
+  layout?: Record<string, string | number | null>;
+  constraints?: {
+    horizontal?: string;
+    vertical?: string;
+  };
+  text?: {
+    characters: string;
+    textStyleId?: string;
+    fontSize?: number;
+    fontName?: { family: string; style: string };
+    fontNames?: { family: string; style: string }[];
+  };
+  fills?: any;
+  strokes?: any;
+  effects?: any;
+  boundVariables?: Record<string, string>;
+  children?: Array<NodeSummary | NodeDetail>;
+}
+
+interface UpdatedNodeSummary extends NodeSummary {
+  changedProperties: string[];
+  componentKey?: string | null;
+  componentName?: string | null;
+  variantProps?: Record<string, string>;
+}
+
+interface ExecutionReport {
+  timestamp: number;
+  durationMs: number;
+  executedCodeLength: number;
+  createdNodes: NodeDetail[];
+  updatedNodes: UpdatedNodeSummary[];
+  deletedNodeIds: string[];
+  selection: NodeSummary[];
+  createdNodeIds: string[];
+  message?: string;
+  error?: string;
+  rollback?: ExecutionRollback;
+  policyViolations?: SandboxViolation[];
+  unresolvedTokens?: UnresolvedToken[];
+  // EXECUTE_OPERATIONS 실행 시 operation별 결과
+  operationResults?: OperationResult[];
+  // 문서에 없는 폰트를 대체한 내역
+  fontSubstitutions?: FontSubstitution[];
+}
+
+// 실행 전에 미리 로드할 폰트 (대상 노드/생성 코드의 폰트는 플러그인이 직접 수집)
+interface FontRequirements {
+  fonts?: FontName[];
+  // TodoDesign.styles.textStyleKey 등 실행 중 import할 텍스트 스타일 (파일에 있는 스타일만 미리 로드)
+  textStyleKeys?: string[];
+  // 사용할 수 없는 폰트 대신 사용할 폰트
+  fallbackFont?: FontName;
+}
+
+interface FontSubstitution {
+  requested: FontName;
+  substitute: FontName;
+  // same_family: 같은 패밀리의 표기만 다른 스타일 (예: "SemiBold" ↔ "Semi Bold")
+  reason: "same_family" | "fallback";
+}
+
+// 토큰 접두사(예: "space/")별로 먼저 검색할 라이브러리 변수 컬렉션
+interface TokenSource {
+  prefix: string;
+  collectionKey: string;
+}
+
+interface UnresolvedToken {
+  token: string;
+  nodeId: string | null;
+  nodeName: string | null;
+  field: string;
+  reason: "not_found" | "type_mismatch" | "unsupported_field" | "bind_failed";
+  message?: string;
+}
+
+// 같은 plan의 이전 operation이 만들거나 대상으로 한 노드 ({ ref: operation id })
+interface OperationNodeRef {
+  ref: string;
+}
+
+// 기존 노드 ID 또는 operation 참조
+type OperationTarget = string | OperationNodeRef;
+
+interface OperationBase {
+  // plan 안에서 고유한 ID (다른 operation의 ref 대상)
+  id: string;
+  // 이 operation이 구현하는 TODO
+  todoId?: string;
+}
+
+interface CreateNodeOperation extends OperationBase {
+  op: "createNode";
+  nodeType: "FRAME" | "TEXT" | "INSTANCE";
+  name?: string;
+  // INSTANCE: 컴포넌트 또는 컴포넌트 세트 key
+  componentKey?: string;
+}
+
+interface SetPropsOperation extends OperationBase {
+  op: "setProps";
+  target: OperationTarget;
+  // width/height는 resize, 문자열 토큰 경로는 변수 바인딩, effectStyleKey는 effect 스타일
+  props: Record<string, unknown>;
+}
+
+interface SetVariantOperation extends OperationBase {
+  op: "setVariant";
+  target: OperationTarget;
+  // "Label" 처럼 ID 접미사 없는 이름도 허용
+  properties: Record<string, string | boolean>;
+}
+
+interface BindVariableOperation extends OperationBase {
+  op: "bindVariable";
+  target: OperationTarget;
+  field: string;
+  token: string;
+}
+
+interface InsertOperation extends OperationBase {
+  op: "insert";
+  target: OperationTarget;
+  // 생략 시 현재 페이지
+  parent?: OperationTarget;
+  index?: number;
+}
+
+interface MoveOperation extends OperationBase {
+  op: "move";
+  target: OperationTarget;
+  // 생략 시 현재 부모 안에서 순서만 변경
+  parent?: OperationTarget;
+  index?: number;
+}
+
+interface DeleteOperation extends OperationBase {
+  op: "delete";
+  target: OperationTarget;
+}
+
+interface SetTextOperation extends OperationBase {
+  op: "setText";
+  target: OperationTarget;
+  characters?: string;
+  textStyleKey?: string;
+  fontName?: FontName;
+}
+
+type DesignOperation =
+  | CreateNodeOperation
+  | SetPropsOperation
+  | SetVariantOperation
+  | BindVariableOperation
+  | InsertOperation
+  | MoveOperation
+  | DeleteOperation
+  | SetTextOperation;
+
+interface OperationResult {
+  id: string;
+  op: DesignOperation["op"];
+  todoId?: string;
+  // skipped: 참조한 operation이 실패해 실행하지 않음
+  status: "success" | "failed" | "skipped";
+  nodeId: string | null;
+  error?: string;
+}
+
+// 샌드박스에서 실행하는 생성 코드 또는 operation 목록
+type ExecutionProgram = string | DesignOperation[];
+
+type SandboxPolicy =
+  | "blocked_api"
+  | "out_of_scope"
+  | "node_budget"
+  | "timeout"
+  | "network";
+
+interface SandboxViolation {
+  policy: SandboxPolicy;
+  message: string;
+}
+
+interface ExecutionRollback {
+  removedNodeIds: string[];
+  restoredNodeIds: string[];
+  failedNodeIds: string[];
+}
+
+interface NodeSnapshot {
+  id: string;
+  type: string;
+  parentId: string | null;
+  index: number;
+  width: number;
+  height: number;
+  properties: Record<string, any>;
+  mainComponentId?: string;
+  mainComponentKey?: string;
+  componentProperties?: Record<string, string | boolean>;
+}
+
+interface ExecutionChangeSet {
+  // 실행 직후 상태 (되돌리기 전 사용자 수정 여부 비교용)
+  createdNodes: NodeSnapshot[];
+  updatedNodes: Array<{ before: NodeSnapshot; after: NodeSnapshot }>;
+  // 삭제 전 상태 (하위 노드 포함)
+  deletedNodes: NodeSnapshot[];
+  // 실행 전 스냅샷이 없어 되돌릴 수 없는 노드
+  untrackedNodeIds: string[];
+}
+
+interface RevertConflict {
+  nodeId: string;
+  name?: string;
+  reason: "missing" | "modified";
+}
+
+interface RevertResult {
+  removedNodeIds: string[];
+  restoredNodeIds: string[];
+  recreatedNodeIds: string[];
+  failedNodeIds: string[];
+  conflicts: RevertConflict[];
+}
+
+interface DryRunNodeDiff {
+  nodeId: string;
+  name: string;
+  changes: Array<{ field: string; before: any; after: any }>;
+}
+
+interface DryRunPreview {
+  rootFrameIds: string[];
+  images: Array<{ nodeId: string; nodeName: string; image: number[] }>;
+  // 노드 ID는 복제본이 아닌 원본 기준
+  report: ExecutionReport;
+  diff: DryRunNodeDiff[];
+  error?: string;
+}
+
+interface ScannedComponentProperty {
+  type: ComponentPropertyType;
+  defaultValue: string | boolean;
+  // VARIANT 프로퍼티의 허용 값
+  values: string[] | null;
+}
+
+interface ScannedComponentSlot {
+  name: string;
+  propertyName: string;
+  preferredComponentKeys: string[];
+}
+
+interface ScannedComponent {
+  key: string;
+  name: string;
+  type: "COMPONENT" | "COMPONENT_SET";
+  description: string;
+  remote: boolean;
+  properties: Record<string, ScannedComponentProperty>;
+  slots: ScannedComponentSlot[];
+}
+
+interface CatalogStyle {
+  id: string;
+  key: string;
+  name: string;
+  description: string;
+  remote: boolean;
+  fontName?: FontName;
+  fontSize?: number;
+}
+
+interface CatalogVariable {
+  key: string;
+  name: string;
+  resolvedType: VariableResolvedDataType;
+}
+
+interface CatalogVariableCollection {
+  key: string;
+  name: string;
+  libraryName?: string;
+  remote: boolean;
+  // 라이브러리 컬렉션은 비어 있음 (스캔 시 변수를 import하지 않음)
+  modes: Array<{ modeId: string; name: string }>;
+  defaultModeId?: string;
+  variables: CatalogVariable[];
+}
+
+interface DesignSystemCatalog {
+  fileKey: string;
+  fileName: string;
+  scannedAt: number;
+  components: ScannedComponent[];
+  styles: {
+    paint: CatalogStyle[];
+    text: CatalogStyle[];
+    effect: CatalogStyle[];
+  };
+  variableCollections: CatalogVariableCollection[];
+}